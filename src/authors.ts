@@ -0,0 +1,146 @@
+import { BibliographyError } from "./errors.js";
+import { buildHtmlTextPattern, escapeAttr, isTagName, mapTextTokens } from "./html.js";
+import type { AuthorIdentity, BibEntry } from "./types.js";
+
+// ---------------------------------------------------------------------------
+// Author highlighting
+// ---------------------------------------------------------------------------
+
+interface PersonName {
+  family: string;
+  given?: string;
+}
+
+/**
+ * Wrap the rendered names of the given identities in `tag`.  Only
+ * identities that actually appear in the entry's CSL author/editor lists
+ * (or its ORCID fields) are highlighted, so a matching string elsewhere in
+ * the entry doesn't get picked up by accident.  The title is left alone,
+ * so that it can still be found for the title link.
+ *
+ * @throws {BibliographyError} when `tag` is not an element name
+ */
+export function highlightAuthors(
+  html: string,
+  entry: BibEntry,
+  identities: AuthorIdentity[],
+  { tag = "strong", className }: { tag?: string; className?: string } = {},
+): string {
+  if (!isTagName(tag)) {
+    throw new BibliographyError(`Invalid highlight element "${tag}": expected an element name, e.g. "strong".`);
+  }
+  const patterns = identities
+    .filter((identity) => identityMatchesEntry(identity, entry))
+    .flatMap((identity) => [identity, ...(identity.variants ?? [])])
+    .map(renderedNamePattern);
+  if (patterns.length === 0) return html;
+
+  const regex = new RegExp(`(?<!\\p{L})(?:${patterns.join("|")})(?!\\p{L})`, "gu");
+  const cls = className ? ` class="${escapeAttr(className)}"` : "";
+
+  const highlight = (text: string) => text.replace(regex, (match) => `<${tag}${cls}>${match}</${tag}>`);
+
+  // Skip the first occurrence of the title, which is the one title linking wraps.
+  const title = entry.csl.title;
+  const titlePattern = typeof title === "string" && title.trim() ? buildHtmlTextPattern(title) : "";
+  const titleRegex = titlePattern ? new RegExp(titlePattern) : null;
+  let titleSeen = !titleRegex;
+
+  return mapTextTokens(html, (token) => {
+    const match = titleSeen ? null : titleRegex!.exec(token);
+    if (!match) return highlight(token);
+    titleSeen = true;
+    const end = match.index + match[0].length;
+    return highlight(token.slice(0, match.index)) + match[0] + highlight(token.slice(end));
+  });
+}
+
+function identityMatchesEntry(identity: AuthorIdentity, entry: BibEntry): boolean {
+  if (identity.orcid) {
+    const orcid = normalizeOrcid(identity.orcid);
+    const listed = (identity.orcidFields ?? ["orcid"])
+      .map((f) => entry.raw[f])
+      .filter((v) => v != null);
+    if (listed.length > 0) {
+      return listed.some((v) => normalizeOrcid(String(v)).includes(orcid));
+    }
+  }
+
+  const people: unknown[] = [...(entry.csl.author ?? []), ...(entry.csl.editor ?? [])];
+  const names = [identity, ...(identity.variants ?? [])];
+  return people.some((person) => names.some((name) => sameName(person, name)));
+}
+
+function sameName(person: unknown, name: PersonName): boolean {
+  if (person == null || typeof person !== "object") return false;
+  const p = person as Record<string, string | undefined>;
+  const family = [p["non-dropping-particle"], p.family].filter(Boolean).join(" ")
+    || p.literal
+    || "";
+  if (normalizeName(family) !== normalizeName(name.family)
+    && normalizeName(p.family ?? "") !== normalizeName(name.family)) {
+    return false;
+  }
+  if (!name.given || !p.given) return true;
+  return normalizeName(p.given).charAt(0) === normalizeName(name.given).charAt(0);
+}
+
+/**
+ * Regex source for a name as citeproc renders it: family-first
+ * (`Doe, J. M.`, `Doe JM`) or given-first (`J. Doe`, `Jane Doe`), with
+ * full given names or initials.
+ */
+function renderedNamePattern(name: PersonName): string {
+  const family = namePattern(name.family);
+  if (!name.given) return family;
+
+  const given = name.given.trim();
+  const initials = given
+    .split(/[\s.]+/)
+    .filter(Boolean)
+    .map((part) =>
+      part
+        .split("-")
+        .map((p) => `${namePattern(p.charAt(0))}\\.?`)
+        .join("-?"),
+    );
+  const [first, ...rest] = initials;
+  const initialsPattern = rest.length
+    ? `${first}(?:${OPTIONAL_SPACE}${rest.join(OPTIONAL_SPACE)})?`
+    : first;
+  const givenPattern = `(?:${namePattern(given)}|${initialsPattern})`;
+
+  return `${family},?${SPACE}${givenPattern}|${givenPattern}${SPACE}${family}`;
+}
+
+const SPACE = "(?:\\s|&nbsp;|&#160;|\\u00a0)+";
+const OPTIONAL_SPACE = `(?:${SPACE})?`;
+
+function namePattern(text: string): string {
+  return text
+    .trim()
+    .split(/\s+/)
+    .map((word) => {
+      let pattern = "";
+      for (const ch of word) {
+        if (ch === "'" || ch === "’") pattern += "(?:'|’|&#39;|&apos;|&#8217;)";
+        else if (ch === "-") pattern += "[-‐‑]";
+        else pattern += buildHtmlTextPattern(ch);
+      }
+      return pattern;
+    })
+    .join(SPACE);
+}
+
+function normalizeName(name: string): string {
+  return name
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/’/g, "'")
+    .toLowerCase()
+    .trim();
+}
+
+function normalizeOrcid(value: string): string {
+  return value.replace(/https?:\/\/orcid\.org\//gi, "").toUpperCase();
+}
@@ -0,0 +1,132 @@
+import { BibliographyError } from "./errors.js";
+import { getFieldValue } from "./fields.js";
+import { escapeHtml, isTagName, renderAttributes, sanitizeUrl } from "./html.js";
+import { localize } from "./locale.js";
+import { compileQuery } from "./query.js";
+import type { BadgeConfig, BadgeContext, BibEntry, LocalizedText, StructuredBadge } from "./types.js";
+
+// ---------------------------------------------------------------------------
+// Badges
+// ---------------------------------------------------------------------------
+
+/** Why a badge does or doesn't render for an entry. */
+export type BadgeResolution =
+  | { status: "ok"; url: string; context: BadgeContext; groups: Array<string | undefined> }
+  | { status: "missing" }
+  | { status: "excluded" }
+  | { status: "no-match"; value: string }
+  | { status: "unsafe-url"; value: string; url: string };
+
+/**
+ * Resolve the link of `badge` for `entry`: check `when`, read the field,
+ * apply `match`, fill in or compute the URL and check its scheme.
+ * `excluded` means that `when` didn't match or the `url` function
+ * returned `null`.
+ */
+export function resolveBadge(entry: BibEntry, badge: BadgeConfig, locale = "en-US"): BadgeResolution {
+  if (badge.when !== undefined && !compileQuery(badge.when)(entry)) return { status: "excluded" };
+
+  const rawValue = getFieldValue(entry, badge.field);
+  if (typeof rawValue !== "string" && typeof rawValue !== "number") return { status: "missing" };
+
+  const value = String(rawValue);
+  let groups: Array<string | undefined> = [value];
+  if (badge.match) {
+    const m = value.match(toRegExp(badge.match));
+    if (!m) return { status: "no-match", value };
+    groups = [...m];
+  }
+
+  const context: BadgeContext = { entry, value, match: groups.map((group) => group ?? ""), locale };
+  const url = typeof badge.url === "function" ? badge.url(context) : fillTemplate(badge.url, groups);
+  if (url == null) return { status: "excluded" };
+  const safeUrl = sanitizeUrl(url);
+  if (!safeUrl) return { status: "unsafe-url", value, url };
+  return { status: "ok", url: safeUrl, context, groups };
+}
+
+/** The badges that render for an entry, with their texts in `locale`. */
+export function resolveBadges(entry: BibEntry, badges: BadgeConfig[], locale: string): StructuredBadge[] {
+  const resolved: StructuredBadge[] = [];
+  for (const badge of badges) {
+    const resolution = resolveBadge(entry, badge, locale);
+    if (resolution.status !== "ok") continue;
+    const { context, groups } = resolution;
+    const text = (value: LocalizedText | undefined) =>
+      value === undefined ? null : fillTemplate(localize(value, locale), groups);
+    resolved.push({
+      field: badge.field,
+      label: typeof badge.label === "function" ? badge.label(context) : text(badge.label)!,
+      url: resolution.url,
+      className: badge.className ?? null,
+      icon: badge.icon ?? null,
+      title: text(badge.title),
+      ariaLabel: text(badge.ariaLabel),
+      rel: badge.rel ?? null,
+      target: badge.target ?? null,
+    });
+  }
+  return resolved;
+}
+
+/**
+ * Render resolved badges as links, wrapped in `wrapper` (no wrapper when
+ * `false`).  Empty when there are no badges.
+ *
+ * @throws {BibliographyError} when `wrapper` is not an element name
+ */
+export function renderBadges(
+  badges: StructuredBadge[],
+  wrapper: string | false = "span",
+  wrapperClass = "bib-links",
+): string {
+  if (wrapper && !isTagName(wrapper)) {
+    throw new BibliographyError(`Invalid badge wrapper "${wrapper}": expected an element name, e.g. "span".`);
+  }
+  const links = badges.map((badge) => {
+    const attrs = renderAttributes({
+      class: badge.className ?? false,
+      href: badge.url,
+      title: badge.title ?? false,
+      "aria-label": badge.ariaLabel ?? false,
+      rel: badge.rel ?? false,
+      target: badge.target ?? false,
+    });
+    const icon = badge.icon ? `${badge.icon}${badge.label ? " " : ""}` : "";
+    return `<a${attrs}>${icon}${escapeHtml(badge.label)}</a>`;
+  });
+
+  if (links.length === 0) return "";
+  if (!wrapper) return links.join(" ");
+  const attrs = renderAttributes({ class: wrapperClass || false });
+  return `<${wrapper}${attrs}>${links.join(" ")}</${wrapper}>`;
+}
+
+/** The label of a badge for messages, e.g. in validation findings. */
+export function badgeName(badge: BadgeConfig): string {
+  return typeof badge.label === "function" ? badge.field : localize(badge.label);
+}
+
+/**
+ * A badge `match` as a RegExp: a string is a pattern, or `/pattern/flags`.
+ *
+ * @throws {SyntaxError} for invalid patterns
+ */
+export function toRegExp(pattern: RegExp | string): RegExp {
+  if (typeof pattern !== "string") return pattern;
+  const literal = /^\/(.*)\/([a-z]*)$/s.exec(pattern);
+  return literal ? new RegExp(literal[1], literal[2]) : new RegExp(pattern);
+}
+
+/**
+ * Replace `$0`–`$9` with the full match and the capture groups.  `$1` is
+ * the full match when there are no groups or the first one didn't match;
+ * other groups that didn't match are left as written.
+ */
+function fillTemplate(template: string, groups: Array<string | undefined>): string {
+  return template.replace(/\$(\d)/g, (literal, digit: string) => {
+    const index = Number(digit);
+    if (index === 1) return groups[1] ?? groups[0]!;
+    return groups[index] ?? literal;
+  });
+}
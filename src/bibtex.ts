@@ -0,0 +1,97 @@
+import { BibliographyError } from "./errors.js";
+import type { BibEntry, BibtexExportOptions } from "./types.js";
+
+// ---------------------------------------------------------------------------
+// BibTeX / BibLaTeX export
+// ---------------------------------------------------------------------------
+
+/**
+ * Serialize entries to BibTeX from their raw fields.
+ *
+ * Field values are written exactly as they were parsed (LaTeX markup,
+ * custom and BibLaTeX-only fields included), so parsing the output yields
+ * the same raw fields again.
+ */
+export function toBibtex(entries: BibEntry[], options: BibtexExportOptions = {}): string {
+  const indent = typeof options.indent === "number"
+    ? " ".repeat(options.indent)
+    : options.indent ?? "  ";
+  const omit = new Set((options.omitFields ?? []).map((f) => f.toLowerCase()));
+  const order = (options.fieldOrder ?? []).map((f) => f.toLowerCase());
+
+  return entries
+    .map((entry) => {
+      if (entry.inputFormat !== "bibtex" && entry.inputFormat !== "biblatex") {
+        throw new BibliographyError(
+          `Cannot export entry "${entry.key}" to BibTeX: it was parsed from ${entry.inputFormat}.`,
+        );
+      }
+      const fields = orderFields(
+        Object.keys(entry.raw).filter(
+          (name) => entry.raw[name] != null && !omit.has(name.toLowerCase()),
+        ),
+        order,
+      );
+      const width = options.align ? Math.max(0, ...fields.map((f) => f.length)) : 0;
+      const lines = fields.map((name) => {
+        const value = formatValue(entry, name, options.delimiter ?? "braces");
+        return `${indent}${name.padEnd(width)} = ${value},`;
+      });
+      const head = `@${entry.entryType || "misc"}{${entry.key},`;
+      return lines.length > 0 ? `${head}\n${lines.join("\n")}\n}` : `${head}\n}`;
+    })
+    .join("\n\n");
+}
+
+/** Fields named in `order` first (in that order), then the rest as parsed. */
+function orderFields(fields: string[], order: string[]): string[] {
+  const rank = (name: string) => {
+    const index = order.indexOf(name.toLowerCase());
+    return index === -1 ? order.length : index;
+  };
+  return fields
+    .map((name, index) => ({ name, index }))
+    .sort((a, b) => rank(a.name) - rank(b.name) || a.index - b.index)
+    .map(({ name }) => name);
+}
+
+function formatValue(
+  entry: BibEntry,
+  field: string,
+  delimiter: "braces" | "quotes",
+): string {
+  // Bare numbers (`year = 2020`) are parsed as numbers; braces would make them strings.
+  if (typeof entry.raw[field] === "number") return String(entry.raw[field]);
+  const value = String(entry.raw[field]);
+  if (!hasBalancedBraces(value)) {
+    throw new BibliographyError(
+      `Cannot export field "${field}" of entry "${entry.key}": unbalanced braces.`,
+    );
+  }
+  // A `"` outside braces would end a quoted value early.
+  if (delimiter === "quotes" && !hasTopLevelQuote(value)) return `"${value}"`;
+  return `{${value}}`;
+}
+
+function hasBalancedBraces(value: string): boolean {
+  let depth = 0;
+  for (let i = 0; i < value.length; i += 1) {
+    const ch = value[i];
+    if (ch === "\\") i += 1;
+    else if (ch === "{") depth += 1;
+    else if (ch === "}" && --depth < 0) return false;
+  }
+  return depth === 0;
+}
+
+function hasTopLevelQuote(value: string): boolean {
+  let depth = 0;
+  for (let i = 0; i < value.length; i += 1) {
+    const ch = value[i];
+    if (ch === "\\") i += 1;
+    else if (ch === "{") depth += 1;
+    else if (ch === "}") depth -= 1;
+    else if (ch === '"' && depth === 0) return true;
+  }
+  return false;
+}
@@ -0,0 +1,177 @@
+import Cite from "citation-js";
+import { BibliographyError } from "./errors.js";
+import { fs, path } from "./node.js";
+import type { BibEntry, RenderCache, RenderedEntry } from "./types.js";
+
+// ---------------------------------------------------------------------------
+// Render cache
+// ---------------------------------------------------------------------------
+
+/**
+ * 32-bit FNV-1a hash, as hex without leading zeros.  Style names
+ * (`custom-<hash>`) are built from it, so its output must not change.
+ */
+export function hashString(input: string, seed = 0x811c9dc5): string {
+  let h = seed;
+  for (let i = 0; i < input.length; i += 1) {
+    h ^= input.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return (h >>> 0).toString(16);
+}
+
+/** Two {@link hashString}s with different seeds, 8 digits each: 64 bits for cache keys. */
+export function contentHash(input: string): string {
+  return hashString(input).padStart(8, "0") + hashString(input, 0x01000193).padStart(8, "0");
+}
+
+const entryHashes = new WeakMap<Record<string, any>, string>();
+
+/**
+ * Hash of the CSL data of an entry.  citation-js' `_graph` is left out: it
+ * holds the whole input text, which says nothing about this entry.
+ */
+function entryHash(entry: BibEntry): string {
+  let hash = entryHashes.get(entry.csl);
+  if (hash == null) {
+    hash = contentHash(
+      JSON.stringify(entry.csl, (key, value) => (key === "_graph" ? undefined : value)),
+    );
+    entryHashes.set(entry.csl, hash);
+  }
+  return hash;
+}
+
+/**
+ * The cache key of one citeproc run.  Entries render differently depending
+ * on the other entries of the run (numbering, "2024a"), so the key covers
+ * all of them, in order.
+ */
+export function renderKey(entries: BibEntry[], styleXml: string, localeXml: string): string {
+  const { cite, citeproc } = Cite.version ?? {};
+  return contentHash(
+    [cite, citeproc, xmlHash(styleXml), xmlHash(localeXml), ...entries.map(entryHash)].join("\n"),
+  );
+}
+
+/** Hashes of style and locale XML, which are few but long. */
+const xmlHashes = new Map<string, string>();
+
+function xmlHash(xml: string): string {
+  let hash = xmlHashes.get(xml);
+  if (hash == null) {
+    hash = contentHash(xml);
+    xmlHashes.set(xml, hash);
+  }
+  return hash;
+}
+
+/** Drop the hash of style or locale XML that is no longer registered. */
+export function forgetXmlHash(xml: string): void {
+  xmlHashes.delete(xml);
+}
+
+/**
+ * An in-memory {@link RenderCache} that keeps the most recently used
+ * renders: at most `maxEntries` of them, taking up at most `maxBytes` of
+ * strings (16 MiB by default).  Larger renders aren't kept at all.
+ */
+export function createMemoryRenderCache(
+  { maxEntries = 500, maxBytes = 16 * 1024 * 1024 }: { maxEntries?: number; maxBytes?: number } = {},
+): RenderCache {
+  const renders = new Map<string, { rendered: RenderedEntry[]; bytes: number }>();
+  let totalBytes = 0;
+
+  const remove = (key: string) => {
+    const stored = renders.get(key);
+    if (!stored) return;
+    renders.delete(key);
+    totalBytes -= stored.bytes;
+  };
+
+  return {
+    get(key) {
+      const stored = renders.get(key);
+      if (stored) {
+        renders.delete(key);
+        renders.set(key, stored);
+      }
+      return stored?.rendered;
+    },
+    set(key, rendered) {
+      remove(key);
+      const bytes = renderedBytes(rendered);
+      if (bytes > maxBytes) return;
+      renders.set(key, { rendered, bytes });
+      totalBytes += bytes;
+      while (renders.size > maxEntries || totalBytes > maxBytes) remove(renders.keys().next().value!);
+    },
+  };
+}
+
+/** The memory the strings of a render take up, at two bytes per character. */
+function renderedBytes(rendered: RenderedEntry[]): number {
+  let length = 0;
+  for (const [id, html] of rendered) length += id.length + html.length;
+  return length * 2;
+}
+
+/**
+ * A {@link RenderCache} that persists renders as JSON files in `dir`, so
+ * that later builds can skip citeproc, with an in-memory cache in front.
+ * Needs `node:fs`.
+ */
+export function createFileRenderCache(
+  dir: string,
+  options: { maxEntries?: number; maxBytes?: number } = {},
+): RenderCache {
+  if (!fs || !path) throw new BibliographyError("A file render cache needs node:fs.");
+  const { existsSync, mkdirSync, readFileSync, renameSync, rmSync, writeFileSync } = fs;
+  const { join } = path;
+  const memory = createMemoryRenderCache(options);
+
+  return {
+    get(key) {
+      const cached = memory.get(key);
+      if (cached) return cached;
+      let rendered: unknown;
+      try {
+        rendered = JSON.parse(readFileSync(join(dir, `${key}.json`), "utf-8"));
+      } catch {
+        // Missing or unreadable: render again.
+        return undefined;
+      }
+      // Written by something else: render again, and overwrite it.
+      if (!isRendered(rendered)) return undefined;
+      memory.set(key, rendered);
+      return rendered;
+    },
+    set(key, rendered) {
+      memory.set(key, rendered);
+      // Write, then rename, so that concurrent builds never read half a file.
+      const file = join(dir, `${key}.json`);
+      const temp = `${file}.${process.pid}.tmp`;
+      try {
+        mkdirSync(dir, { recursive: true });
+        writeFileSync(temp, JSON.stringify(rendered));
+        renameSync(temp, file);
+      } catch {
+        // Read-only or full disk: the render stays in memory only.
+        if (existsSync(temp)) rmSync(temp, { force: true });
+      }
+    },
+  };
+}
+
+/** Whether parsed JSON is a list of `[id, html]` pairs. */
+function isRendered(value: unknown): value is RenderedEntry[] {
+  return (
+    Array.isArray(value) &&
+    value.every(
+      (pair) => Array.isArray(pair) && pair.length === 2 && typeof pair[0] === "string" && typeof pair[1] === "string",
+    )
+  );
+}
+
+/** Shared by all bibliographies without a `renderCache` option; 16 MiB at most. */
+export const defaultRenderCache = createMemoryRenderCache();
@@ -1,11 +1,13 @@
 declare module "citation-js" {
   interface CitePlugins {
     input: {
-      chainLink(data: string): Array<{
-        type: string;
-        label: string;
-        properties: Record<string, any>;
-      }>;
+      /**
+       * Parse to the raw records of the detected input format: BibTeX
+       * entries (`{ type, label, properties }`), CSL-JSON objects or RIS tags.
+       */
+      chainLink(data: string): Record<string, unknown> | Array<Record<string, unknown>>;
+      /** Detect the citation-js input type, e.g. `'@biblatex/text'`. */
+      type(data: string): string;
       [key: string]: any;
     };
     output: { [key: string]: any };
@@ -20,6 +22,8 @@ declare module "citation-js" {
     constructor(data: any, options?: any);
     data: Record<string, any>[];
     static plugins: CitePlugins;
+    /** Versions of citation-js and citeproc, e.g. `{ cite: '0.7.21', … }`. */
+    static version: Record<string, string>;
     format(style: string, options?: Record<string, any>): string;
   }
 
@@ -0,0 +1,173 @@
+import Cite from "citation-js";
+import { BibliographyError } from "./errors.js";
+import { registerLocale, useLocale } from "./locale.js";
+import { registerStyle, useStyle } from "./styles.js";
+import { convertHtml } from "./targets.js";
+import type { Bibliography } from "./index.js";
+import type {
+  BibEntry,
+  CitationContextOptions,
+  CitationItem,
+  CiteOptions,
+  OutputTarget,
+  TargetFormatOptions,
+} from "./types.js";
+
+// ---------------------------------------------------------------------------
+// In-text citations
+// ---------------------------------------------------------------------------
+
+interface CslCitation {
+  citationItems: Record<string, unknown>[];
+  properties: { noteIndex: number; mode?: string };
+}
+
+/**
+ * Tracks the citations of one document so that numeric styles number
+ * entries in order of first citation, repeated citations get "ibid." or
+ * short forms, and year suffixes (2024a, 2024b) stay consistent.
+ *
+ * Create one with {@link Bibliography.createCitationContext}.
+ *
+ * @example
+ * const ctx = bib.createCitationContext();
+ * ctx.cite('doe:2024:gadgets');                        // "(Doe, 2024)"
+ * ctx.cite([{ key: 'smith-doe:2021:conf', locator: '57' }]);
+ * ctx.bibliography();                                   // cited entries only
+ */
+export class CitationContext {
+  private readonly clusters: CslCitation[] = [];
+  private readonly cited: BibEntry[] = [];
+  private readonly templateName: string;
+  private readonly locale: string;
+
+  constructor(
+    private readonly bib: Bibliography,
+    private readonly options: CitationContextOptions = {},
+  ) {
+    this.templateName = options.cslStyle ? registerStyle(options.cslStyle) : bib.templateName;
+    this.locale = options.locale ? registerLocale(options.locale) : bib.locale;
+  }
+
+  /** Keys of all cited entries, in order of first citation. */
+  get citedKeys(): string[] {
+    return this.cited.map((e) => e.key);
+  }
+
+  /**
+   * Render a citation cluster at the current position in the document.
+   *
+   * Rendering a cluster can change how earlier clusters should read (e.g.
+   * a second "Doe 2024" turns the first into "Doe 2024a");
+   * {@link CitationContext.citations} returns all clusters in their final
+   * form.
+   */
+  cite(
+    items: string | CitationItem | Array<string | CitationItem>,
+    options: CiteOptions = {},
+  ): string {
+    const cluster = this.buildCluster(items, options);
+    const pre = [...this.clusters];
+    this.clusters.push(cluster);
+    const html = renderCitation(this.templateName, this.locale, this.cited, cluster, pre);
+    return toTarget(html, options.target ?? this.options.target);
+  }
+
+  /** All clusters cited so far, re-rendered with the complete document state. */
+  citations(target?: OutputTarget): string[] {
+    return this.clusters.map((cluster, index) => {
+      const html = renderCitation(
+        this.templateName,
+        this.locale,
+        this.cited,
+        cluster,
+        this.clusters.slice(0, index),
+        this.clusters.slice(index + 1),
+      );
+      return toTarget(html, target ?? this.options.target);
+    });
+  }
+
+  /**
+   * Format the cited entries, in order of first citation, as a
+   * bibliography (HTML by default, see {@link Bibliography.format}).  The
+   * list counts up, unlike the reversed default of `format`.
+   */
+  bibliography(options: TargetFormatOptions = {}): string {
+    return this.bib.format(this.cited, {
+      target: this.options.target,
+      cslStyle: this.templateName,
+      locale: this.locale,
+      listAttributes: {},
+      ...options,
+    });
+  }
+
+  private buildCluster(
+    items: string | CitationItem | Array<string | CitationItem>,
+    options: CiteOptions,
+  ): CslCitation {
+    const list = (Array.isArray(items) ? items : [items]).map((item) =>
+      typeof item === "string" ? { key: item } : item,
+    );
+    if (list.length === 0) throw new BibliographyError("A citation needs at least one item.");
+
+    const resolved = list.map((item) => {
+      const entry = this.bib.getEntry(item.key);
+      if (!entry) throw new BibliographyError(`Unknown citation key "${item.key}".`);
+      return { entry, item };
+    });
+
+    for (const { entry } of resolved) {
+      if (!this.cited.includes(entry)) this.cited.push(entry);
+    }
+    const citationItems = resolved.map(({ entry, item }) => toCslCitationItem(entry, item));
+
+    const noteIndex = options.noteIndex
+      ?? (this.options.notes ? this.clusters.length + 1 : 0);
+    const properties: CslCitation["properties"] = { noteIndex };
+    if (options.inText) properties.mode = "composite";
+    return { citationItems, properties };
+  }
+}
+
+function toCslCitationItem(entry: BibEntry, item: CitationItem): Record<string, unknown> {
+  const out: Record<string, unknown> = { id: String(entry.csl.id ?? entry.key) };
+  if (item.locator) {
+    out.locator = item.locator;
+    out.label = item.label ?? "page";
+  }
+  if (item.prefix) out.prefix = item.prefix;
+  if (item.suffix) out.suffix = item.suffix;
+  if (item.suppressAuthor) out["suppress-author"] = true;
+  if (item.authorOnly) out["author-only"] = true;
+  return out;
+}
+
+function renderCitation(
+  templateName: string,
+  locale: string,
+  entries: BibEntry[],
+  cluster: CslCitation,
+  pre: CslCitation[],
+  post: CslCitation[] = [],
+): string {
+  const template = registerStyle(templateName);
+  useLocale(locale);
+  useStyle(template, locale);
+  const cite = new Cite(entries.map((entry) => entry.csl));
+  return String(
+    cite.format("citation", {
+      format: "html",
+      template,
+      lang: locale,
+      entry: cluster,
+      citationsPre: pre,
+      citationsPost: post,
+    }),
+  );
+}
+
+function toTarget(html: string, target: OutputTarget = "html"): string {
+  return target === "html" ? html : convertHtml(html, target);
+}
@@ -0,0 +1,176 @@
+import { readFile, stat, writeFile } from "node:fs/promises";
+import { parseArgs } from "node:util";
+import { parseFormatOptions, readConfigFile } from "./config.js";
+import { BibliographyError } from "./errors.js";
+import { Bibliography } from "./index.js";
+import { renderProject, renderView } from "./project.js";
+import { isGlob } from "./sources.js";
+import type { DataSource } from "./types.js";
+
+// ---------------------------------------------------------------------------
+// Command-line interface
+// ---------------------------------------------------------------------------
+
+const NAME = "citation-js-extras";
+
+const USAGE = `Usage: ${NAME} [options] <file.bib|glob|->...
+       ${NAME} --project <file>
+
+Render a bibliography from BibTeX, BibLaTeX, CSL-JSON or RIS files.
+"-" reads from standard input.  With --project, render every view of a
+project config file instead.
+
+Options:
+  -s, --style <name|file>     CSL style: apa (default), vancouver, harvard1,
+                              or a .csl file
+  -l, --locale <code|file>    CSL locale, e.g. de-DE (default: en-US)
+      --custom-fields <list>  comma-separated fields to keep, e.g.
+                              publication-status,project
+      --filter <query>        keep matching entries, e.g. "year>=2020"
+      --sort <keys>           sort keys, e.g. "year:desc,author:asc"
+                              (default: year:desc)
+      --group-by <field>      one section per year, type or custom field
+  -c, --config <file>         JSON or YAML file with format options:
+                              badges, titleLink, highlightAuthors, …
+  -p, --project <file>        JSON, YAML or .mjs project config; views with
+                              an output file are written to it, the others
+                              to standard output
+  -f, --format <format>       html (default), text, markdown, latex or json
+  -o, --output <file>         write to a file instead of standard output
+      --lenient               skip entries that don't parse, with a warning
+  -h, --help                  show this help
+  -v, --version               show the version`;
+
+const FORMATS = ["html", "text", "markdown", "latex", "json"] as const;
+
+/** Where the CLI reads and writes; `process` streams by default. */
+export interface CliIo {
+  stdin: AsyncIterable<string | Uint8Array>;
+  stdout: { write(text: string): unknown };
+  stderr: { write(text: string): unknown };
+}
+
+/** A problem with the command line itself (exit code 2). */
+class UsageError extends Error {}
+
+/**
+ * Run the CLI with `args` (without the node and script paths) and return
+ * the exit code: 0 on success, 1 for errors in the input, 2 for invalid
+ * arguments.
+ */
+export async function main(args: string[], io: CliIo = process): Promise<number> {
+  try {
+    await run(args, io);
+    return 0;
+  } catch (error) {
+    if (error instanceof UsageError) {
+      io.stderr.write(`${NAME}: ${error.message}\nRun "${NAME} --help" for usage.\n`);
+      return 2;
+    }
+    io.stderr.write(`${NAME}: ${error instanceof Error ? error.message : String(error)}\n`);
+    return 1;
+  }
+}
+
+async function run(args: string[], io: CliIo): Promise<void> {
+  const { values, positionals } = parseCommandLine(args);
+
+  if (values.help) {
+    io.stdout.write(`${USAGE}\n`);
+    return;
+  }
+  if (values.version) {
+    io.stdout.write(`${await version()}\n`);
+    return;
+  }
+  if (values.project) {
+    if (positionals.length > 0) throw new UsageError("--project takes its input files from the config.");
+    await runProject(values.project, io);
+    return;
+  }
+  if (positionals.length === 0) throw new UsageError("No input files.");
+
+  const format = values.format ?? "html";
+  if (!(FORMATS as readonly string[]).includes(format)) {
+    throw new UsageError(`Unknown format "${format}". Use ${FORMATS.join(", ")}.`);
+  }
+  if (values["group-by"] && format !== "html" && format !== "json") {
+    throw new UsageError("--group-by works with the html and json formats only.");
+  }
+
+  const { cslStyle, locale, ...options } = values.config
+    ? parseFormatOptions(await readConfigFile(values.config), values.config)
+    : {};
+
+  const bib = await Bibliography.load({
+    data: await Promise.all(positionals.map((input) => dataSource(input, io))),
+    cslStyle: values.style ?? cslStyle,
+    locale: values.locale ?? locale,
+    customFields: values["custom-fields"]
+      ?.flatMap((list) => list.split(","))
+      .map((field) => field.trim()),
+    lenient: values.lenient,
+  });
+  for (const error of bib.parseErrors) io.stderr.write(`${NAME}: warning: ${error.message}\n`);
+
+  const { output } = renderView(bib, {
+    ...options,
+    filter: values.filter,
+    sort: values.sort,
+    group: values["group-by"],
+    target: format as (typeof FORMATS)[number],
+  });
+  if (values.output) {
+    await writeFile(values.output, `${output}\n`);
+  } else {
+    io.stdout.write(`${output}\n`);
+  }
+}
+
+async function runProject(file: string, io: CliIo): Promise<void> {
+  const { bibliography, views } = await renderProject(file);
+  for (const error of bibliography.parseErrors) io.stderr.write(`${NAME}: warning: ${error.message}\n`);
+  for (const view of views) {
+    if (!view.file) io.stdout.write(`${view.output}\n`);
+  }
+}
+
+function parseCommandLine(args: string[]) {
+  try {
+    return parseArgs({
+      args,
+      allowPositionals: true,
+      options: {
+        style: { type: "string", short: "s" },
+        locale: { type: "string", short: "l" },
+        "custom-fields": { type: "string", multiple: true },
+        filter: { type: "string" },
+        sort: { type: "string" },
+        "group-by": { type: "string" },
+        config: { type: "string", short: "c" },
+        project: { type: "string", short: "p" },
+        format: { type: "string", short: "f" },
+        output: { type: "string", short: "o" },
+        lenient: { type: "boolean" },
+        help: { type: "boolean", short: "h" },
+        version: { type: "boolean", short: "v" },
+      },
+    });
+  } catch (error) {
+    throw new UsageError((error as Error).message);
+  }
+}
+
+/** A positional argument as data: standard input, a glob, or a file. */
+async function dataSource(input: string, io: CliIo): Promise<DataSource> {
+  if (input === "-") return io.stdin;
+  if (isGlob(input)) return input;
+  const stats = await stat(input).catch(() => null);
+  if (!stats?.isFile()) throw new BibliographyError(`No such file: ${input}`);
+  return input;
+}
+
+async function version(): Promise<string> {
+  const pkg = JSON.parse(await readFile(new URL("../package.json", import.meta.url), "utf-8"));
+  return pkg.version;
+}
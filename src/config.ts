@@ -0,0 +1,573 @@
+import { toRegExp } from "./badges.js";
+import { ConfigError } from "./errors.js";
+import { isTagName } from "./html.js";
+import { path, url } from "./node.js";
+import { badgePreset, listBadgePresets } from "./presets.js";
+import { isQuery, parseQuery } from "./query.js";
+import { parseSortKeys } from "./sort.js";
+import { nodeFileLoader } from "./sources.js";
+import type {
+  AuthorIdentity,
+  BadgeConfig,
+  BadgeContext,
+  EntryDecorator,
+  FieldPredicate,
+  FileLoader,
+  FormatOptions,
+  LocalizedText,
+  ProjectConfig,
+  Query,
+  SortKey,
+  SortOptions,
+  ViewConfig,
+  ViewGroupOptions,
+} from "./types.js";
+
+// ---------------------------------------------------------------------------
+// Config files
+// ---------------------------------------------------------------------------
+
+/**
+ * Read a JSON, YAML or JavaScript module config file.  YAML needs the
+ * optional `yaml` package; modules (`.mjs`, `.js`) are imported with Node,
+ * not through `loader`, and their default export is the config.
+ *
+ * @throws {ConfigError} if the file is missing or doesn't parse
+ */
+export async function readConfigFile(
+  file: string,
+  loader: FileLoader = nodeFileLoader,
+): Promise<unknown> {
+  if (/\.m?js$/i.test(file)) return importConfigModule(file);
+
+  const content = await loader.readFile(file);
+  if (content == null) throw new ConfigError("Cannot read the config file.", file);
+  const text = typeof content === "string" ? content : new TextDecoder().decode(content);
+
+  if (/\.json$/i.test(file)) {
+    try {
+      return JSON.parse(text);
+    } catch (error) {
+      throw new ConfigError(`Invalid JSON: ${(error as Error).message}`, file, null, { cause: error });
+    }
+  }
+  if (/\.ya?ml$/i.test(file)) {
+    const yaml = await import("yaml").catch(() => null);
+    if (!yaml) throw new ConfigError("Reading YAML needs the `yaml` package (npm install yaml).", file);
+    try {
+      return yaml.parse(text);
+    } catch (error) {
+      throw new ConfigError(`Invalid YAML: ${(error as Error).message}`, file, null, { cause: error });
+    }
+  }
+  throw new ConfigError("Unsupported config file type; use .json, .yaml, .yml or .mjs.", file);
+}
+
+async function importConfigModule(file: string): Promise<unknown> {
+  if (!path || !url) throw new ConfigError("Loading config modules needs Node.", file);
+  let module: { default?: unknown };
+  try {
+    const href = url.pathToFileURL(path.resolve(file)).href;
+    module = await import(/* webpackIgnore: true */ /* @vite-ignore */ href);
+  } catch (error) {
+    throw new ConfigError(`Cannot load the module: ${(error as Error).message}`, file, null, { cause: error });
+  }
+  if (module.default === undefined) throw new ConfigError("The module has no default export.", file);
+  return module.default;
+}
+
+const FORMAT_OPTIONS = [
+  "cslStyle",
+  "locale",
+  "titleLink",
+  "badges",
+  "highlightAuthors",
+  "highlightElement",
+  "highlightClass",
+  "badgeWrapper",
+  "badgeWrapperClass",
+  "list",
+  "listAttributes",
+  "linkifyUrls",
+  "decorators",
+] as const;
+
+/**
+ * Check format options read from a config file and convert them: a badge
+ * `match` may be given as a string, either a bare pattern (`'^(\\d+)$'`) or
+ * with flags (`'/^arxiv:(.+)$/i'`).
+ *
+ * @param file - the file the options come from, for error messages
+ * @throws {ConfigError} naming the first invalid value
+ */
+export function parseFormatOptions(value: unknown, file: string | null = null): FormatOptions {
+  return new ConfigReader(file).formatOptions(value, "");
+}
+
+const VIEW_OPTIONS = ["filter", "sort", "group", "target", "output"] as const;
+
+const PROJECT_OPTIONS = [
+  "data",
+  "duplicateKeys",
+  "lenient",
+  "format",
+  "cslStyle",
+  "locale",
+  "customFields",
+  "defaults",
+  "aliases",
+  "views",
+] as const;
+
+const PREDICATE_OPTIONS = ["field", "equals", "in", "contains", "matches", "exists", "gt", "gte", "lt", "lte"] as const;
+
+/**
+ * Check a project config (see {@link ProjectConfig}) and convert it like
+ * {@link parseFormatOptions}; filter and sort strings are parsed here, so
+ * that their errors name the view.
+ *
+ * @param file - the file the config comes from, for error messages
+ * @throws {ConfigError} naming the first invalid value
+ */
+export function parseProjectConfig(value: unknown, file: string | null = null): ProjectConfig {
+  return new ConfigReader(file).project(value);
+}
+
+/** Reads values of one config file, and reports errors with their path. */
+export class ConfigReader {
+  constructor(readonly file: string | null) {}
+
+  fail(at: string, reason: string): never {
+    throw new ConfigError(reason, this.file, at || null);
+  }
+
+  project(value: unknown): ProjectConfig {
+    const input = this.object(value, "", PROJECT_OPTIONS);
+    const data = input.data;
+    const config: ProjectConfig = {
+      data: Array.isArray(data)
+        ? data.map((item, index) => this.string(item, `data[${index}]`))
+        : this.string(data, "data"),
+      views: {},
+    };
+    if (input.duplicateKeys !== undefined) {
+      const policies = ["error", "keep", "first", "last", "merge"] as const;
+      config.duplicateKeys = this.oneOf(input.duplicateKeys, "duplicateKeys", policies);
+    }
+    if (input.lenient !== undefined) config.lenient = this.boolean(input.lenient, "lenient");
+    if (input.format !== undefined) {
+      config.format = this.oneOf(input.format, "format", ["auto", "bibtex", "biblatex", "csl-json", "ris"] as const);
+    }
+    if (input.cslStyle !== undefined) config.cslStyle = this.string(input.cslStyle, "cslStyle");
+    if (input.locale !== undefined) config.locale = this.string(input.locale, "locale");
+    if (input.customFields !== undefined) {
+      config.customFields = this.array(input.customFields, "customFields")
+        .map((item, index) => this.string(item, `customFields[${index}]`));
+    }
+    if (input.defaults !== undefined) config.defaults = this.formatOptions(input.defaults, "defaults");
+    if (input.aliases !== undefined) config.aliases = this.stringRecord(input.aliases, "aliases");
+
+    const views = Object.entries(this.object(input.views, "views"));
+    if (views.length === 0) this.fail("views", "Expected at least one view.");
+    for (const [name, view] of views) config.views[name] = this.view(view, `views.${name}`);
+    return config;
+  }
+
+  view(value: unknown, at: string): ViewConfig {
+    const view: ViewConfig = this.formatOptions(value, at, VIEW_OPTIONS);
+    const input = value as Record<string, unknown>;
+    if (input.filter !== undefined) view.filter = this.filter(input.filter, `${at}.filter`);
+    if (input.sort !== undefined) view.sort = this.sort(input.sort, `${at}.sort`);
+    if (input.group !== undefined) view.group = this.group(input.group, `${at}.group`);
+    if (input.target !== undefined) {
+      view.target = this.oneOf(input.target, `${at}.target`, ["html", "text", "markdown", "latex", "json"] as const);
+    }
+    if (input.output !== undefined) view.output = this.string(input.output, `${at}.output`);
+    if (view.group !== undefined && view.target !== undefined && view.target !== "html" && view.target !== "json") {
+      this.fail(`${at}.group`, `Grouping works with the "html" and "json" targets only, not "${view.target}".`);
+    }
+    return view;
+  }
+
+  /** A query string, a structured query, or a custom field → value record. */
+  filter(value: unknown, at: string): string | Query | Record<string, string> {
+    if (typeof value === "string") {
+      try {
+        parseQuery(value);
+      } catch (error) {
+        this.fail(at, (error as Error).message);
+      }
+      return value;
+    }
+    const input = this.object(value, at);
+    if (["and", "or", "not", "field"].some((key) => key in input)) return this.query(input, at);
+    return this.stringRecord(input, at);
+  }
+
+  query(value: unknown, at: string): Query {
+    const input = this.object(value, at);
+    for (const op of ["and", "or"] as const) {
+      if (!(op in input)) continue;
+      this.object(input, at, [op]);
+      const queries = this.array(input[op], `${at}.${op}`)
+        .map((query, index) => this.query(query, `${at}.${op}[${index}]`));
+      return op === "and" ? { and: queries } : { or: queries };
+    }
+    if ("not" in input) {
+      this.object(input, at, ["not"]);
+      return { not: this.query(input.not, `${at}.not`) };
+    }
+
+    this.object(input, at, PREDICATE_OPTIONS);
+    const predicate: FieldPredicate = { field: this.string(input.field, `${at}.field`) };
+    for (const key of ["equals", "gt", "gte", "lt", "lte"] as const) {
+      if (input[key] !== undefined) predicate[key] = this.scalar(input[key], `${at}.${key}`);
+    }
+    if (input.in !== undefined) {
+      predicate.in = this.array(input.in, `${at}.in`).map((item, index) => this.scalar(item, `${at}.in[${index}]`));
+    }
+    if (input.contains !== undefined) predicate.contains = this.string(input.contains, `${at}.contains`);
+    if (input.matches !== undefined) predicate.matches = this.regex(input.matches, `${at}.matches`);
+    if (input.exists !== undefined) predicate.exists = this.boolean(input.exists, `${at}.exists`);
+    return predicate;
+  }
+
+  /** Sort options, or sort keys as a string (see {@link parseSortKeys}). */
+  sort(value: unknown, at: string): string | SortOptions {
+    if (typeof value === "string") {
+      try {
+        parseSortKeys(value);
+      } catch (error) {
+        this.fail(at, (error as Error).message);
+      }
+      return value;
+    }
+    const input = this.object(value, at, ["by", "order", "missing", "locale"]);
+    const options: SortOptions = {};
+    if (input.by !== undefined) {
+      options.by = Array.isArray(input.by)
+        ? input.by.map((key, index) => this.sortKey(key, `${at}.by[${index}]`))
+        : this.sortKey(input.by, `${at}.by`);
+    }
+    if (input.order !== undefined) options.order = this.oneOf(input.order, `${at}.order`, ["asc", "desc"] as const);
+    if (input.missing !== undefined) {
+      options.missing = this.oneOf(input.missing, `${at}.missing`, ["first", "last"] as const);
+    }
+    if (input.locale !== undefined) {
+      options.locale = Array.isArray(input.locale)
+        ? input.locale.map((item, index) => this.string(item, `${at}.locale[${index}]`))
+        : this.string(input.locale, `${at}.locale`);
+    }
+    return options;
+  }
+
+  sortKey(value: unknown, at: string): string | SortKey {
+    if (typeof value === "string") return value;
+    const input = this.object(value, at, ["by", "order", "missing", "ordering"]);
+    const key: SortKey = { by: this.string(input.by, `${at}.by`) };
+    if (input.order !== undefined) key.order = this.oneOf(input.order, `${at}.order`, ["asc", "desc"] as const);
+    if (input.missing !== undefined) key.missing = this.oneOf(input.missing, `${at}.missing`, ["first", "last"] as const);
+    if (input.ordering !== undefined) {
+      key.ordering = this.array(input.ordering, `${at}.ordering`)
+        .map((item, index) => String(this.scalar(item, `${at}.ordering[${index}]`)));
+    }
+    return key;
+  }
+
+  /** A grouping key, or the {@link GroupOptions} that aren't format options. */
+  group(value: unknown, at: string): ViewGroupOptions {
+    if (typeof value === "string") return value;
+    const input = this.object(value, at, ["by", "order", "labels", "headingLevel", "idPrefix", "continueNumbering"]);
+    const group: Exclude<ViewGroupOptions, string> = { by: this.string(input.by, `${at}.by`) };
+    if (input.order !== undefined) {
+      group.order = Array.isArray(input.order)
+        ? input.order.map((item, index) => String(this.scalar(item, `${at}.order[${index}]`)))
+        : this.oneOf(input.order, `${at}.order`, ["asc", "desc"] as const);
+    }
+    if (input.labels !== undefined) {
+      group.labels = typeof input.labels === "function"
+        ? (input.labels as (key: string) => string)
+        : this.stringRecord(input.labels, `${at}.labels`);
+    }
+    if (input.headingLevel !== undefined) {
+      if (![1, 2, 3, 4, 5, 6].includes(input.headingLevel as number)) {
+        this.fail(`${at}.headingLevel`, `Expected a number from 1 to 6, got ${describe(input.headingLevel)}.`);
+      }
+      group.headingLevel = input.headingLevel as 1 | 2 | 3 | 4 | 5 | 6;
+    }
+    if (input.idPrefix !== undefined) group.idPrefix = this.string(input.idPrefix, `${at}.idPrefix`);
+    if (input.continueNumbering !== undefined) {
+      group.continueNumbering = this.boolean(input.continueNumbering, `${at}.continueNumbering`);
+    }
+    return group;
+  }
+
+  /**
+   * Format options; with `extra`, other keys of the object are allowed too
+   * (and left to the caller).
+   */
+  formatOptions(value: unknown, at: string, extra: readonly string[] = []): FormatOptions {
+    const input = this.object(value, at, [...FORMAT_OPTIONS, ...extra]);
+    const options: FormatOptions = {};
+    const field = (key: string) => (at ? `${at}.${key}` : key);
+
+    if (input.cslStyle !== undefined) options.cslStyle = this.string(input.cslStyle, field("cslStyle"));
+    if (input.locale !== undefined) options.locale = this.string(input.locale, field("locale"));
+    if (input.titleLink !== undefined) {
+      options.titleLink = this.array(input.titleLink, field("titleLink"))
+        .map((item, index) => this.string(item, `${field("titleLink")}[${index}]`));
+    }
+    if (input.badges !== undefined) {
+      options.badges = this.array(input.badges, field("badges"))
+        .map((badge, index) => this.badge(badge, `${field("badges")}[${index}]`));
+    }
+    if (input.badgeWrapper !== undefined) {
+      options.badgeWrapper = input.badgeWrapper === false
+        ? false
+        : this.string(input.badgeWrapper, field("badgeWrapper"));
+      if (options.badgeWrapper && !isTagName(options.badgeWrapper)) {
+        this.fail(field("badgeWrapper"), `Expected an element name, e.g. "span", got ${describe(options.badgeWrapper)}.`);
+      }
+    }
+    if (input.badgeWrapperClass !== undefined) {
+      options.badgeWrapperClass = this.string(input.badgeWrapperClass, field("badgeWrapperClass"));
+    }
+    if (input.highlightAuthors !== undefined) {
+      const authors = input.highlightAuthors;
+      options.highlightAuthors = Array.isArray(authors)
+        ? authors.map((author, index) => this.author(author, `${field("highlightAuthors")}[${index}]`))
+        : this.author(authors, field("highlightAuthors"));
+    }
+    if (input.highlightElement !== undefined) {
+      options.highlightElement = this.string(input.highlightElement, field("highlightElement"));
+      if (!isTagName(options.highlightElement)) {
+        const reason = `Expected an element name, e.g. "strong", got ${describe(options.highlightElement)}.`;
+        this.fail(field("highlightElement"), reason);
+      }
+    }
+    if (input.highlightClass !== undefined) {
+      options.highlightClass = this.string(input.highlightClass, field("highlightClass"));
+    }
+    if (input.list !== undefined) {
+      options.list = this.oneOf(input.list, field("list"), ["ol", "ul", "div"] as const);
+    }
+    if (input.listAttributes !== undefined) {
+      const attributes = this.object(input.listAttributes, field("listAttributes"));
+      options.listAttributes = Object.fromEntries(
+        Object.entries(attributes).map(([name, attribute]) => {
+          if (typeof attribute === "number") return [name, String(attribute)];
+          if (typeof attribute !== "string" && typeof attribute !== "boolean") {
+            const reason = `Expected a string or boolean, got ${describe(attribute)}.`;
+            this.fail(`${field("listAttributes")}.${name}`, reason);
+          }
+          return [name, attribute];
+        }),
+      );
+    }
+    if (input.linkifyUrls !== undefined) {
+      options.linkifyUrls = this.boolean(input.linkifyUrls, field("linkifyUrls"));
+    }
+    if (input.decorators !== undefined) {
+      const names = new Set<string>();
+      options.decorators = this.array(input.decorators, field("decorators")).map((value, index) => {
+        const decorator = this.decorator(value, `${field("decorators")}[${index}]`);
+        if (names.has(decorator.name)) {
+          this.fail(`${field("decorators")}[${index}].name`, `The decorator "${decorator.name}" is given more than once.`);
+        }
+        names.add(decorator.name);
+        return decorator;
+      });
+    }
+    return options;
+  }
+
+  /** An entry decorator, as `.mjs` configs can give them. */
+  decorator(value: unknown, at: string): EntryDecorator {
+    const input = this.object(value, at, ["name", "order", "decorate"]);
+    const decorator = { name: this.string(input.name, `${at}.name`) } as EntryDecorator;
+    if (input.order !== undefined) {
+      if (typeof input.order !== "number" || !Number.isFinite(input.order)) {
+        this.fail(`${at}.order`, `Expected a number, got ${describe(input.order)}.`);
+      }
+      decorator.order = input.order;
+    }
+    if (typeof input.decorate !== "function") {
+      this.fail(`${at}.decorate`, `Expected a function, got ${describe(input.decorate)}.`);
+    }
+    decorator.decorate = input.decorate as EntryDecorator["decorate"];
+    return decorator;
+  }
+
+  /**
+   * A badge: the name of a preset, or an object, optionally with a
+   * `preset` whose options it overrides.
+   */
+  badge(value: unknown, at: string): BadgeConfig {
+    if (typeof value === "string") return this.preset(value, at);
+    const input = this.object(value, at, [
+      "preset",
+      "field",
+      "label",
+      "url",
+      "match",
+      "className",
+      "icon",
+      "title",
+      "ariaLabel",
+      "rel",
+      "target",
+      "when",
+    ]);
+    const preset = input.preset === undefined ? null : this.preset(input.preset, `${at}.preset`);
+    const badge = { ...preset } as BadgeConfig;
+    if (input.field !== undefined || !preset) badge.field = this.string(input.field, `${at}.field`);
+    if (input.label !== undefined || !preset) {
+      badge.label = typeof input.label === "function"
+        ? (input.label as (context: BadgeContext) => string)
+        : this.localizedText(input.label, `${at}.label`);
+    }
+    if (input.url !== undefined || !preset) {
+      badge.url = typeof input.url === "function"
+        ? (input.url as (context: BadgeContext) => string | null)
+        : this.string(input.url, `${at}.url`);
+    }
+    if (input.match !== undefined) badge.match = this.regex(input.match, `${at}.match`);
+    for (const key of ["className", "icon", "rel", "target"] as const) {
+      if (input[key] !== undefined) badge[key] = this.string(input[key], `${at}.${key}`);
+    }
+    if (input.title !== undefined) badge.title = this.localizedText(input.title, `${at}.title`);
+    if (input.ariaLabel !== undefined) badge.ariaLabel = this.localizedText(input.ariaLabel, `${at}.ariaLabel`);
+    if (input.when !== undefined) {
+      const when = this.filter(input.when, `${at}.when`);
+      if (typeof when !== "string" && !isQuery(when)) this.fail(`${at}.when`, "Expected a query.");
+      badge.when = when;
+    }
+    return badge;
+  }
+
+  /** A string, or a locale → string record. */
+  localizedText(value: unknown, at: string): LocalizedText {
+    return typeof value === "object" && value !== null
+      ? this.stringRecord(value, at)
+      : this.string(value, at);
+  }
+
+  preset(value: unknown, at: string): BadgeConfig {
+    const name = this.string(value, at);
+    const names = listBadgePresets().map((preset) => preset.name);
+    if (!names.includes(name)) {
+      const suggestion = names.find((known) => isTypo(name, known));
+      const hint = suggestion ? ` Did you mean "${suggestion}"?` : ` Use one of ${names.join(", ")}.`;
+      this.fail(at, `Unknown badge preset "${name}".${hint}`);
+    }
+    return badgePreset(name);
+  }
+
+  author(value: unknown, at: string): AuthorIdentity {
+    const input = this.object(value, at, ["family", "given", "variants", "orcid", "orcidFields"]);
+    const author: AuthorIdentity = { family: this.string(input.family, `${at}.family`) };
+    if (input.given !== undefined) author.given = this.string(input.given, `${at}.given`);
+    if (input.variants !== undefined) {
+      author.variants = this.array(input.variants, `${at}.variants`).map((variant, index) => {
+        const name = this.object(variant, `${at}.variants[${index}]`, ["family", "given"]);
+        const family = this.string(name.family, `${at}.variants[${index}].family`);
+        if (name.given === undefined) return { family };
+        return { family, given: this.string(name.given, `${at}.variants[${index}].given`) };
+      });
+    }
+    if (input.orcid !== undefined) author.orcid = this.string(input.orcid, `${at}.orcid`);
+    if (input.orcidFields !== undefined) {
+      author.orcidFields = this.array(input.orcidFields, `${at}.orcidFields`)
+        .map((item, index) => this.string(item, `${at}.orcidFields[${index}]`));
+    }
+    return author;
+  }
+
+  /**
+   * An object.  With `known`, other keys are rejected, with a suggestion
+   * for likely typos.
+   */
+  object(value: unknown, at: string, known?: readonly string[]): Record<string, unknown> {
+    if (typeof value !== "object" || value === null || Array.isArray(value)) {
+      this.fail(at, `Expected an object, got ${describe(value)}.`);
+    }
+    for (const key of known ? Object.keys(value) : []) {
+      if (known!.includes(key)) continue;
+      const suggestion = known!.find((name) => isTypo(key, name));
+      const hint = suggestion ? ` Did you mean "${suggestion}"?` : "";
+      this.fail(at ? `${at}.${key}` : key, `Unknown option.${hint}`);
+    }
+    return value as Record<string, unknown>;
+  }
+
+  array(value: unknown, at: string): unknown[] {
+    if (!Array.isArray(value)) this.fail(at, `Expected a list, got ${describe(value)}.`);
+    return value;
+  }
+
+  string(value: unknown, at: string): string {
+    if (typeof value !== "string") this.fail(at, `Expected a string, got ${describe(value)}.`);
+    return value;
+  }
+
+  scalar(value: unknown, at: string): string | number {
+    if (typeof value !== "string" && typeof value !== "number") {
+      this.fail(at, `Expected a string or number, got ${describe(value)}.`);
+    }
+    return value;
+  }
+
+  boolean(value: unknown, at: string): boolean {
+    if (typeof value !== "boolean") this.fail(at, `Expected true or false, got ${describe(value)}.`);
+    return value;
+  }
+
+  oneOf<T extends string>(value: unknown, at: string, choices: readonly T[]): T {
+    if (!choices.includes(value as T)) {
+      this.fail(at, `Expected ${choices.map((choice) => `"${choice}"`).join(", ")}, got ${describe(value)}.`);
+    }
+    return value as T;
+  }
+
+  stringRecord(value: unknown, at: string): Record<string, string> {
+    const input = this.object(value, at);
+    for (const [key, item] of Object.entries(input)) this.string(item, `${at}.${key}`);
+    return input as Record<string, string>;
+  }
+
+  /** A RegExp, or a pattern string, optionally as `/pattern/flags`. */
+  regex(value: unknown, at: string): RegExp {
+    if (value instanceof RegExp) return value;
+    const source = this.string(value, at);
+    try {
+      return toRegExp(source);
+    } catch (error) {
+      return this.fail(at, (error as Error).message);
+    }
+  }
+}
+
+function describe(value: unknown): string {
+  if (value === null) return "null";
+  if (value === undefined) return "nothing";
+  if (Array.isArray(value)) return "a list";
+  if (typeof value === "object") return "an object";
+  if (typeof value === "function") return "a function";
+  return `${typeof value === "string" ? "the string" : `the ${typeof value}`} ${JSON.stringify(value)}`;
+}
+
+/**
+ * Whether `key` is `name` in another case, or one edit (including two
+ * swapped letters) away from it.
+ */
+function isTypo(key: string, name: string): boolean {
+  const a = key.toLowerCase();
+  const b = name.toLowerCase();
+  if (a === b) return true;
+  if (Math.abs(a.length - b.length) > 1) return false;
+  let i = 0;
+  while (i < a.length && a[i] === b[i]) i += 1;
+  const swapped = a[i] === b[i + 1] && a[i + 1] === b[i] && a.slice(i + 2) === b.slice(i + 2);
+  // One substitution, insertion or deletion.
+  return swapped || a.slice(i + 1) === b.slice(i + 1) || a.slice(i) === b.slice(i + 1) || a.slice(i + 1) === b.slice(i);
+}
@@ -0,0 +1,171 @@
+import { highlightAuthors } from "./authors.js";
+import { renderBadges, resolveBadges } from "./badges.js";
+import { BibliographyError } from "./errors.js";
+import { escapeAttr, mapTextTokens, wrapText } from "./html.js";
+import { resolveTitleLink } from "./presets.js";
+import type { BibEntry, DecoratorInfo, EntryDecorator, FormatOptions } from "./types.js";
+
+// ---------------------------------------------------------------------------
+// Entry decorators
+// ---------------------------------------------------------------------------
+
+/** The order of decorators that don't give one: after the built-ins. */
+const DEFAULT_ORDER = 1000;
+
+const BUILT_IN_DECORATORS: EntryDecorator[] = [
+  {
+    name: "highlightAuthors",
+    order: 100,
+    decorate: (html, { entry, options }) =>
+      options.highlightAuthors
+        ? highlightAuthors(html, entry, [options.highlightAuthors].flat(), {
+          tag: options.highlightElement,
+          className: options.highlightClass,
+        })
+        : html,
+  },
+  {
+    name: "titleLink",
+    order: 200,
+    decorate: (html, { entry, options }) => {
+      const url = resolveTitleLink(entry, options.titleLink);
+      const title = entry.csl.title;
+      if (!url || typeof title !== "string" || !title.trim()) return html;
+      return wrapText(html, title, (match) => `<a href="${escapeAttr(url)}">${match}</a>`);
+    },
+  },
+  {
+    name: "badges",
+    order: 300,
+    decorate: (html, { entry, options, locale }) => {
+      const badges = resolveBadges(entry, options.badges ?? [], locale);
+      const badgeHtml = renderBadges(badges, options.badgeWrapper, options.badgeWrapperClass);
+      return badgeHtml ? `${html} ${badgeHtml}` : html;
+    },
+  },
+];
+
+/** The `decorate` functions of the built-ins, which survive copies with other orders. */
+const BUILT_IN_STEPS = new Set(BUILT_IN_DECORATORS.map((decorator) => decorator.decorate));
+
+const decorators = new Map<string, EntryDecorator>(
+  BUILT_IN_DECORATORS.map((decorator) => [decorator.name, decorator]),
+);
+
+/**
+ * A copy of a built-in decorator, e.g. to register it again after
+ * unregistering or replacing it, or to move it in the pipeline.
+ *
+ * @example
+ * // badges before the title link, for a single call
+ * bib.formatHtml(entries, { decorators: [builtInDecorator('badges', { order: 150 })] })
+ *
+ * @throws {BibliographyError} when `name` is not a built-in decorator
+ */
+export function builtInDecorator(
+  name: "highlightAuthors" | "titleLink" | "badges" | (string & {}),
+  overrides: Partial<Omit<EntryDecorator, "name">> = {},
+): EntryDecorator {
+  const decorator = BUILT_IN_DECORATORS.find((builtIn) => builtIn.name === name);
+  if (!decorator) {
+    throw new BibliographyError(
+      `Unknown built-in decorator "${name}". Built-in decorators: ${BUILT_IN_DECORATORS.map((builtIn) => builtIn.name).join(", ")}.`,
+    );
+  }
+  return { ...decorator, ...overrides };
+}
+
+/**
+ * Add a decorator to the pipeline of every format call, or replace the
+ * registered decorator of the same name — built-ins included.
+ *
+ * @example
+ * registerDecorator({
+ *   name: 'award',
+ *   order: 250, // after the title link, before the badges
+ *   decorate: (html, { entry }) =>
+ *     entry.custom.award ? `${html} <em class="award">${escapeHtml(entry.custom.award)}</em>` : html,
+ * })
+ */
+export function registerDecorator(decorator: EntryDecorator): void {
+  decorators.set(decorator.name, { ...decorator });
+}
+
+/**
+ * Remove a registered decorator, built-ins included; register a built-in
+ * again with {@link builtInDecorator}.  Returns whether it was registered.
+ */
+export function unregisterDecorator(name: string): boolean {
+  return decorators.delete(name);
+}
+
+/** All registered decorators, in the order they run. */
+export function listDecorators(): DecoratorInfo[] {
+  return sortDecorators([...decorators.values()]).map((decorator) => ({
+    ...decorator,
+    order: decorator.order ?? DEFAULT_ORDER,
+    builtIn: BUILT_IN_STEPS.has(decorator.decorate),
+  }));
+}
+
+/**
+ * Run the decorator pipeline — the registered decorators and those of
+ * `options.decorators`, which replace registered ones of the same name —
+ * over the citeproc HTML of `entry`.  Without `builtIns`, the built-in
+ * decorators don't run, e.g. for structured output, which carries the
+ * title link and badges as data.
+ *
+ * @throws {BibliographyError} when `options.decorators` repeats a name, or
+ *   when a decorator throws, naming it and the entry
+ */
+export function decorateEntry(
+  entry: BibEntry,
+  html: string,
+  options: FormatOptions,
+  locale: string,
+  { builtIns = true }: { builtIns?: boolean } = {},
+): string {
+  let out = html;
+  for (const decorator of pipeline(options.decorators ?? [])) {
+    if (!builtIns && BUILT_IN_STEPS.has(decorator.decorate)) continue;
+    const current = out;
+    try {
+      out = decorator.decorate(current, {
+        entry,
+        options,
+        locale,
+        mapText: (transform) => mapTextTokens(current, transform),
+      });
+    } catch (error) {
+      throw new BibliographyError(
+        `Decorator "${decorator.name}" failed for entry "${entry.key}": ${(error as Error).message}`,
+        { cause: error },
+      );
+    }
+  }
+  return out;
+}
+
+/** The registered decorators with those of a format call in place of their namesakes, sorted. */
+function pipeline(extra: EntryDecorator[]): EntryDecorator[] {
+  const merged = new Map(decorators);
+  const names = new Set<string>();
+  for (const decorator of extra) {
+    if (names.has(decorator.name)) {
+      throw new BibliographyError(`The decorator "${decorator.name}" is given more than once in options.decorators.`);
+    }
+    names.add(decorator.name);
+    merged.set(decorator.name, decorator);
+  }
+  return sortDecorators([...merged.values()]);
+}
+
+/** Sort by `order`; decorators of equal order keep their given order. */
+function sortDecorators(list: EntryDecorator[]): EntryDecorator[] {
+  return list
+    .map((decorator, index) => ({ decorator, index }))
+    .sort((a, b) =>
+      (a.decorator.order ?? DEFAULT_ORDER) - (b.decorator.order ?? DEFAULT_ORDER) || a.index - b.index,
+    )
+    .map(({ decorator }) => decorator);
+}
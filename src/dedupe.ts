@@ -0,0 +1,159 @@
+import { entryArxivId, entryDoi } from "./identifiers.js";
+import type { BibEntry, DuplicateCluster, DuplicateOptions, DuplicateReason } from "./types.js";
+
+// ---------------------------------------------------------------------------
+// Duplicate detection
+// ---------------------------------------------------------------------------
+
+interface Fingerprint {
+  entry: BibEntry;
+  doi: string | null;
+  arxiv: string | null;
+  title: string;
+  bigrams: Map<string, number>;
+  year: number | null;
+  author: string | null;
+}
+
+interface Match {
+  a: number;
+  b: number;
+  reason: DuplicateReason;
+  confidence: number;
+}
+
+/** Titles less similar than this are never compared further. */
+const MIN_TITLE_SIMILARITY = 0.8;
+
+/**
+ * Cluster entries that likely describe the same work.
+ *
+ * Two entries match when their DOIs or arXiv ids (version stripped) agree
+ * (confidence 1), or when their titles are similar and year and first
+ * author agree (confidence = title similarity, reduced for differing or
+ * missing years and authors).  Entries with different DOIs never match by
+ * title.  Matches are joined transitively; a cluster's confidence is that
+ * of its weakest link.
+ */
+export function findDuplicates(
+  entries: BibEntry[],
+  options: DuplicateOptions = {},
+): DuplicateCluster[] {
+  const threshold = options.threshold ?? 0.85;
+  const by = new Set<DuplicateReason>(options.by ?? ["doi", "arxiv", "title"]);
+  const prints = entries.map(fingerprint);
+
+  const matches: Match[] = [];
+  for (let a = 0; a < prints.length; a += 1) {
+    for (let b = a + 1; b < prints.length; b += 1) {
+      const match = compare(prints[a], prints[b], by);
+      if (match && match.confidence >= threshold) matches.push({ a, b, ...match });
+    }
+  }
+
+  // Join the strongest matches first, so that each cluster's confidence is
+  // the weakest link on its strongest path (a maximum spanning tree).
+  matches.sort((x, y) => y.confidence - x.confidence || x.a - y.a || x.b - y.b);
+  const parent = entries.map((_, index) => index);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+  const joined = new Map<number, { confidence: number; reasons: Set<DuplicateReason> }>();
+
+  for (const { a, b, reason, confidence } of matches) {
+    const ra = find(a);
+    const rb = find(b);
+    if (ra === rb) {
+      joined.get(ra)!.reasons.add(reason);
+      continue;
+    }
+    const root = Math.min(ra, rb);
+    const other = Math.max(ra, rb);
+    parent[other] = root;
+    const left = joined.get(root);
+    const right = joined.get(other);
+    joined.delete(other);
+    joined.set(root, {
+      confidence: Math.min(confidence, left?.confidence ?? 1, right?.confidence ?? 1),
+      reasons: new Set([...(left?.reasons ?? []), ...(right?.reasons ?? []), reason]),
+    });
+  }
+
+  return [...joined.entries()]
+    .sort(([x], [y]) => x - y)
+    .map(([root, { confidence, reasons }]) => ({
+      entries: entries.filter((_, index) => find(index) === root),
+      confidence: Math.round(confidence * 1000) / 1000,
+      reasons: [...reasons],
+    }));
+}
+
+function compare(
+  x: Fingerprint,
+  y: Fingerprint,
+  by: Set<DuplicateReason>,
+): Omit<Match, "a" | "b"> | null {
+  if (by.has("doi") && x.doi && x.doi === y.doi) return { reason: "doi", confidence: 1 };
+  if (by.has("arxiv") && x.arxiv && x.arxiv === y.arxiv) return { reason: "arxiv", confidence: 1 };
+  if (!by.has("title") || !x.title || !y.title) return null;
+  // Different DOIs are different works, however alike their titles.
+  if (x.doi && y.doi && x.doi !== y.doi) return null;
+
+  const similarity = diceCoefficient(x.bigrams, y.bigrams);
+  if (similarity < MIN_TITLE_SIMILARITY) return null;
+
+  let confidence = similarity;
+  if (x.year == null || y.year == null) confidence *= 0.9;
+  else if (Math.abs(x.year - y.year) === 1) confidence *= 0.9;
+  else if (x.year !== y.year) confidence *= 0.5;
+
+  if (x.author == null || y.author == null) confidence *= 0.9;
+  else if (x.author !== y.author) confidence *= 0.6;
+
+  return { reason: "title", confidence };
+}
+
+function fingerprint(entry: BibEntry): Fingerprint {
+  const title = normalizeText(String(entry.csl.title ?? ""));
+  const first = entry.csl.author?.[0] ?? entry.csl.editor?.[0];
+  const author = first ? normalizeText(String(first.family ?? first.literal ?? "")) || null : null;
+  return {
+    entry,
+    doi: entryDoi(entry),
+    arxiv: entryArxivId(entry),
+    title,
+    bigrams: bigrams(title),
+    year: entry.year,
+    author,
+  };
+}
+
+/** Lower-case, strip diacritics and punctuation, collapse whitespace. */
+function normalizeText(text: string): string {
+  return text
+    .normalize("NFKD")
+    .replace(/\p{M}/gu, "")
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim();
+}
+
+function bigrams(text: string): Map<string, number> {
+  const counts = new Map<string, number>();
+  const compact = text.replace(/ /g, "");
+  for (let i = 0; i < compact.length - 1; i += 1) {
+    const gram = compact.slice(i, i + 2);
+    counts.set(gram, (counts.get(gram) ?? 0) + 1);
+  }
+  return counts;
+}
+
+/** Sørensen–Dice similarity of two bigram multisets. */
+function diceCoefficient(x: Map<string, number>, y: Map<string, number>): number {
+  let total = 0;
+  let shared = 0;
+  for (const count of x.values()) total += count;
+  for (const [gram, count] of y) {
+    total += count;
+    shared += Math.min(count, x.get(gram) ?? 0);
+  }
+  return total === 0 ? 0 : (2 * shared) / total;
+}
@@ -0,0 +1,267 @@
+import type { Bibliography } from "./index.js";
+import type {
+  CitationItem,
+  CitationWarning,
+  ProcessCitationsOptions,
+  ProcessedDocument,
+} from "./types.js";
+
+// ---------------------------------------------------------------------------
+// Document processing
+// ---------------------------------------------------------------------------
+
+const KEY = "[\\p{L}\\p{N}_](?:[\\p{L}\\p{N}_:.#$%&+?<>~/-]*[\\p{L}\\p{N}_])?";
+
+/** A bracketed cluster, or a bare key with an optional `[locator]`. */
+const MARKER = new RegExp(
+  `\\[(?<cluster>[^\\[\\]\\n]*?(?<![\\p{L}\\p{N}_\\\\])-?@${KEY}[^\\[\\]\\n]*)\\]`
+    + `|(?<![\\p{L}\\p{N}_\\\\@])@(?<key>${KEY})(?: \\[(?<locator>[^\\[\\]\\n@]+)\\])?`,
+  "gu",
+);
+
+const CLUSTER_ITEM = new RegExp(
+  `^(?<prefix>.*?)(?<![\\p{L}\\p{N}_\\\\])(?<suppress>-?)@(?<key>${KEY})(?<rest>.*)$`,
+  "su",
+);
+
+const LOCATOR_LABELS: Record<string, string> = {
+  p: "page",
+  pp: "page",
+  page: "page",
+  pages: "page",
+  chap: "chapter",
+  chaps: "chapter",
+  chapter: "chapter",
+  chapters: "chapter",
+  ch: "chapter",
+  sec: "section",
+  secs: "section",
+  section: "section",
+  sections: "section",
+  "§": "section",
+  "§§": "section",
+  fig: "figure",
+  figs: "figure",
+  figure: "figure",
+  figures: "figure",
+  vol: "volume",
+  vols: "volume",
+  volume: "volume",
+  para: "paragraph",
+  paras: "paragraph",
+  "¶": "paragraph",
+  n: "note",
+  nn: "note",
+  note: "note",
+  notes: "note",
+  l: "line",
+  ll: "line",
+  line: "line",
+  lines: "line",
+  col: "column",
+  cols: "column",
+  column: "column",
+  bk: "book",
+  book: "book",
+  pt: "part",
+  part: "part",
+  v: "verse",
+  vv: "verse",
+  verse: "verse",
+};
+
+const LOCATOR_VALUE = "[\\p{L}\\p{N}]*\\p{N}[\\p{L}\\p{N}]*";
+
+/** An optional label, one or more values (`33-35`, `4, 7`), and a suffix. */
+const LOCATOR = new RegExp(
+  `^\\s*(?:(?<label>[\\p{L}§¶]+)\\.?\\s*)?`
+    + `(?<value>${LOCATOR_VALUE}(?:\\s*[-–,]\\s*${LOCATOR_VALUE})*)(?<suffix>.*)$`,
+  "su",
+);
+
+interface Marker {
+  start: number;
+  end: number;
+  items: Array<CitationItem & { offset: number }>;
+  inText: boolean;
+}
+
+/**
+ * Replace Pandoc-style citation markers in a Markdown or HTML document with
+ * rendered citations, and add a bibliography of the cited entries.
+ *
+ * Supported markers:
+ *
+ * - `[@key]`, `[@key, p. 4]`, `[see @a, chap. 2; also @b]` — parenthetical
+ *   clusters with prefixes, locators and suffixes
+ * - `[-@key]` — suppress the author
+ * - `@key` and `@key [p. 4]` — in-text citations
+ *
+ * The bibliography replaces a `<div id="refs"></div>` placeholder when
+ * present and is appended to the document otherwise.  Unknown keys are
+ * reported in `warnings`.  Markers with only unknown keys are left in
+ * place; in clusters that also cite known keys, the unknown ones are left
+ * out of the rendered citation.
+ *
+ * @example
+ * const { output, warnings } = processCitations(markdown, bib);
+ */
+export function processCitations(
+  document: string,
+  bib: Bibliography,
+  options: ProcessCitationsOptions = {},
+): ProcessedDocument {
+  const format = options.format ?? "markdown";
+  const target = format === "html" ? "html" : "markdown";
+  const context = bib.createCitationContext({ notes: options.notes, target });
+  const warnings: CitationWarning[] = [];
+
+  // First pass: find markers and cite them in document order.
+  const markers: Marker[] = [];
+  for (const [start, end] of processableRanges(document, format)) {
+    MARKER.lastIndex = start;
+    const segment = document.slice(0, end);
+    let match: RegExpExecArray | null;
+    while ((match = MARKER.exec(segment))) {
+      const marker = parseMarker(match);
+      if (!marker) continue;
+
+      const known = marker.items.filter((item) => {
+        if (bib.getEntry(item.key)) return true;
+        const { line, column } = position(document, item.offset);
+        warnings.push({
+          code: "unknown-key",
+          key: item.key,
+          line,
+          column,
+          message: `Unknown citation key "${item.key}" at line ${line}, column ${column}.`,
+        });
+        return false;
+      });
+      if (known.length === 0) continue;
+
+      context.cite(known.map(({ offset: _offset, ...item }) => item), { inText: marker.inText });
+      markers.push(marker);
+    }
+  }
+
+  // Second pass: substitute the final rendering of every cluster.
+  const rendered = context.citations();
+  let output = "";
+  let last = 0;
+  markers.forEach((marker, index) => {
+    output += document.slice(last, marker.start) + rendered[index];
+    last = marker.end;
+  });
+  output += document.slice(last);
+
+  if (options.bibliography !== false && context.citedKeys.length > 0) {
+    output = insertBibliography(output, context.bibliography(options.bibliography || {}), format);
+  }
+
+  return { output, citedKeys: context.citedKeys, warnings };
+}
+
+function parseMarker(match: RegExpExecArray): Marker | null {
+  const groups = match.groups ?? {};
+  const start = match.index;
+  const end = start + match[0].length;
+
+  if (groups.key) {
+    const item: CitationItem & { offset: number } = { key: groups.key, offset: start };
+    if (groups.locator) Object.assign(item, parseLocator(groups.locator, `, ${groups.locator}`));
+    return { start, end, items: [item], inText: true };
+  }
+
+  const items: Marker["items"] = [];
+  let offset = start + 1;
+  for (const part of groups.cluster.split(";")) {
+    const m = CLUSTER_ITEM.exec(part);
+    // Every item of a cluster needs a key, otherwise it's ordinary text.
+    if (!m?.groups) return null;
+    const { prefix, suppress, key, rest } = m.groups;
+
+    const item: CitationItem & { offset: number } = {
+      key,
+      offset: offset + prefix.length,
+    };
+    if (prefix.trim()) item.prefix = prefix.trimStart();
+    if (suppress) item.suppressAuthor = true;
+    const comma = /^\s*,/.exec(rest);
+    if (comma) Object.assign(item, parseLocator(rest.slice(comma[0].length), rest));
+    else if (rest.trim()) item.suffix = rest;
+
+    items.push(item);
+    offset += part.length + 1;
+  }
+  return { start, end, items, inText: false };
+}
+
+/**
+ * Split `text` into a labelled locator and suffix, e.g. `pp. 33-35 and
+ * passim`.  Text without a recognisable locator becomes `fallbackSuffix`.
+ */
+function parseLocator(
+  text: string,
+  fallbackSuffix: string,
+): Pick<CitationItem, "locator" | "label" | "suffix"> {
+  const groups = LOCATOR.exec(text)?.groups;
+  const label = groups?.label?.toLowerCase();
+  if (!groups || (label != null && LOCATOR_LABELS[label] == null)) {
+    return { suffix: fallbackSuffix };
+  }
+
+  const out: Pick<CitationItem, "locator" | "label" | "suffix"> = {
+    locator: groups.value,
+    label: label ? LOCATOR_LABELS[label] : "page",
+  };
+  if (groups.suffix.trim()) out.suffix = groups.suffix;
+  return out;
+}
+
+/**
+ * Ranges of the document in which citation markers are recognised.
+ */
+function processableRanges(
+  document: string,
+  format: "markdown" | "html",
+): Array<[number, number]> {
+  const skip = format === "html"
+    ? /<(script|style|code|pre)\b[^>]*>[\s\S]*?<\/\1\s*>|<[^>]*>/gi
+    : /^(?:```|~~~)[^\n]*\n[\s\S]*?(?:^(?:```|~~~)[^\n]*$|(?![\s\S]))|(`+)[^`]*?\1|<[^>\n]*>/gm;
+
+  const ranges: Array<[number, number]> = [];
+  let last = 0;
+  for (const match of document.matchAll(skip)) {
+    if (match.index > last) ranges.push([last, match.index]);
+    last = match.index + match[0].length;
+  }
+  if (last < document.length) ranges.push([last, document.length]);
+  return ranges;
+}
+
+function insertBibliography(
+  document: string,
+  bibliography: string,
+  format: "markdown" | "html",
+): string {
+  const placeholder = /<div\s+id=["']refs["']\s*>\s*<\/div>/i;
+  const body = format === "html" ? `\n${bibliography}\n` : `\n\n${bibliography}\n\n`;
+
+  if (placeholder.test(document)) {
+    return document.replace(placeholder, () => `<div id="refs">${body}</div>`);
+  }
+
+  const separator = document.endsWith("\n") ? "\n" : "\n\n";
+  if (format === "html") {
+    return `${document}${separator}<div id="refs">${body}</div>\n`;
+  }
+  return `${document}${separator}${bibliography}\n`;
+}
+
+function position(text: string, offset: number): { line: number; column: number } {
+  const before = text.slice(0, offset);
+  const line = before.split("\n").length;
+  const column = offset - before.lastIndexOf("\n");
+  return { line, column };
+}
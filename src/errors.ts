@@ -0,0 +1,116 @@
+// ---------------------------------------------------------------------------
+// Error classes
+// ---------------------------------------------------------------------------
+
+/** Base class of all errors thrown by this package. */
+export class BibliographyError extends Error {
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, options);
+    this.name = new.target.name;
+  }
+}
+
+/** A CSL style that is neither registered, nor a file, nor CSL XML. */
+export class StyleError extends BibliographyError {
+  constructor(
+    message: string,
+    /** The `cslStyle` value that failed. */
+    readonly style: string,
+    options?: ErrorOptions,
+  ) {
+    super(message, options);
+  }
+}
+
+/** A locale that is neither registered, nor a file, nor CSL locale XML. */
+export class LocaleError extends BibliographyError {
+  constructor(
+    message: string,
+    /** The `locale` value that failed. */
+    readonly locale: string,
+    options?: ErrorOptions,
+  ) {
+    super(message, options);
+  }
+}
+
+/**
+ * An invalid config file or option value.  The message starts with the
+ * file and the path of the value, e.g. `bib.yaml: badges[1].match: …`.
+ */
+export class ConfigError extends BibliographyError {
+  /** The config file, or `null` for options passed in code. */
+  readonly file: string | null;
+  /** Path of the offending value, e.g. `badges[1].match`, or `null`. */
+  readonly at: string | null;
+  /** The message without the location prefix. */
+  readonly reason: string;
+
+  constructor(reason: string, file: string | null = null, at: string | null = null, options?: ErrorOptions) {
+    super([file, at, reason].filter(Boolean).join(": "), options);
+    this.reason = reason;
+    this.file = file;
+    this.at = at;
+  }
+}
+
+/** Where in the input a {@link ParseError} occurred. */
+export interface SourceLocation {
+  /** The file, or `null` for inline data. */
+  source?: string | null;
+  /** For inline data, its 1-based position among the `data` items, when there are several. */
+  item?: number | null;
+  /** 1-based line, when known. */
+  line?: number | null;
+  /** 1-based column, when known. */
+  column?: number | null;
+}
+
+/**
+ * Input that could not be parsed.  The message starts with the location,
+ * e.g. `refs.bib:12:3: …`.
+ */
+export class ParseError extends BibliographyError {
+  readonly source: string | null;
+  readonly line: number | null;
+  readonly column: number | null;
+  /** Citation key of the affected entry, when known. */
+  readonly key: string | null;
+  /** The message without the location prefix. */
+  readonly reason: string;
+
+  constructor(
+    reason: string,
+    location: SourceLocation & { key?: string | null } = {},
+    options?: ErrorOptions,
+  ) {
+    super(`${formatLocation(location)}: ${reason}`, options);
+    this.reason = reason;
+    this.source = location.source ?? null;
+    this.line = location.line ?? null;
+    this.column = location.column ?? null;
+    this.key = location.key ?? null;
+  }
+}
+
+/** Two entries with the same citation key (see `duplicateKeys`). */
+export class DuplicateKeyError extends ParseError {
+  /** Where the key was first defined. */
+  readonly first: SourceLocation;
+
+  constructor(key: string, location: SourceLocation, first: SourceLocation) {
+    super(
+      `Duplicate citation key "${key}" (first defined in ${formatLocation(first)}).`,
+      { ...location, key },
+    );
+    this.first = first;
+  }
+}
+
+/** `refs.bib:12:3`, `refs.bib:12`, `refs.bib`, `inline data:12` or `inline data #2:12`. */
+export function formatLocation({ source, item, line, column }: SourceLocation): string {
+  let out = source ?? (item != null ? `inline data #${item}` : "inline data");
+  if (line != null) out += `:${line}`;
+  if (line != null && column != null) out += `:${column}`;
+  return out;
+}
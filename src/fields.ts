@@ -0,0 +1,65 @@
+import type { BibEntry } from "./types.js";
+
+// ---------------------------------------------------------------------------
+// Field access shared by filtering and sorting
+// ---------------------------------------------------------------------------
+
+/**
+ * Resolve a field name against an entry.
+ *
+ * - `year`, `key` and `type` read `entry.year`, `entry.key` and the CSL
+ *   `type`.
+ * - `author` and `editor` read the CSL name lists.
+ * - `custom.<name>`, `raw.<name>` and `csl.<name>` read one source
+ *   explicitly.
+ * - Any other name is looked up in `custom`, then `raw`, then `csl` (also
+ *   upper-cased, for CSL's `DOI`, `URL`, `ISBN`, …).
+ */
+export function getFieldValue(entry: BibEntry, field: string): unknown {
+  switch (field) {
+    case "year":
+      return entry.year;
+    case "key":
+      return entry.key;
+    case "type":
+      return entry.csl.type;
+    case "author":
+    case "editor":
+      return entry.csl[field];
+  }
+
+  const dot = field.indexOf(".");
+  if (dot > 0) {
+    const source = field.slice(0, dot);
+    const name = field.slice(dot + 1);
+    if (source === "custom") return entry.custom[name];
+    if (source === "raw") return entry.raw[name];
+    if (source === "csl") return entry.csl[name];
+  }
+
+  return entry.custom[field]
+    ?? entry.raw[field]
+    ?? entry.csl[field]
+    ?? entry.csl[field.toUpperCase()];
+}
+
+/**
+ * Resolve a field to a flat list of comparable scalars.  Name lists yield
+ * family names (or literal names), missing values yield an empty list.
+ */
+export function getFieldScalars(entry: BibEntry, field: string): Array<string | number> {
+  return toScalars(getFieldValue(entry, field));
+}
+
+function toScalars(value: unknown): Array<string | number> {
+  if (value == null) return [];
+  if (typeof value === "number" || typeof value === "string") return [value];
+  if (typeof value === "boolean") return [String(value)];
+  if (Array.isArray(value)) return value.flatMap(toScalars);
+  if (typeof value === "object") {
+    const name = value as Record<string, unknown>;
+    if (typeof name.family === "string") return [name.family];
+    if (typeof name.literal === "string") return [name.literal];
+  }
+  return [];
+}
@@ -0,0 +1,173 @@
+// ---------------------------------------------------------------------------
+// Tag-aware text processing
+// ---------------------------------------------------------------------------
+
+/**
+ * Apply `transform` to every text token of an HTML string that isn't inside
+ * an `<a>`, `<script>`, or `<style>` element.  Tags themselves are never
+ * passed to `transform`, so attribute values stay untouched.
+ */
+export function mapTextTokens(html: string, transform: (text: string) => string): string {
+  const tokens = html.split(/(<[^>]*>)/g);
+
+  let insideAnchor = false;
+  let insideScript = false;
+  let insideStyle = false;
+  const output: string[] = [];
+
+  for (const token of tokens) {
+    if (token.startsWith("<")) {
+      const lower = token.toLowerCase();
+      if (/^<a\b/.test(lower)) insideAnchor = true;
+      if (/^<\/a\b/.test(lower)) insideAnchor = false;
+      if (/^<script\b/.test(lower)) insideScript = true;
+      if (/^<\/script\b/.test(lower)) insideScript = false;
+      if (/^<style\b/.test(lower)) insideStyle = true;
+      if (/^<\/style\b/.test(lower)) insideStyle = false;
+      output.push(token);
+      continue;
+    }
+
+    if (insideAnchor || insideScript || insideStyle || !token) {
+      output.push(token);
+      continue;
+    }
+
+    output.push(transform(token));
+  }
+
+  return output.join("");
+}
+
+/**
+ * Wrap the first occurrence of `text` in `html`, e.g. a title in a link.
+ * The text is matched as citeproc escapes it, within a single text token.
+ */
+export function wrapText(html: string, text: string, wrap: (match: string) => string): string {
+  const pattern = buildHtmlTextPattern(text);
+  if (!pattern) return html;
+
+  const regex = new RegExp(pattern);
+  let wrapped = false;
+
+  return mapTextTokens(html, (token) => {
+    if (wrapped) return token;
+    return token.replace(regex, (match) => {
+      wrapped = true;
+      return wrap(match);
+    });
+  });
+}
+
+/**
+ * Auto-linkify bare `http(s)://` URLs in HTML that aren't already inside
+ * an `<a>` tag. Trailing punctuation (`.`, `,`, `;`, etc.) is kept outside
+ * the link.
+ */
+export function linkifyBareUrls(html: string): string {
+  const urlRegex = /(https?:\/\/[^\s<>"',;)]+)/g;
+
+  return mapTextTokens(html, (token) =>
+    token.replace(urlRegex, (match) => {
+      const trimmed = match.replace(/[.,;:!?)]+$/, "");
+      const trailing = match.slice(trimmed.length);
+      return `<a href="${escapeAttr(trimmed)}">${trimmed}</a>${trailing}`;
+    }),
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Escaping & URLs
+// ---------------------------------------------------------------------------
+
+export function sanitizeUrl(url: string): string | null {
+  const trimmed = url.trim();
+  if (!trimmed) return null;
+  if (/^https?:\/\//i.test(trimmed) || /^mailto:/i.test(trimmed)) {
+    return trimmed;
+  }
+  return null;
+}
+
+/**
+ * Build a regex source matching `text` as it may appear in citeproc HTML
+ * output, i.e. with special characters entity-escaped.
+ */
+export function buildHtmlTextPattern(text: string): string {
+  let pattern = "";
+  for (const ch of text) {
+    switch (ch) {
+      case "&":
+        pattern += "(?:&amp;|&#38;)";
+        break;
+      case "<":
+        pattern += "&lt;";
+        break;
+      case ">":
+        pattern += "&gt;";
+        break;
+      case '"':
+        pattern += "(?:&quot;|&#34;)";
+        break;
+      case "'":
+        pattern += "(?:&#39;|&apos;)";
+        break;
+      default:
+        pattern += escapeRegex(ch);
+    }
+  }
+  return pattern;
+}
+
+export function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+export function escapeAttr(s: string): string {
+  return s.replace(/&/g, "&amp;").replace(/"/g, "&quot;").replace(/</g, "&lt;");
+}
+
+export function escapeHtml(s: string): string {
+  return s
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+/** Whether `name` is a plain element name, e.g. `'span'` or `'my-links'`. */
+export function isTagName(name: string): boolean {
+  return /^[a-z][a-z0-9-]*$/i.test(name);
+}
+
+export function renderAttributes(attrs: Record<string, string | boolean>): string {
+  const parts: string[] = [];
+  for (const [k, v] of Object.entries(attrs)) {
+    if (v === true) parts.push(k);
+    else if (v !== false) parts.push(`${k}="${escapeAttr(String(v))}"`);
+  }
+  return parts.length ? " " + parts.join(" ") : "";
+}
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: "\u00a0",
+};
+
+/** Decode the character references citeproc emits in HTML output. */
+export function decodeEntities(s: string): string {
+  return s.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, ref: string) => {
+    if (ref[0] === "#") {
+      const code = ref[1] === "x" || ref[1] === "X"
+        ? Number.parseInt(ref.slice(2), 16)
+        : Number.parseInt(ref.slice(1), 10);
+      return Number.isFinite(code) ? String.fromCodePoint(code) : match;
+    }
+    return NAMED_ENTITIES[ref.toLowerCase()] ?? match;
+  });
+}
@@ -0,0 +1,60 @@
+import { getFieldValue } from "./fields.js";
+import type { BibEntry } from "./types.js";
+
+// ---------------------------------------------------------------------------
+// Identifier normalization
+// ---------------------------------------------------------------------------
+
+/**
+ * Strip `doi:` and `https://doi.org/` prefixes from a DOI.  Case is kept;
+ * compare DOIs case-insensitively.
+ */
+export function normalizeDoi(value: string): string {
+  return value
+    .trim()
+    .replace(/^(?:doi:\s*|https?:\/\/(?:dx\.)?doi\.org\/)/i, "");
+}
+
+/**
+ * Strip `arXiv:` and `https://arxiv.org/abs/` prefixes and the version
+ * suffix from an arXiv identifier, e.g. `arXiv:2301.00001v2` →
+ * `2301.00001`.
+ */
+export function normalizeArxivId(value: string): string {
+  return value
+    .trim()
+    .replace(/^(?:arxiv:\s*|https?:\/\/(?:www\.)?arxiv\.org\/(?:abs|pdf)\/)/i, "")
+    .replace(/\.pdf$/i, "")
+    .replace(/v\d+$/, "");
+}
+
+/** The entry's DOI, lower-cased for comparison, or `null`. */
+export function entryDoi(entry: BibEntry): string | null {
+  const value = getFieldValue(entry, "doi");
+  if (typeof value !== "string" || !value.trim()) return null;
+  return normalizeDoi(value).toLowerCase() || null;
+}
+
+/**
+ * The entry's arXiv id, lower-cased for comparison, or `null`.  Read from
+ * an `arxiv` field, a BibLaTeX `eprint` with `eprinttype`/`archiveprefix`
+ * `arxiv`, or an arxiv.org URL.
+ */
+export function entryArxivId(entry: BibEntry): string | null {
+  const candidates: unknown[] = [getFieldValue(entry, "arxiv")];
+  const eprintType = getFieldValue(entry, "eprinttype") ?? getFieldValue(entry, "archiveprefix");
+  if (typeof eprintType === "string" && eprintType.toLowerCase() === "arxiv") {
+    candidates.push(getFieldValue(entry, "eprint"));
+  }
+  const url = getFieldValue(entry, "url");
+  if (typeof url === "string" && /^https?:\/\/(?:www\.)?arxiv\.org\//i.test(url.trim())) {
+    candidates.push(url);
+  }
+
+  for (const value of candidates) {
+    if (typeof value !== "string" || !value.trim()) continue;
+    const id = normalizeArxivId(value).toLowerCase();
+    if (id) return id;
+  }
+  return null;
+}
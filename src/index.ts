@@ -1,56 +1,265 @@
-import { existsSync, readFileSync, statSync } from "node:fs";
 import Cite from "citation-js";
-import type { BadgeConfig, BibEntry, BibliographyOptions, FormatOptions } from "./types.js";
-
-export type { BadgeConfig, BibEntry, BibliographyOptions, FormatOptions } from "./types.js";
+import { highlightAuthors } from "./authors.js";
+import { resolveBadges } from "./badges.js";
+import { toBibtex } from "./bibtex.js";
+import { defaultRenderCache, renderKey } from "./cache.js";
+import { CitationContext } from "./citations.js";
+import { decorateEntry } from "./decorators.js";
+import { findDuplicates } from "./dedupe.js";
+import type { ParseError } from "./errors.js";
+import { escapeAttr, escapeHtml, linkifyBareUrls, renderAttributes, wrapText } from "./html.js";
+import { IncrementalParser, readCustomField, type ParsedEntry } from "./input.js";
+import { loadLocale, missingGroupLabel, registerLocale, useLocale } from "./locale.js";
+import { resolveTitleLink } from "./presets.js";
+import { compileQuery, isQuery } from "./query.js";
+import { createComparator } from "./sort.js";
+import {
+  loadSources,
+  mergeEntries,
+  nodeFileLoader,
+  parseSources,
+  readSources,
+  type SourceText,
+} from "./sources.js";
+import { loadStyle, registerStyle, useStyle } from "./styles.js";
+import { htmlToNodes } from "./structured.js";
+import { convertHtml, renderTargetList } from "./targets.js";
+import { validateEntries } from "./validate.js";
+import { BibliographyWatcher } from "./watch.js";
+import type {
+  BibEntry,
+  BibliographyOptions,
+  BibtexExportOptions,
+  CitationContextOptions,
+  CitationItem,
+  CiteOptions,
+  DedupeOptions,
+  Diagnostic,
+  DuplicateCluster,
+  DuplicateOptions,
+  EntryGroup,
+  FileLoader,
+  FormatOptions,
+  GroupOptions,
+  LoadOptions,
+  Query,
+  QueryOptions,
+  RenderCache,
+  RenderedEntry,
+  SortOptions,
+  StructuredEntry,
+  TargetFormatOptions,
+  UnmatchedEntry,
+  ValidateOptions,
+  WatchOptions,
+} from "./types.js";
+
+export type {
+  AuthorIdentity,
+  BadgeConfig,
+  BadgePreset,
+  BadgePresetName,
+  BibEntry,
+  BibliographyOptions,
+  BibtexExportOptions,
+  CitationContextOptions,
+  CitationItem,
+  CiteOptions,
+  DataSource,
+  DecoratorContext,
+  DecoratorInfo,
+  DedupeOptions,
+  Diagnostic,
+  DiagnosticSeverity,
+  DuplicateCluster,
+  DuplicateKeyPolicy,
+  DuplicateOptions,
+  DuplicateReason,
+  EntryDecorator,
+  EntryGroup,
+  FieldPredicate,
+  FieldRule,
+  FileLoader,
+  FormatOptions,
+  GroupOptions,
+  InputFormat,
+  LoadOptions,
+  LocalizedText,
+  Query,
+  QueryOptions,
+  OutputTarget,
+  ProjectConfig,
+  RenderCache,
+  RenderedEntry,
+  RenderedView,
+  RenderProjectOptions,
+  RuleFinding,
+  SortKey,
+  SortOptions,
+  StructuredBadge,
+  StructuredElement,
+  StructuredEntry,
+  StructuredNode,
+  StyleInfo,
+  TargetFormatOptions,
+  UnmatchedEntry,
+  ValidateOptions,
+  ValidationContext,
+  ValidationRule,
+  ViewConfig,
+  ViewGroupOptions,
+  WatchOptions,
+} from "./types.js";
+export { toBibtex } from "./bibtex.js";
+export { createFileRenderCache, createMemoryRenderCache } from "./cache.js";
+export { CitationContext } from "./citations.js";
+export { processCitations } from "./document.js";
+export { findDuplicates } from "./dedupe.js";
+export {
+  BibliographyError,
+  ConfigError,
+  DuplicateKeyError,
+  LocaleError,
+  ParseError,
+  StyleError,
+} from "./errors.js";
+export type { SourceLocation } from "./errors.js";
+export { getFieldValue } from "./fields.js";
+export { builtInDecorator, listDecorators, registerDecorator, unregisterDecorator } from "./decorators.js";
+export { escapeHtml, linkifyBareUrls } from "./html.js";
+export { normalizeArxivId, normalizeDoi } from "./identifiers.js";
+export { badgePreset, listBadgePresets, registerBadgePreset } from "./presets.js";
+export { detectFormat } from "./input.js";
+export { parseProjectConfig } from "./config.js";
+export { loadProjectConfig, renderProject, renderView } from "./project.js";
+export type { ProjectOutput } from "./project.js";
+export { compileQuery, parseQuery } from "./query.js";
+export { createComparator, parseSortKeys } from "./sort.js";
+export { nodeFileLoader } from "./sources.js";
+export { inspectStyle, listStyles, unregisterStyle, validateStyle } from "./styles.js";
+export { defaultValidationRules } from "./validate.js";
+export { BibliographyWatcher } from "./watch.js";
+export type { BibliographyChange } from "./watch.js";
 
 // ---------------------------------------------------------------------------
 // Bibliography class
 // ---------------------------------------------------------------------------
 
+/**
+ * What {@link Bibliography.load} and {@link Bibliography.watch} did ahead of
+ * the constructor, keyed by the options they pass on.
+ */
+interface Preloaded {
+  sources: SourceText[];
+  parser?: IncrementalParser;
+}
+
+const preloaded = new WeakMap<BibliographyOptions, Preloaded>();
+
 export class Bibliography {
   /** The CSL template name to use for formatting. */
   readonly templateName: string;
 
+  /**
+   * The code of the CSL locale to format with, e.g. `'en-US'`, or a
+   * private-use code like `'de-DE-x-1a2b3c4d'` for custom locale XML whose
+   * code was already rendered with.
+   */
+  readonly locale: string;
+
   /** All parsed entries. */
   readonly entries: BibEntry[];
 
+  /**
+   * Errors of entries that were skipped in `lenient` mode, in input order.
+   * Always empty otherwise (errors are thrown instead).
+   */
+  readonly parseErrors: ParseError[];
+
+  /**
+   * Records found by only one pass of the two-pass parse, i.e. raw entries
+   * without a CSL item (left out of `entries`) and CSL items without raw
+   * fields (`raw: {}`).
+   */
+  readonly unmatchedEntries: UnmatchedEntry[];
+
   private readonly customFieldNames: string[];
 
+  private readonly renderCache: RenderCache | null;
+
+  private readonly entryMap: Map<string, BibEntry>;
+
   constructor(options: BibliographyOptions) {
-    const bibData = maybeReadFile(options.data);
     this.customFieldNames = options.customFields ?? [];
+    this.renderCache = options.renderCache === false ? null : options.renderCache ?? defaultRenderCache;
 
-    // Register CSL style
-    this.templateName = this.registerStyle(options.cslStyle);
+    // Register CSL style and locale
+    this.templateName = registerStyle(options.cslStyle);
+    this.locale = registerLocale(options.locale);
 
     // Two-pass parse: raw (preserves all fields) + CSL (for formatting)
-    const { plugins } = Cite;
-    const rawEntries: { label: string; properties: Record<string, any> }[] =
-      plugins.input.chainLink(bibData);
-    const rawMap = new Map<string, Record<string, any>>();
-    for (const entry of rawEntries) {
-      rawMap.set(entry.label, entry.properties);
+    const { sources, parser } = preloaded.get(options) ?? { sources: readSources(options.data) };
+    const parsed = parseSources(sources, {
+      format: options.format,
+      duplicateKeys: options.duplicateKeys ?? (sources.length > 1 ? "error" : "keep"),
+      lenient: options.lenient,
+      parser,
+    });
+    this.entries = parsed.entries.map((entry) => this.withCustomFields(entry));
+    this.parseErrors = parsed.errors;
+    this.unmatchedEntries = parsed.unmatched;
+    this.entryMap = new Map();
+    for (const entry of this.entries) {
+      if (!this.entryMap.has(entry.key)) this.entryMap.set(entry.key, entry);
     }
+  }
 
-    const cite = new Cite(bibData);
-    this.entries = (cite.data as Record<string, any>[]).map(
-      (csl): BibEntry => {
-        const key = String(csl["citation-key"] || csl.id);
-        const raw = rawMap.get(key) ?? {};
-        const custom: Record<string, string> = {};
-        for (const f of this.customFieldNames) {
-          if (raw[f] != null) custom[f] = String(raw[f]);
-        }
-        return {
-          csl,
-          key,
-          year: csl.issued?.["date-parts"]?.[0]?.[0] ?? null,
-          custom,
-          raw,
-        };
-      },
-    );
+  /**
+   * Read data and CSL files asynchronously, then construct the bibliography.
+   * Unlike the constructor, this doesn't block the event loop on file I/O,
+   * accepts bytes and streams, and reads files through `options.loader`, so
+   * it also works without `node:fs`.
+   *
+   * @example
+   * const bib = await Bibliography.load({
+   *   data: ['refs/*.bib', await fetch('/extra.json').then((r) => r.body!)],
+   *   cslStyle: 'styles/custom.csl',
+   * })
+   */
+  static async load(options: LoadOptions): Promise<Bibliography> {
+    return loadBibliography(options);
+  }
+
+  /**
+   * Load like {@link Bibliography.load}, then watch the data files (and
+   * directories of glob patterns) and the CSL style and locale files.  On
+   * changes, only the BibTeX entries whose text changed are parsed again,
+   * and the watcher emits a `change` event with the new bibliography.
+   *
+   * @example
+   * const watcher = await Bibliography.watch({ data: 'refs/*.bib' })
+   * watcher.on('change', ({ bibliography, added, removed, modified }) => {
+   *   reloadPublicationsPage(bibliography)
+   * })
+   * watcher.on('error', (error) => console.warn(error.message))
+   */
+  static async watch(options: WatchOptions): Promise<BibliographyWatcher> {
+    const { debounce, ...rest } = options;
+    const parser = new IncrementalParser();
+    const reload = async () => {
+      const bib = await loadBibliography(rest, parser);
+      parser.commit();
+      return bib;
+    };
+    const targets = [...(Array.isArray(rest.data) ? rest.data : [rest.data])];
+    if (rest.cslStyle) targets.push(rest.cslStyle);
+    if (rest.locale) targets.push(rest.locale);
+    return new BibliographyWatcher(await reload(), reload, targets, { debounce });
+  }
+
+  /** Look up an entry by citation key. */
+  getEntry(key: string): BibEntry | undefined {
+    return this.entryMap.get(key);
   }
 
   // -------------------------------------------------------------------------
@@ -58,14 +267,29 @@ export class Bibliography {
   // -------------------------------------------------------------------------
 
   /**
-   * Return entries whose custom fields match **all** given key/value pairs.
+   * Return matching entries.  Accepts
+   *
+   * - a key/value record — custom fields must match **all** pairs exactly,
+   * - a structured {@link Query}, or
+   * - a query string (see {@link parseQuery}).
    *
    * @example
    * bib.filter({ 'publication-status': 'published' })
+   * bib.filter({ or: [{ field: 'year', gte: 2024 }, { field: 'doi', exists: false }] })
+   * bib.filter('year>=2020 AND (type:article-journal OR status:preprint)', {
+   *   aliases: { status: 'publication-status' },
+   * })
    */
-  filter(criteria: Record<string, string>): BibEntry[] {
+  filter(
+    criteria: Record<string, string> | Query | string,
+    options: QueryOptions = {},
+  ): BibEntry[] {
+    if (typeof criteria === "string" || isQuery(criteria)) {
+      return this.entries.filter(compileQuery(criteria, options));
+    }
+    const record = criteria as Record<string, string>;
     return this.entries.filter((e) =>
-      Object.entries(criteria).every(([k, v]) => e.custom[k] === v),
+      Object.entries(record).every(([k, v]) => e.custom[k] === v),
     );
   }
 
@@ -73,31 +297,122 @@ export class Bibliography {
    * Return a sorted **copy** of the given entries.
    *
    * @param entries - entries to sort (not mutated)
-   * @param by - `'year'` (default) or a custom field name
-   * @param order - `'desc'` (default) or `'asc'`
+   * @param options - sort keys, default direction (`'desc'`), placement of
+   *   missing values (`'last'`) and collation locale; see {@link SortOptions}
+   *
+   * @example
+   * bib.sort(entries, {
+   *   by: [
+   *     'year',
+   *     { by: 'publication-status', order: 'asc',
+   *       ordering: ['published', 'accepted', 'submitted', 'preprint'] },
+   *     { by: 'author', order: 'asc' },
+   *   ],
+   * })
    */
-  sort(
+  sort(entries: BibEntry[], options: SortOptions = {}): BibEntry[] {
+    return [...entries].sort(createComparator(options));
+  }
+
+  /**
+   * Split entries into groups sharing the same `year`, CSL `type`, or
+   * custom field value.  Entries keep their input order within a group.
+   *
+   * @example
+   * bib.group(bib.entries, { by: 'publication-status', order: ['published', 'preprint'] })
+   */
+  group(
     entries: BibEntry[],
-    { by = "year", order = "desc" }: { by?: string; order?: "asc" | "desc" } = {},
-  ): BibEntry[] {
-    return [...entries].sort((a, b) => {
-      const va = by === "year" ? (a.year ?? 0) : (a.custom[by] ?? "");
-      const vb = by === "year" ? (b.year ?? 0) : (b.custom[by] ?? "");
-      const cmp = va < vb ? -1 : va > vb ? 1 : 0;
-      return order === "desc" ? -cmp : cmp;
+    { by, order, labels, locale }: Pick<GroupOptions, "by" | "order" | "labels" | "locale">,
+  ): EntryGroup[] {
+    const groups = new Map<string, BibEntry[]>();
+    for (const entry of entries) {
+      const key = groupKey(entry, by);
+      const list = groups.get(key);
+      if (list) list.push(entry);
+      else groups.set(key, [entry]);
+    }
+
+    const keys = orderGroupKeys([...groups.keys()], order ?? (by === "year" ? "desc" : undefined));
+    return keys.map((key) => ({
+      key,
+      label: groupLabel(key, by, labels, this.resolveLocale(locale)),
+      entries: groups.get(key)!,
+    }));
+  }
+
+  // -------------------------------------------------------------------------
+  // Duplicates
+  // -------------------------------------------------------------------------
+
+  /**
+   * Find clusters of entries (under different keys) that likely describe
+   * the same work, by DOI, arXiv id, or title, year and first author.
+   *
+   * @example
+   * for (const { entries, confidence, reasons } of bib.findDuplicates()) {
+   *   console.log(entries.map((e) => e.key), confidence, reasons);
+   * }
+   */
+  findDuplicates(
+    entries: BibEntry[] = this.entries,
+    options: DuplicateOptions = {},
+  ): DuplicateCluster[] {
+    return findDuplicates(entries, options);
+  }
+
+  /**
+   * Return a copy of `entries` with each duplicate cluster collapsed into
+   * one entry, at the position of its first member.  The kept entry (see
+   * {@link DedupeOptions.merge}) gains the fields it lacks from the others.
+   */
+  dedupe(entries: BibEntry[] = this.entries, options: DedupeOptions = {}): BibEntry[] {
+    const merged = new Map<BibEntry, BibEntry | null>();
+    for (const cluster of findDuplicates(entries, options)) {
+      const members = options.merge === "most-complete"
+        ? [...cluster.entries].sort((a, b) => Object.keys(b.raw).length - Object.keys(a.raw).length)
+        : cluster.entries;
+      const result = this.withCustomFields(members.slice(1).reduce<ParsedEntry>(mergeEntries, members[0]));
+      cluster.entries.forEach((entry, index) => merged.set(entry, index === 0 ? result : null));
+    }
+
+    return entries.flatMap((entry) => {
+      const replacement = merged.get(entry);
+      if (replacement === undefined) return [entry];
+      return replacement ? [replacement] : [];
     });
   }
 
+  // -------------------------------------------------------------------------
+  // Validation
+  // -------------------------------------------------------------------------
+
+  /**
+   * Check entries for data problems: malformed DOIs and arXiv ids, missing
+   * years, unsafe URLs, badges that never render, and per-field rules.
+   *
+   * @example
+   * const diagnostics = bib.validate(bib.entries, {
+   *   badges,
+   *   fields: { 'publication-status': { allowed: ['published', 'preprint'] } },
+   * });
+   * const errors = diagnostics.filter((d) => d.severity === 'error');
+   */
+  validate(entries: BibEntry[] = this.entries, options: ValidateOptions = {}): Diagnostic[] {
+    return validateEntries(entries, options);
+  }
+
   // -------------------------------------------------------------------------
   // Formatting
   // -------------------------------------------------------------------------
 
   /**
    * Format a single entry as an HTML string (no wrapper element).
-   * Applies title linking and badge injection.
+   * Runs the decorator pipeline: author highlighting, title linking,
+   * badges and the registered decorators.
    */
   formatEntry(entry: BibEntry, options: FormatOptions = {}): string {
-    const rendered = this.renderCslEntries([entry]);
+    const rendered = this.renderCslEntries([entry], options);
     const raw = rendered[0]?.[1] ?? "";
     const innerHtml = unwrapCslEntry(raw) ?? raw.trim();
     return this.decorateEntryHtml(entry, innerHtml, options);
@@ -111,26 +426,9 @@ export class Bibliography {
 
     const tag = options.list ?? "ol";
     const attrs = options.listAttributes ?? (tag === "ol" ? { reversed: true } : {});
-    const attrStr = renderAttributes(attrs);
+    const items = this.renderListItems(entries, options);
 
-    // Render all entries in one citeproc run so style-dependent numbering/state
-    // (e.g. vancouver left-margin labels) remains correct.
-    const rendered = this.renderCslEntries(entries);
-    const renderedMap = new Map<string, string>(rendered.map(([id, html]) => [id, html]));
-
-    const itemTag = tag === "div" ? "div" : "li";
-    const items = entries.map((entry, index) => {
-      const id = String(entry.csl.id ?? entry.key);
-      const raw = renderedMap.get(id)
-        ?? renderedMap.get(entry.key)
-        ?? rendered[index]?.[1]
-        ?? "";
-      const innerRaw = unwrapCslEntry(raw) ?? raw.trim();
-      const inner = this.decorateEntryHtml(entry, innerRaw, options);
-      return `<${itemTag} data-csl-entry-id="${escapeAttr(entry.key)}" class="csl-entry">${inner}</${itemTag}>`;
-    });
-
-    let html = `<${tag}${attrStr} class="csl-bib-body">\n${items.join("\n")}\n</${tag}>`;
+    let html = wrapList(tag, attrs, items);
 
     if (options.linkifyUrls !== false) {
       html = linkifyBareUrls(html);
@@ -139,246 +437,309 @@ export class Bibliography {
     return html;
   }
 
-  // -------------------------------------------------------------------------
-  // Private helpers
-  // -------------------------------------------------------------------------
-
-  private registerStyle(cslStyle?: string): string {
-    if (!cslStyle) return "apa";
+  /**
+   * Format entries for the given output target.  `'html'` is the same as
+   * {@link Bibliography.formatHtml}; `'text'`, `'markdown'` and `'latex'`
+   * apply the same title linking and badge decoration in target syntax.
+   *
+   * @example
+   * bib.format(entries, { target: 'latex', list: 'ul', badges })
+   */
+  format(entries: BibEntry[], options: TargetFormatOptions = {}): string {
+    const target = options.target ?? "html";
+    if (target === "html") return this.formatHtml(entries, options);
+    if (entries.length === 0) return "";
 
-    const config = Cite.plugins.config.get("@csl");
-    const templates = config.templates;
-    if (templateExists(templates, cslStyle)) {
-      return cslStyle;
-    }
+    const tag = options.list ?? "ol";
+    const attrs = options.listAttributes ?? (tag === "ol" ? { reversed: true } : {});
+    const items = this.renderEntryBodies(entries, options).map((html) =>
+      convertHtml(options.linkifyUrls !== false ? linkifyBareUrls(html) : html, target),
+    );
+    return renderTargetList(items, target, tag, attrs);
+  }
 
-    const xml = readFileIfExists(cslStyle) ?? (looksLikeXml(cslStyle) ? cslStyle : null);
-    if (!xml) {
-      throw new Error(
-        `Unknown CSL style "${cslStyle}". Provide a built-in name, file path, or CSL XML.`,
-      );
-    }
+  /** Format entries as plain text; see {@link Bibliography.format}. */
+  formatText(entries: BibEntry[], options: FormatOptions = {}): string {
+    return this.format(entries, { ...options, target: "text" });
+  }
 
-    const name = `custom-${hashString(xml)}`;
-    if (!templateExists(templates, name)) {
-      templates.add(name, xml);
-    }
-    return name;
+  /** Format entries as Markdown; see {@link Bibliography.format}. */
+  formatMarkdown(entries: BibEntry[], options: FormatOptions = {}): string {
+    return this.format(entries, { ...options, target: "markdown" });
   }
 
-  private renderCslEntries(entries: BibEntry[]): Array<[string, string]> {
-    const cite = new Cite(entries.map((entry) => entry.csl));
-    const out = cite.format("bibliography", {
-      format: "html",
-      template: this.templateName,
-      lang: "en-US",
-      nosort: true,
-      asEntryArray: true,
-    }) as unknown;
+  /** Format entries as LaTeX; see {@link Bibliography.format}. */
+  formatLatex(entries: BibEntry[], options: FormatOptions = {}): string {
+    return this.format(entries, { ...options, target: "latex" });
+  }
 
-    if (!Array.isArray(out)) return [];
+  /**
+   * Format entries as data instead of markup, for components that render
+   * entries themselves (React, Svelte, …).  Each entry carries the citeproc
+   * output as a tree of {@link StructuredNode}s with the title and
+   * highlighted authors marked, the resolved title link and badges, and its
+   * metadata.  List options don't apply; all entries still go through one
+   * citeproc run.
+   *
+   * @example
+   * bib.formatStructured(entries, { badges })[0]
+   * // { key: 'doe:2024:gadgets', label: null,
+   * //   content: ['Doe, J. (2024). ', { type: 'title', url: '…', children: […] }, …],
+   * //   title: { text: 'Gadgets', url: '…' }, badges: [{ label: 'doi', … }], … }
+   */
+  formatStructured(entries: BibEntry[], options: FormatOptions = {}): StructuredEntry[] {
+    const locale = this.resolveLocale(options.locale);
+    return this.renderCitationBodies(entries, options).map((html, index) => {
+      const entry = entries[index];
+      let out = html;
+      if (options.highlightAuthors) {
+        out = highlightAuthors(out, entry, [options.highlightAuthors].flat(), { tag: "mark" });
+      }
 
-    return out
-      .filter((item): item is [unknown, unknown] => Array.isArray(item) && item.length >= 2)
-      .map(([id, html]) => [String(id), String(html)]);
+      const title = entry.csl.title;
+      const titleUrl = resolveTitleLink(entry, options.titleLink);
+      let hasTitle = false;
+      if (typeof title === "string" && title.trim()) {
+        out = wrapText(out, title, (match) => {
+          hasTitle = true;
+          return `<cite>${match}</cite>`;
+        });
+      }
+      out = decorateEntry(entry, out, options, locale, { builtIns: false });
+      if (options.linkifyUrls !== false) out = linkifyBareUrls(out);
+
+      const { label, content } = htmlToNodes(out, titleUrl);
+      return {
+        key: entry.key,
+        entryType: entry.entryType,
+        year: entry.year,
+        custom: { ...entry.custom },
+        label,
+        content,
+        title: hasTitle ? { text: title as string, url: titleUrl } : null,
+        badges: resolveBadges(entry, options.badges ?? [], locale),
+      };
+    });
   }
 
-  private decorateEntryHtml(entry: BibEntry, html: string, options: FormatOptions): string {
-    let out = html;
+  // -------------------------------------------------------------------------
+  // Export
+  // -------------------------------------------------------------------------
 
-    // Link the title text
-    const titleUrl = this.resolveTitleLink(entry, options.titleLink);
-    const title = entry.csl.title;
-    if (titleUrl && typeof title === "string" && title.trim()) {
-      out = this.linkTitle(out, title, titleUrl);
-    }
+  /**
+   * Serialize entries back to BibTeX/BibLaTeX from their raw fields,
+   * including all custom fields.  Parsing the output yields the same raw
+   * fields again.
+   *
+   * @example
+   * writeFileSync('shared.bib', bib.toBibtex(bib.filter('year>=2023'), {
+   *   fieldOrder: ['author', 'title', 'year'],
+   *   omitFields: ['note'],
+   * }));
+   */
+  toBibtex(entries: BibEntry[] = this.entries, options: BibtexExportOptions = {}): string {
+    return toBibtex(entries, options);
+  }
 
-    // Append badges
-    const badges = options.badges ?? [];
-    const badgeHtml = this.renderBadges(entry, badges);
-    if (badgeHtml) {
-      out += ` ${badgeHtml}`;
-    }
+  // -------------------------------------------------------------------------
+  // Citations
+  // -------------------------------------------------------------------------
 
-    return out;
+  /**
+   * Render a single in-text citation cluster in the bibliography's style,
+   * without document state.  Use {@link Bibliography.createCitationContext}
+   * when citing throughout a document.
+   *
+   * @example
+   * bib.cite([{ key: 'doe:2024:gadgets', locator: '4' }, 'smith-doe:2021:conf'])
+   * // → "(Doe, 2024, p. 4; Smith &#38; Doe, 2021)"
+   */
+  cite(
+    items: string | CitationItem | Array<string | CitationItem>,
+    options: CiteOptions = {},
+  ): string {
+    return this.createCitationContext().cite(items, options);
   }
 
-  private resolveTitleLink(
-    entry: BibEntry,
-    fields?: string[],
-  ): string | null {
-    const order = fields ?? ["url", "doi", "arxiv"];
-    for (const field of order) {
-      const value = entry.raw[field] ?? entry.csl[field.toUpperCase()] ?? entry.csl[field];
-      if (!value) continue;
-      const raw = String(value).trim();
-      if (!raw) continue;
-
-      if (/^https?:\/\//i.test(raw) || /^mailto:/i.test(raw)) {
-        return sanitizeUrl(raw);
-      }
+  /**
+   * Start citing within one document.  The returned context keeps track of
+   * earlier citations (numbering, "ibid.", disambiguation) and can emit a
+   * bibliography of only the cited entries, in cited order.
+   */
+  createCitationContext(options: CitationContextOptions = {}): CitationContext {
+    return new CitationContext(this, options);
+  }
 
-      if (field === "doi") {
-        const doi = raw.replace(/^doi:\s*/i, "");
-        return sanitizeUrl(`https://doi.org/${doi}`);
-      }
+  /**
+   * Format entries as a sequence of headed `<section>` elements, one per
+   * group (see {@link Bibliography.group}).  Each section carries an `id`
+   * anchor and wraps its entries in the configured list element.
+   *
+   * @example
+   * bib.formatGroupedHtml(bib.sort(bib.entries), { by: 'year', continueNumbering: true })
+   */
+  formatGroupedHtml(entries: BibEntry[], options: GroupOptions): string {
+    if (entries.length === 0) return "";
 
-      if (field === "arxiv") {
-        return sanitizeUrl(`https://arxiv.org/abs/${raw.replace(/v\d+$/, "")}`);
-      }
-    }
-    return null;
-  }
-
-  private linkTitle(html: string, title: string, url: string): string {
-    const pattern = buildHtmlTextPattern(title);
-    if (!pattern) return html;
-
-    const regex = new RegExp(pattern);
-    const tokens = html.split(/(<[^>]*>)/g);
-
-    let insideAnchor = false;
-    let insideScript = false;
-    let insideStyle = false;
-    let linked = false;
-
-    const output: string[] = [];
-
-    for (const token of tokens) {
-      if (token.startsWith("<")) {
-        const lower = token.toLowerCase();
-        if (/^<a\b/.test(lower)) insideAnchor = true;
-        if (/^<\/a\b/.test(lower)) insideAnchor = false;
-        if (/^<script\b/.test(lower)) insideScript = true;
-        if (/^<\/script\b/.test(lower)) insideScript = false;
-        if (/^<style\b/.test(lower)) insideStyle = true;
-        if (/^<\/style\b/.test(lower)) insideStyle = false;
-        output.push(token);
-        continue;
-      }
+    const groups = this.group(entries, options);
+    const tag = options.list ?? "ol";
+    const attrs = options.listAttributes ?? (tag === "ol" ? { reversed: true } : {});
+    const level = options.headingLevel ?? 2;
+    const idPrefix = options.idPrefix ?? "bib-";
+    const continued = options.continueNumbering === true;
+
+    // When numbering continues, render everything in one citeproc run so
+    // numeric style labels continue across sections too.
+    const allItems = continued
+      ? this.renderListItems(groups.flatMap((g) => g.entries), options)
+      : null;
+    const total = entries.length;
+
+    let offset = 0;
+    const ids = new Set<string>();
+    const sections = groups.map((group, index) => {
+      const items = allItems
+        ? allItems.slice(offset, offset + group.entries.length)
+        : this.renderListItems(group.entries, options);
+      const listAttrs = continued && tag === "ol"
+        ? { ...attrs, start: String(continuedStart(attrs, offset, total)) }
+        : attrs;
+      offset += group.entries.length;
+
+      // Keys without ASCII letters or digits get their position; repeats a suffix.
+      const slug = slugify(group.key || "other") || `group-${index + 1}`;
+      let id = `${idPrefix}${slug}`;
+      for (let n = 2; ids.has(id); n += 1) id = `${idPrefix}${slug}-${n}`;
+      ids.add(id);
+      const heading = `<h${level} class="bib-group-heading">${escapeHtml(group.label)}</h${level}>`;
+      return `<section id="${escapeAttr(id)}" class="bib-group">\n${heading}\n${wrapList(tag, listAttrs, items)}\n</section>`;
+    });
 
-      if (linked || insideAnchor || insideScript || insideStyle) {
-        output.push(token);
-        continue;
-      }
+    let html = sections.join("\n");
 
-      const replaced = token.replace(regex, (match) => {
-        linked = true;
-        return `<a href="${escapeAttr(url)}">${match}</a>`;
-      });
-      output.push(replaced);
+    if (options.linkifyUrls !== false) {
+      html = linkifyBareUrls(html);
     }
 
-    return output.join("");
+    return html;
   }
 
-  private renderBadges(entry: BibEntry, badges: BadgeConfig[]): string {
-    const parts: string[] = [];
+  // -------------------------------------------------------------------------
+  // Private helpers
+  // -------------------------------------------------------------------------
 
-    for (const badge of badges) {
-      const rawValue = entry.raw[badge.field] ?? entry.custom[badge.field];
-      if (rawValue == null) continue;
+  /** The template name for a per-call `cslStyle` option. */
+  private resolveStyle(cslStyle?: string): string {
+    // The default style may have been unregistered since.
+    return registerStyle(cslStyle || this.templateName);
+  }
 
-      const strValue = String(rawValue);
-      let insertValue: string;
+  /** The locale code for a per-call `locale` option. */
+  private resolveLocale(locale?: string): string {
+    return locale ? registerLocale(locale) : this.locale;
+  }
 
-      if (badge.match) {
-        const m = strValue.match(badge.match);
-        if (!m) continue;
-        insertValue = m[1] ?? m[0];
-      } else {
-        insertValue = strValue;
-      }
+  private withCustomFields(parsed: ParsedEntry): BibEntry {
+    const custom: Record<string, string> = {};
+    for (const f of this.customFieldNames) {
+      const value = readCustomField(parsed.raw, f);
+      if (value != null) custom[f] = value;
+    }
+    return { ...parsed, custom };
+  }
 
-      const unsafeUrl = badge.url.replace(/\$1/g, insertValue);
-      const safeUrl = sanitizeUrl(unsafeUrl);
-      if (!safeUrl) continue;
+  /**
+   * Render entries as decorated list items.
+   */
+  private renderListItems(entries: BibEntry[], options: FormatOptions): string[] {
+    const itemTag = (options.list ?? "ol") === "div" ? "div" : "li";
+    return this.renderEntryBodies(entries, options).map((inner, index) =>
+      `<${itemTag} data-csl-entry-id="${escapeAttr(entries[index].key)}" class="csl-entry">${inner}</${itemTag}>`,
+    );
+  }
 
-      const cls = badge.className ? ` class="${escapeAttr(badge.className)}"` : "";
-      parts.push(
-        `<a${cls} href="${escapeAttr(safeUrl)}">${escapeHtml(String(badge.label))}</a>`,
-      );
-    }
+  /**
+   * Render the decorated inner HTML of each entry.  All entries go through
+   * one citeproc run so style-dependent numbering/state (e.g. vancouver
+   * left-margin labels) remains correct.
+   */
+  private renderEntryBodies(entries: BibEntry[], options: FormatOptions): string[] {
+    return this.renderCitationBodies(entries, options).map((html, index) =>
+      this.decorateEntryHtml(entries[index], html, options),
+    );
+  }
+
+  /** The undecorated citeproc HTML of each entry, without the entry `<div>`. */
+  private renderCitationBodies(entries: BibEntry[], options: FormatOptions): string[] {
+    const rendered = this.renderCslEntries(entries, options);
+    const renderedMap = new Map<string, string>(rendered.map(([id, html]) => [id, html]));
 
-    if (parts.length === 0) return "";
-    return `<span class="bib-links">${parts.join(" ")}</span>`;
+    return entries.map((entry, index) => {
+      const id = String(entry.csl.id ?? entry.key);
+      const raw = renderedMap.get(id)
+        ?? renderedMap.get(entry.key)
+        ?? rendered[index]?.[1]
+        ?? "";
+      return unwrapCslEntry(raw) ?? raw.trim();
+    });
   }
-}
 
-// ---------------------------------------------------------------------------
-// Standalone utilities (exported for reuse)
-// ---------------------------------------------------------------------------
+  /**
+   * Run citeproc over entries, or take the output of an earlier run over
+   * the same entries from the render cache.
+   */
+  private renderCslEntries(entries: BibEntry[], options: FormatOptions): RenderedEntry[] {
+    const template = this.resolveStyle(options.cslStyle);
+    const lang = this.resolveLocale(options.locale);
+    useLocale(lang);
+    useStyle(template, lang);
+    const config = Cite.plugins.config.get("@csl");
+    const key = this.renderCache
+      ? renderKey(entries, config.templates.get(template), config.locales.get(lang))
+      : null;
+    const cached = key ? this.renderCache!.get(key) : undefined;
+    if (cached) return cached;
 
-/**
- * Auto-linkify bare `http(s)://` URLs in HTML that aren't already inside
- * an `<a>` tag. Trailing punctuation (`.`, `,`, `;`, etc.) is kept outside
- * the link.
- */
-export function linkifyBareUrls(html: string): string {
-  const tokens = html.split(/(<[^>]*>)/g);
-  const urlRegex = /(https?:\/\/[^\s<>"',;)]+)/g;
-
-  let insideAnchor = false;
-  let insideScript = false;
-  let insideStyle = false;
-  const output: string[] = [];
-
-  for (const token of tokens) {
-    if (token.startsWith("<")) {
-      const lower = token.toLowerCase();
-      if (/^<a\b/.test(lower)) insideAnchor = true;
-      if (/^<\/a\b/.test(lower)) insideAnchor = false;
-      if (/^<script\b/.test(lower)) insideScript = true;
-      if (/^<\/script\b/.test(lower)) insideScript = false;
-      if (/^<style\b/.test(lower)) insideStyle = true;
-      if (/^<\/style\b/.test(lower)) insideStyle = false;
-      output.push(token);
-      continue;
-    }
+    const cite = new Cite(entries.map((entry) => entry.csl));
+    const out = cite.format("bibliography", {
+      format: "html",
+      template,
+      lang,
+      nosort: true,
+      asEntryArray: true,
+    }) as unknown;
 
-    if (insideAnchor || insideScript || insideStyle) {
-      output.push(token);
-      continue;
-    }
+    if (!Array.isArray(out)) return [];
 
-    output.push(
-      token.replace(urlRegex, (match) => {
-        const trimmed = match.replace(/[.,;:!?)]+$/, "");
-        const trailing = match.slice(trimmed.length);
-        return `<a href="${escapeAttr(trimmed)}">${trimmed}</a>${trailing}`;
-      }),
-    );
+    const rendered = out
+      .filter((item): item is [unknown, unknown] => Array.isArray(item) && item.length >= 2)
+      .map(([id, html]): RenderedEntry => [String(id), String(html)]);
+    if (key) this.renderCache!.set(key, rendered);
+    return rendered;
   }
 
-  return output.join("");
+  private decorateEntryHtml(entry: BibEntry, html: string, options: FormatOptions): string {
+    return decorateEntry(entry, html, options, this.resolveLocale(options.locale));
+  }
 }
 
 // ---------------------------------------------------------------------------
 // Internal helpers
 // ---------------------------------------------------------------------------
 
-function readFileIfExists(input: string): string | null {
-  if (!existsSync(input)) return null;
-  try {
-    if (!statSync(input).isFile()) return null;
-  } catch {
-    return null;
-  }
-  return readFileSync(input, "utf-8");
-}
-
-function maybeReadFile(input: string): string {
-  return readFileIfExists(input) ?? input;
-}
-
-function looksLikeXml(input: string): boolean {
-  return /^\s*</.test(input);
-}
-
-function templateExists(templates: any, name: string): boolean {
-  if (typeof templates.has === "function" && templates.has(name)) return true;
-  if (Array.isArray(templates.list?.()) && templates.list().includes(name)) return true;
-  return false;
+async function loadBibliography(
+  options: LoadOptions,
+  parser?: IncrementalParser,
+): Promise<Bibliography> {
+  const { data, loader = nodeFileLoader, ...rest } = options;
+  const [sources, cslStyle, locale] = await Promise.all([
+    loadSources(data, loader),
+    loadStyle(rest.cslStyle, loader),
+    loadLocale(rest.locale, loader),
+  ]);
+  const init: BibliographyOptions = { ...rest, data: [], cslStyle, locale };
+  preloaded.set(init, { sources, parser });
+  return new Bibliography(init);
 }
 
 function unwrapCslEntry(entryHtml: string): string | null {
@@ -392,72 +753,73 @@ function unwrapCslEntry(entryHtml: string): string | null {
   return (match[2] ?? "").trim();
 }
 
-function sanitizeUrl(url: string): string | null {
-  const trimmed = url.trim();
-  if (!trimmed) return null;
-  if (/^https?:\/\//i.test(trimmed) || /^mailto:/i.test(trimmed)) {
-    return trimmed;
-  }
-  return null;
+function wrapList(
+  tag: string,
+  attrs: Record<string, string | boolean>,
+  items: string[],
+): string {
+  return `<${tag}${renderAttributes(attrs)} class="csl-bib-body">\n${items.join("\n")}\n</${tag}>`;
 }
 
-function buildHtmlTextPattern(text: string): string {
-  let pattern = "";
-  for (const ch of text) {
-    switch (ch) {
-      case "&":
-        pattern += "(?:&amp;|&#38;)";
-        break;
-      case "<":
-        pattern += "&lt;";
-        break;
-      case ">":
-        pattern += "&gt;";
-        break;
-      case '"':
-        pattern += "(?:&quot;|&#34;)";
-        break;
-      case "'":
-        pattern += "(?:&#39;|&apos;)";
-        break;
-      default:
-        pattern += escapeRegex(ch);
-    }
-  }
-  return pattern;
+function groupKey(entry: BibEntry, by: string): string {
+  if (by === "year") return entry.year != null ? String(entry.year) : "";
+  if (by === "type") return entry.csl.type != null ? String(entry.csl.type) : "";
+  return entry.custom[by] ?? "";
 }
 
-function escapeRegex(text: string): string {
-  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
-}
+function orderGroupKeys(keys: string[], order?: string[] | "asc" | "desc"): string[] {
+  // Entries without a value always go last.
+  const present = keys.filter((k) => k !== "");
+  const tail = keys.includes("") ? [""] : [];
 
-function escapeAttr(s: string): string {
-  return s.replace(/&/g, "&amp;").replace(/"/g, "&quot;").replace(/</g, "&lt;");
+  if (Array.isArray(order)) {
+    const listed = order.filter((k) => present.includes(k));
+    const rest = present.filter((k) => !order.includes(k));
+    return [...listed, ...rest, ...tail];
+  }
+
+  if (order === "asc" || order === "desc") {
+    const sorted = [...present].sort((a, b) => {
+      const na = Number(a);
+      const nb = Number(b);
+      const cmp = Number.isNaN(na) || Number.isNaN(nb) ? a.localeCompare(b) : na - nb;
+      return order === "desc" ? -cmp : cmp;
+    });
+    return [...sorted, ...tail];
+  }
+
+  return [...present, ...tail];
 }
 
-function escapeHtml(s: string): string {
-  return s
-    .replace(/&/g, "&amp;")
-    .replace(/</g, "&lt;")
-    .replace(/>/g, "&gt;")
-    .replace(/"/g, "&quot;")
-    .replace(/'/g, "&#39;");
+function groupLabel(
+  key: string,
+  by: string,
+  labels: Record<string, string> | ((key: string) => string) | undefined,
+  locale: string,
+): string {
+  if (typeof labels === "function") return labels(key);
+  if (labels && labels[key] != null) return labels[key];
+  if (key === "") return missingGroupLabel(by, locale);
+  return key;
 }
 
-function renderAttributes(attrs: Record<string, string | boolean>): string {
-  const parts: string[] = [];
-  for (const [k, v] of Object.entries(attrs)) {
-    if (v === true) parts.push(k);
-    else if (v !== false) parts.push(`${k}="${escapeAttr(String(v))}"`);
+function continuedStart(
+  attrs: Record<string, string | boolean>,
+  offset: number,
+  total: number,
+): number {
+  const base = typeof attrs.start === "string" ? Number.parseInt(attrs.start, 10) : NaN;
+  if (attrs.reversed === true) {
+    return (Number.isNaN(base) ? total : base) - offset;
   }
-  return parts.length ? " " + parts.join(" ") : "";
+  return (Number.isNaN(base) ? 1 : base) + offset;
 }
 
-function hashString(input: string): string {
-  let h = 0x811c9dc5;
-  for (let i = 0; i < input.length; i += 1) {
-    h ^= input.charCodeAt(i);
-    h = Math.imul(h, 0x01000193);
-  }
-  return (h >>> 0).toString(16);
+function slugify(text: string): string {
+  return text
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
 }
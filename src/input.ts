@@ -0,0 +1,473 @@
+import Cite from "citation-js";
+import { ParseError } from "./errors.js";
+import type { BibEntry, InputFormat, UnmatchedEntry } from "./types.js";
+
+// ---------------------------------------------------------------------------
+// Input formats
+// ---------------------------------------------------------------------------
+
+/** A parsed entry before custom fields are extracted. */
+export type ParsedEntry = Omit<BibEntry, "custom">;
+
+/** citation-js input types for each format (BibTeX and BibLaTeX share one). */
+const CITE_TYPES: Record<string, InputFormat> = {
+  "@biblatex/text": "bibtex",
+  "@bibtex/text": "bibtex",
+  "@else/json": "csl-json",
+  "@csl/object": "csl-json",
+  "@csl/list+object": "csl-json",
+  "@ris/file": "ris",
+};
+
+const FORMAT_NAMES: Record<InputFormat, string> = {
+  bibtex: "BibTeX",
+  biblatex: "BibLaTeX",
+  "csl-json": "CSL-JSON",
+  ris: "RIS",
+};
+
+/**
+ * Detect the format of `data` from its content.  BibLaTeX is reported as
+ * `'bibtex'`: both are parsed the same way.
+ */
+export function detectFormat(data: string): InputFormat {
+  const type: string = Cite.plugins.input.type(data);
+  const format = CITE_TYPES[type];
+  if (!format) {
+    throw new ParseError(
+      "Unrecognized input format; expected BibTeX, BibLaTeX, CSL-JSON or RIS.",
+    );
+  }
+  return format;
+}
+
+/** Entries parsed from one source, and records that couldn't be paired. */
+export interface ParseResult {
+  entries: ParsedEntry[];
+  unmatched: UnmatchedEntry[];
+}
+
+/**
+ * Parse `data` into entries, pairing each CSL-JSON record (used for
+ * formatting) with the raw fields of the source format.
+ *
+ * - BibTeX/BibLaTeX: `raw` holds the field values as written (LaTeX
+ *   markup included); `entryType` is the entry type, e.g. `'article'`.
+ * - CSL-JSON: `raw` is the input object, non-standard properties included;
+ *   `entryType` is the CSL type.  Keys come from `citation-key` or `id`.
+ * - RIS: `raw` maps tags to values (arrays for repeated tags); `entryType`
+ *   is the `TY` value.  Keys come from the `ID` tag, or default to
+ *   `ris-1`, `ris-2`, … in input order.
+ *
+ * @throws {ParseError} with the location of the first syntax error
+ */
+export function parseInput(
+  data: string,
+  format: InputFormat | "auto" = "auto",
+  source: string | null = null,
+): ParseResult {
+  if (!data.trim()) return { entries: [], unmatched: [] };
+  const resolved = resolveFormat(data, format, source);
+
+  let records: Array<Record<string, unknown>>;
+  let cslData: Record<string, any>[];
+  try {
+    const parsed = Cite.plugins.input.chainLink(data);
+    records = Array.isArray(parsed) ? parsed : [parsed];
+    cslData = new Cite(data).data as Record<string, any>[];
+  } catch (error) {
+    throw toParseError(error, data, resolved, source);
+  }
+
+  switch (resolved) {
+    case "bibtex":
+    case "biblatex": {
+      // Records by key, in order, so that repeated keys pair up one by one.
+      const rawMap = new Map<string, BibtexRecord[]>();
+      for (const record of records) {
+        if (!isBibtexRecord(record)) continue;
+        const list = rawMap.get(record.label);
+        if (list) list.push(record);
+        else rawMap.set(record.label, [record]);
+      }
+
+      const lines = new LineFinder(data, resolved);
+      const unmatched: UnmatchedEntry[] = [];
+      const entries = cslData.map((csl) => {
+        const key = String(csl["citation-key"] || csl.id);
+        const record = rawMap.get(key)?.shift();
+        const line = lines.next(key);
+        if (!record) unmatched.push({ key, source, line, missing: "raw" });
+        return entry(csl, key, record?.type ?? "misc", record?.properties ?? {}, resolved, source, line);
+      });
+      for (const [key, rest] of rawMap) {
+        for (const _ of rest) unmatched.push({ key, source, line: lines.next(key), missing: "csl" });
+      }
+      return { entries, unmatched };
+    }
+
+    case "csl-json": {
+      const entries = cslData.map((csl, index) =>
+        entry(
+          csl,
+          String(csl["citation-key"] || csl.id),
+          String(csl.type),
+          records[index] ?? {},
+          resolved,
+          source,
+          null,
+        ),
+      );
+      return { entries, unmatched: [] };
+    }
+
+    case "ris": {
+      const lines = new LineFinder(data, resolved);
+      const entries = cslData.map((csl, index) => {
+        const raw = records[index] ?? {};
+        const key = typeof raw.ID === "string" && raw.ID ? raw.ID : `ris-${index + 1}`;
+        // citation-js assigns random ids to records without `ID`.
+        csl.id = key;
+        return entry(csl, key, String(raw.TY ?? "GEN"), raw, resolved, source, lines.next());
+      });
+      return { entries, unmatched: [] };
+    }
+  }
+}
+
+/**
+ * Like {@link parseInput}, but collects errors instead of throwing.  BibTeX
+ * with syntax errors is re-parsed entry by entry, skipping the bad ones;
+ * other formats are skipped as a whole.
+ */
+export function parseInputLenient(
+  data: string,
+  format: InputFormat | "auto" = "auto",
+  source: string | null = null,
+): LenientParseResult {
+  try {
+    return { ...parseInput(data, format, source), errors: [] };
+  } catch (error) {
+    if (!(error instanceof ParseError)) throw error;
+    const bibtex = bibtexFormat(data, format);
+    if (!bibtex) return { entries: [], unmatched: [], errors: [error] };
+    return parseBibtexChunks(data, bibtex, source);
+  }
+}
+
+/** {@link parseInputLenient}'s result; `errors` is empty in strict mode. */
+export type LenientParseResult = ParseResult & { errors: ParseError[] };
+
+interface CachedSource {
+  data: string;
+  result: LenientParseResult;
+  /** BibTeX entry results, by `@string` block and entry text. */
+  chunks: Map<string, ParseResult>;
+}
+
+/**
+ * Parses sources again and again, re-parsing only what changed since the
+ * last {@link commit}: unchanged sources are reused as a whole, and BibTeX
+ * entries whose text (and `@string` block) is unchanged are reused too.
+ */
+export class IncrementalParser {
+  private previous = new Map<string, CachedSource>();
+  private current = new Map<string, CachedSource>();
+
+  /** Like {@link parseInput}, or {@link parseInputLenient} if `lenient`. */
+  parse(
+    data: string,
+    format: InputFormat | "auto",
+    source: string | null,
+    lenient: boolean,
+  ): LenientParseResult {
+    const id = source ?? `\0${data}`;
+    const cached = this.current.get(id) ?? this.previous.get(id);
+    if (cached?.data === data) {
+      this.current.set(id, cached);
+      return cached.result;
+    }
+
+    const chunks = new Map<string, ParseResult>();
+    const bibtex = bibtexFormat(data, format);
+    let result: LenientParseResult;
+    if (!bibtex) {
+      result = lenient
+        ? parseInputLenient(data, format, source)
+        : { ...parseInput(data, format, source), errors: [] };
+    } else if (cached) {
+      result = parseBibtexChunks(data, bibtex, source, {
+        lenient,
+        previous: cached.chunks,
+        results: chunks,
+      });
+    } else {
+      // First sight of this source: one parse for the whole file, then
+      // remember each entry under the chunk starting at its line.
+      result = lenient
+        ? parseInputLenient(data, format, source)
+        : { ...parseInput(data, format, source), errors: [] };
+      const { entries, prefix } = bibtexChunks(data);
+      for (const chunk of entries) {
+        const atLine = <T extends { line: number | null }>(list: T[]) =>
+          list.filter((item) => item.line === chunk.line);
+        const parsed = { entries: atLine(result.entries), unmatched: atLine(result.unmatched) };
+        if (parsed.entries.length + parsed.unmatched.length > 0) {
+          chunks.set(`${prefix}\0${chunk.text}`, parsed);
+        }
+      }
+    }
+    this.current.set(id, { data, result, chunks });
+    return result;
+  }
+
+  /**
+   * Keep the results of the sources parsed since the last commit and forget
+   * the rest.  Without a commit (e.g. after an error), the previous results
+   * stay available.
+   */
+  commit(): void {
+    this.previous = this.current;
+    this.current = new Map();
+  }
+}
+
+/** The BibTeX flavour to parse `data` as, or `null` if it's not BibTeX. */
+function bibtexFormat(data: string, format: InputFormat | "auto"): "bibtex" | "biblatex" | null {
+  if (format === "bibtex" || format === "biblatex") return format;
+  return format === "auto" && BIBTEX_HEADER.test(data) ? "bibtex" : null;
+}
+
+const BIBTEX_HEADER = /^[ \t]*@[a-z]+[ \t]*[{(]/im;
+
+interface Chunk {
+  text: string;
+  /** 1-based line of the chunk's first line. */
+  line: number;
+}
+
+interface ChunkOptions {
+  /** Collect errors instead of throwing the first one. */
+  lenient?: boolean;
+  /** Results to reuse, by `@string` block and entry text. */
+  previous?: Map<string, ParseResult>;
+  /** Filled with the results of this parse, by the same key. */
+  results?: Map<string, ParseResult>;
+}
+
+/**
+ * Parse every BibTeX entry on its own, with all `@string` definitions in
+ * front, so that one bad entry doesn't take the others down.
+ */
+function parseBibtexChunks(
+  data: string,
+  format: "bibtex" | "biblatex",
+  source: string | null,
+  { lenient = true, previous, results }: ChunkOptions = {},
+): LenientParseResult {
+  const { strings, entries, prefix } = bibtexChunks(data);
+
+  const result: LenientParseResult = { entries: [], unmatched: [], errors: [] };
+  const seen = new Set<string>();
+  for (const chunk of entries) {
+    const id = `${prefix}\0${chunk.text}`;
+    let parsed = results?.get(id) ?? previous?.get(id);
+    if (!parsed) {
+      const segments = [...strings, chunk];
+      const text = segments.map((segment) => segment.text).join("\n");
+      try {
+        parsed = parseInput(text, format, source);
+      } catch (error) {
+        if (!(error instanceof ParseError)) throw error;
+        const [line, column] = mapLine(segments, error.line, error.column);
+        const key = /^\s*@\w+\s*[{(]\s*([^,\s{}()]+)\s*,/.exec(chunk.text)?.[1] ?? null;
+        const located = new ParseError(error.reason, { source, line, column, key }, {
+          cause: error.cause ?? error,
+        });
+        if (!lenient) throw located;
+        const errorId = `${line}:${column}:${error.reason}`;
+        if (seen.has(errorId)) continue;
+        seen.add(errorId);
+        result.errors.push(located);
+        continue;
+      }
+    }
+    results?.set(id, parsed);
+    result.entries.push(...parsed.entries.map((e) => ({ ...e, line: chunk.line })));
+    result.unmatched.push(...parsed.unmatched.map((u) => ({ ...u, line: chunk.line })));
+  }
+  return result;
+}
+
+/**
+ * The `@string` and entry chunks of BibTeX, and the `@string` block as one
+ * text (part of the cache key of each entry).
+ */
+function bibtexChunks(data: string): { strings: Chunk[]; entries: Chunk[]; prefix: string } {
+  const chunks = splitBibtex(data);
+  const isType = (chunk: Chunk, pattern: RegExp) => pattern.test(chunk.text.trimStart());
+  const strings = chunks.filter((chunk) => isType(chunk, /^@string\b/i));
+  const entries = chunks.filter((chunk) => !isType(chunk, /^@(?:string|comment|preamble)\b/i));
+  return { strings, entries, prefix: strings.map((chunk) => chunk.text).join("\n") };
+}
+
+/** Split BibTeX at lines starting with `@`. */
+function splitBibtex(data: string): Chunk[] {
+  const chunks: Chunk[] = [];
+  data.split("\n").forEach((text, index) => {
+    if (/^[ \t]*@/.test(text) || chunks.length === 0) chunks.push({ text, line: index + 1 });
+    else chunks[chunks.length - 1].text += `\n${text}`;
+  });
+  return chunks.filter((chunk) => chunk.text.trim().startsWith("@"));
+}
+
+/** Map a line of joined `segments` back to the original input. */
+function mapLine(
+  segments: Chunk[],
+  line: number | null,
+  column: number | null,
+): [number | null, number | null] {
+  if (line == null) return [segments[segments.length - 1].line, null];
+  let remaining = line;
+  for (const segment of segments) {
+    const count = segment.text.split("\n").length;
+    if (remaining <= count) return [segment.line + remaining - 1, column];
+    remaining -= count;
+  }
+  const last = segments[segments.length - 1];
+  return [last.line + last.text.split("\n").length - 1, column];
+}
+
+function resolveFormat(
+  data: string,
+  format: InputFormat | "auto",
+  source: string | null,
+): InputFormat {
+  let detected: InputFormat;
+  try {
+    detected = detectFormat(data);
+  } catch (error) {
+    throw new ParseError((error as ParseError).reason, { source });
+  }
+  const resolved = format === "auto" ? detected : format;
+  if (detected !== (resolved === "biblatex" ? "bibtex" : resolved)) {
+    throw new ParseError(
+      `Expected ${FORMAT_NAMES[resolved]} input, got ${FORMAT_NAMES[detected]}.`,
+      { source },
+    );
+  }
+  return resolved;
+}
+
+/**
+ * Wrap a citation-js parse error, taking the location from its message
+ * (`at line 3 col 1` for BibTeX, `at position 42` for JSON).
+ */
+function toParseError(
+  error: unknown,
+  data: string,
+  format: InputFormat,
+  source: string | null,
+): ParseError {
+  const message = error instanceof Error ? error.message : String(error);
+  const reason = `Invalid ${FORMAT_NAMES[format]}: ${message.split("\n")[0].replace(/ at line \d+ col \d+:?$/, "")}`;
+
+  let line: number | null = null;
+  let column: number | null = null;
+  const lineCol = /at line (\d+) col (\d+)/.exec(message);
+  const position = /at position (\d+)/.exec(message);
+  if (lineCol) {
+    line = Number(lineCol[1]);
+    column = Number(lineCol[2]);
+  } else if (position) {
+    const before = data.slice(0, Number(position[1]));
+    line = before.split("\n").length;
+    column = Number(position[1]) - before.lastIndexOf("\n");
+  }
+  return new ParseError(reason, { source, line, column }, { cause: error });
+}
+
+/**
+ * Finds the line of each entry header, in order: `@type{key,` for BibTeX
+ * (repeated keys in order of occurrence), `TY  -` for RIS.
+ */
+class LineFinder {
+  private readonly lines = new Map<string, number[]>();
+  private readonly order: number[] = [];
+
+  constructor(data: string, format: InputFormat) {
+    const pattern = format === "ris"
+      ? /^TY {2}-/gm
+      : /^[ \t]*@\w+\s*[{(]\s*([^,\s{}()]+)\s*,/gm;
+    // Matches come in order, so newlines are counted in one forward pass.
+    let line = 1;
+    let newline = data.indexOf("\n");
+    for (const match of data.matchAll(pattern)) {
+      while (newline !== -1 && newline < match.index) {
+        line += 1;
+        newline = data.indexOf("\n", newline + 1);
+      }
+      this.order.push(line);
+      if (match[1] != null) {
+        const list = this.lines.get(match[1]);
+        if (list) list.push(line);
+        else this.lines.set(match[1], [line]);
+      }
+    }
+  }
+
+  /** The next unused line for `key`, or the next header line. */
+  next(key?: string): number | null {
+    if (key == null) return this.order.shift() ?? null;
+    return this.lines.get(key)?.shift() ?? null;
+  }
+}
+
+/** A BibTeX entry as citation-js parses it. */
+interface BibtexRecord {
+  type: string;
+  label: string;
+  /** Field values; bare numbers like `year = 2020` are numbers. */
+  properties: Record<string, string | number>;
+}
+
+function isBibtexRecord(record: Record<string, unknown>): record is Record<string, unknown> & BibtexRecord {
+  return typeof record.type === "string" && typeof record.label === "string" && isPlainObject(record.properties);
+}
+
+function entry(
+  csl: Record<string, any>,
+  key: string,
+  entryType: string,
+  raw: Record<string, any>,
+  inputFormat: InputFormat,
+  source: string | null,
+  line: number | null,
+): ParsedEntry {
+  return {
+    csl,
+    key,
+    entryType,
+    inputFormat,
+    source,
+    line,
+    year: csl.issued?.["date-parts"]?.[0]?.[0] ?? null,
+    raw,
+  };
+}
+
+/**
+ * Read a custom field from raw fields.  CSL-JSON records may also nest
+ * custom fields under a `custom` object.  Repeated RIS tags are joined
+ * with `"; "`.
+ */
+export function readCustomField(raw: Record<string, any>, field: string): string | undefined {
+  let value = raw[field];
+  if (value == null && isPlainObject(raw.custom)) value = raw.custom[field];
+  if (value == null) return undefined;
+  return Array.isArray(value) ? value.map(String).join("; ") : String(value);
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
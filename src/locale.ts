@@ -0,0 +1,142 @@
+import Cite from "citation-js";
+import { hashString } from "./cache.js";
+import { LocaleError } from "./errors.js";
+import { looksLikeXml, readFileIfExists } from "./sources.js";
+import type { FileLoader, LocalizedText } from "./types.js";
+
+// ---------------------------------------------------------------------------
+// Locales
+// ---------------------------------------------------------------------------
+
+export const DEFAULT_LOCALE = "en-US";
+
+/**
+ * Headings of the group of entries without a value, by language.  Other
+ * languages fall back to English; `labels: { '': … }` overrides them.
+ */
+const MISSING_GROUP_LABELS: Record<string, { year: string; other: string }> = {
+  en: { year: "Undated", other: "Other" },
+  de: { year: "Ohne Datum", other: "Sonstige" },
+  fr: { year: "Sans date", other: "Autres" },
+  nl: { year: "Zonder datum", other: "Overige" },
+  es: { year: "Sin fecha", other: "Otros" },
+};
+
+/**
+ * Codes that citeproc has rendered with.  citation-js keeps the engine of
+ * each style and code, built with the locale XML of the time, for good.
+ */
+const usedLocales = new Set<string>();
+
+/** Locale XML registered after its code was used, by private-use code. */
+const customLocales = new Map<string, { code: string; xml: string }>();
+
+/** The XML of codes that custom locales stand in for while they render. */
+const plainLocales = new Map<string, string>();
+
+/**
+ * Resolve a `locale` option to the code of a registered CSL locale, and
+ * register it first if needed.  Accepts a code (`'de-DE'`, or `'de'` for
+ * the first registered `de-*` locale), a path to a CSL locale file, or
+ * locale XML, which is registered under its `xml:lang`.  XML for a code
+ * that has already been rendered with is registered under a private-use
+ * code like `'de-DE-x-1a2b3c4d'` instead, so that it isn't shadowed by the
+ * engines citation-js keeps.
+ *
+ * @throws {LocaleError} for anything else
+ */
+export function registerLocale(locale: string = DEFAULT_LOCALE): string {
+  const code = findLocale(locale);
+  if (code) return code;
+  const xml = looksLikeXml(locale) ? locale : readFileIfExists(locale);
+  if (!xml) throw unknownLocale(locale);
+  return addLocale(xml, locale);
+}
+
+/**
+ * Resolve a `locale` file path to its XML with `loader`; codes and XML are
+ * returned unchanged.
+ */
+export async function loadLocale(
+  locale: string | undefined,
+  loader: FileLoader,
+): Promise<string | undefined> {
+  if (!locale || looksLikeXml(locale) || findLocale(locale)) return locale;
+  const xml = await loader.readFile(locale);
+  if (xml == null) throw unknownLocale(locale);
+  return typeof xml === "string" ? xml : new TextDecoder().decode(xml);
+}
+
+/**
+ * Prepare the registered locales for a citeproc run in `code`: citeproc
+ * reads the XML of a custom locale under its `xml:lang`, and the XML that
+ * shipped under that code everywhere else.
+ */
+export function useLocale(code: string): void {
+  usedLocales.add(code);
+  const custom = customLocales.get(code);
+  const locales = Cite.plugins.config.get("@csl").locales;
+  for (const [plain, xml] of plainLocales) {
+    const wanted = custom?.code === plain ? custom.xml : xml;
+    if (locales.get(plain) !== wanted) locales.add(plain, wanted);
+  }
+}
+
+/**
+ * Pick the text for `locale` from a {@link LocalizedText}: the exact code,
+ * then the language (`'de'` for `'de-AT'`), then English, then any.
+ */
+export function localize(text: LocalizedText, locale: string = DEFAULT_LOCALE): string {
+  if (typeof text === "string") return text;
+  const code = customLocales.get(locale)?.code ?? locale;
+  const language = code.split("-")[0];
+  return text[code] ?? text[language] ?? text[DEFAULT_LOCALE] ?? text.en
+    ?? Object.values(text)[0] ?? "";
+}
+
+/** The heading of entries without a value for `by`, e.g. "Undated". */
+export function missingGroupLabel(by: string, locale: string = DEFAULT_LOCALE): string {
+  const labels = MISSING_GROUP_LABELS[locale.split("-")[0]] ?? MISSING_GROUP_LABELS.en;
+  return by === "year" ? labels.year : labels.other;
+}
+
+function findLocale(locale: string): string | undefined {
+  const codes: string[] = Cite.plugins.config.get("@csl").locales.list();
+  const wanted = locale.toLowerCase();
+  return codes.find((code) => code.toLowerCase() === wanted)
+    ?? codes.find((code) => code.toLowerCase().startsWith(`${wanted}-`));
+}
+
+/**
+ * Register locale XML under its `xml:lang`.  Before the code is first
+ * rendered with, this replaces a registered locale with the same code, for
+ * all bibliographies; afterwards, the XML gets a private-use code.
+ */
+function addLocale(xml: string, locale: string): string {
+  const code = /<locale\b[^>]*\bxml:lang="([^"]+)"/.exec(xml)?.[1];
+  if (!code) {
+    throw new LocaleError("CSL locale XML needs an `xml:lang` attribute on <locale>.", locale);
+  }
+  const locales = Cite.plugins.config.get("@csl").locales;
+  const registered = plainLocales.get(code) ?? locales.get(code);
+  if (registered === xml) return code;
+  if (!usedLocales.has(code)) {
+    locales.add(code, xml);
+    return code;
+  }
+
+  const custom = `${code}-x-${hashString(xml)}`;
+  if (!customLocales.has(custom)) {
+    if (!plainLocales.has(code)) plainLocales.set(code, registered);
+    customLocales.set(custom, { code, xml });
+    locales.add(custom, xml);
+  }
+  return custom;
+}
+
+function unknownLocale(locale: string): LocaleError {
+  return new LocaleError(
+    `Unknown locale "${locale}". Provide a registered locale code, file path, or CSL locale XML.`,
+    locale,
+  );
+}
@@ -0,0 +1,10 @@
+// ---------------------------------------------------------------------------
+// Node built-ins
+// ---------------------------------------------------------------------------
+
+// Imported dynamically, and `null` in browsers and edge runtimes, so that
+// bundles for those don't need them.
+
+export const fs = await import(/* webpackIgnore: true */ /* @vite-ignore */ "node:fs").catch(() => null);
+export const path = await import(/* webpackIgnore: true */ /* @vite-ignore */ "node:path").catch(() => null);
+export const url = await import(/* webpackIgnore: true */ /* @vite-ignore */ "node:url").catch(() => null);
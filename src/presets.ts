@@ -0,0 +1,164 @@
+import { resolveBadge } from "./badges.js";
+import { BibliographyError } from "./errors.js";
+import { getFieldValue } from "./fields.js";
+import { sanitizeUrl } from "./html.js";
+import type { BadgeConfig, BadgePreset, BadgePresetName, BibEntry } from "./types.js";
+
+// ---------------------------------------------------------------------------
+// Badge presets
+// ---------------------------------------------------------------------------
+
+// Each `match` accepts the bare identifier and its common prefixed or URL
+// forms, and captures the identifier as the URL template expects it.
+const BUILT_IN_PRESETS: Record<BadgePresetName, BadgeConfig> = {
+  doi: {
+    field: "doi",
+    label: "DOI",
+    url: "https://doi.org/$1",
+    match: /^(?:doi:\s*|https?:\/\/(?:dx\.)?doi\.org\/)?(10\.\d{4,9}\/\S+)$/i,
+  },
+  arxiv: {
+    field: "arxiv",
+    label: "arXiv",
+    url: "https://arxiv.org/abs/$1",
+    match: /^(?:arxiv:\s*|https?:\/\/(?:www\.)?arxiv\.org\/(?:abs|pdf)\/)?(\d{4}\.\d{4,5}|[a-z-]+(?:\.[a-z]{2})?\/\d{7})(?:v\d+)?(?:\.pdf)?$/i,
+  },
+  mrnumber: {
+    field: "mrnumber",
+    label: "MR",
+    url: "https://mathscinet.ams.org/mathscinet/article?mr=$1",
+    match: /^(?:MR\s*)?(\d{1,8})(?:\s*\([^)]*\))?$/i,
+  },
+  zbl: {
+    field: "zbl",
+    label: "zbMATH",
+    url: "https://zbmath.org/?q=an:$1",
+    match: /^(?:Zbl\s*)?(\d{4}\.\d{5})$/i,
+  },
+  pubmed: {
+    field: "pmid",
+    label: "PubMed",
+    url: "https://pubmed.ncbi.nlm.nih.gov/$1/",
+    match: /^(?:PMID:?\s*)?(\d{1,9})$/i,
+  },
+  pmcid: {
+    field: "pmcid",
+    label: "PMC",
+    url: "https://pmc.ncbi.nlm.nih.gov/articles/$1/",
+    match: /^(?:PMCID:?\s*)?(PMC\d{1,10})$/i,
+  },
+  isbn: {
+    field: "isbn",
+    label: "ISBN",
+    url: "https://en.wikipedia.org/wiki/Special:BookSources/$1",
+    match: /^(?:ISBN(?:-1[03])?:?\s*)?((?:\d-?){9}[\dX]|(?:\d-?){12}\d)$/i,
+  },
+  hal: {
+    field: "hal_id",
+    label: "HAL",
+    url: "https://hal.science/$1",
+    match: /^([a-z][a-z\d]*(?:-[a-z\d]+)*-\d{8})(?:v\d+)?$/i,
+  },
+  openalex: {
+    field: "openalex",
+    label: "OpenAlex",
+    url: "https://openalex.org/$1",
+    match: /^(?:https?:\/\/openalex\.org\/(?:works\/)?)?(W\d+)$/i,
+  },
+  semanticscholar: {
+    field: "semanticscholar",
+    label: "Semantic Scholar",
+    url: "https://www.semanticscholar.org/paper/$1",
+    match: /^(?:https?:\/\/(?:www\.)?semanticscholar\.org\/paper\/(?:[^/]+\/)?)?([\da-f]{40})$/i,
+  },
+  orcid: {
+    field: "orcid",
+    label: "ORCID",
+    url: "https://orcid.org/$1",
+    match: /^(?:https?:\/\/orcid\.org\/)?(\d{4}-\d{4}-\d{4}-\d{3}[\dX])$/i,
+  },
+  swhid: {
+    field: "swhid",
+    label: "Software Heritage",
+    url: "https://archive.softwareheritage.org/$1",
+    match: /^(swh:1:(?:cnt|dir|rel|rev|snp):[\da-f]{40}(?:;[^\s;=]+=[^\s;]+)*)$/,
+  },
+  github: {
+    field: "github",
+    label: "GitHub",
+    url: "https://github.com/$1",
+    match: /^(?:https?:\/\/github\.com\/)?([a-z\d](?:[a-z\d]|-(?=[a-z\d])){0,38}\/[\w.-]+?)(?:\.git)?\/?$/i,
+  },
+};
+
+const presets = new Map<string, BadgeConfig>(Object.entries(BUILT_IN_PRESETS));
+
+/** The default {@link FormatOptions.titleLink} chain. */
+const DEFAULT_TITLE_LINK = ["url", "doi", "arxiv"];
+
+/**
+ * A badge from a registered preset, with `overrides` applied.
+ *
+ * @example
+ * bib.formatHtml(entries, {
+ *   badges: [badgePreset('doi'), badgePreset('arxiv', { className: 'badge' })],
+ * })
+ *
+ * @throws {BibliographyError} for unknown presets
+ */
+export function badgePreset(
+  name: BadgePresetName | (string & {}),
+  overrides: Partial<BadgeConfig> = {},
+): BadgeConfig {
+  const preset = presets.get(name);
+  if (!preset) {
+    throw new BibliographyError(
+      `Unknown badge preset "${name}". Registered presets: ${[...presets.keys()].join(", ")}.`,
+    );
+  }
+  return { ...preset, ...overrides };
+}
+
+/**
+ * Register a badge preset for identifiers the built-in presets don't
+ * cover.  Like the built-ins, it can then be used with
+ * {@link badgePreset} and in `titleLink`.
+ *
+ * @throws {BibliographyError} when `name` is a built-in preset
+ */
+export function registerBadgePreset(name: string, badge: BadgeConfig): void {
+  if (name in BUILT_IN_PRESETS) {
+    throw new BibliographyError(
+      `Cannot replace the built-in badge preset "${name}"; override its options with badgePreset("${name}", { … }).`,
+    );
+  }
+  presets.set(name, { ...badge });
+}
+
+/** All registered badge presets, built-ins first. */
+export function listBadgePresets(): BadgePreset[] {
+  return [...presets].map(([name, badge]) => ({ name, ...badge, builtIn: name in BUILT_IN_PRESETS }));
+}
+
+/**
+ * The URL to link an entry's title to: the first name in `names` that
+ * yields one.  A field holding an `http(s)` or `mailto` URL links to it;
+ * otherwise, names of badge presets link like their badge.
+ */
+export function resolveTitleLink(entry: BibEntry, names: string[] = DEFAULT_TITLE_LINK): string | null {
+  for (const name of names) {
+    const preset = presets.get(name);
+    const value = getFieldValue(entry, preset?.field ?? name);
+    if (typeof value !== "string" && typeof value !== "number") continue;
+    const raw = String(value).trim();
+    if (!raw) continue;
+
+    if (/^https?:\/\//i.test(raw) || /^mailto:/i.test(raw)) {
+      return sanitizeUrl(raw);
+    }
+
+    const resolution = preset ? resolveBadge(entry, preset) : null;
+    if (resolution?.status === "ok") return resolution.url;
+  }
+  return null;
+}
@@ -0,0 +1,143 @@
+import { parseProjectConfig, readConfigFile } from "./config.js";
+import { BibliographyError } from "./errors.js";
+import { Bibliography } from "./index.js";
+import { fs, path } from "./node.js";
+import { parseSortKeys } from "./sort.js";
+import { isInlineData, looksLikeXml, nodeFileLoader } from "./sources.js";
+import type {
+  BibEntry,
+  FileLoader,
+  FormatOptions,
+  ProjectConfig,
+  RenderProjectOptions,
+  RenderedView,
+  ViewConfig,
+} from "./types.js";
+
+// ---------------------------------------------------------------------------
+// Project config files
+// ---------------------------------------------------------------------------
+
+/** The result of {@link renderProject}. */
+export interface ProjectOutput {
+  /** The loaded bibliography, e.g. for its `parseErrors` in lenient mode. */
+  bibliography: Bibliography;
+  /** The rendered views, in config order. */
+  views: RenderedView[];
+}
+
+/**
+ * Read and check a project config file (JSON, YAML or `.mjs`), and resolve
+ * its paths against the directory of the file.
+ *
+ * @throws {ConfigError} naming the file and the first invalid value
+ */
+export async function loadProjectConfig(
+  file: string,
+  loader: FileLoader = nodeFileLoader,
+): Promise<ProjectConfig> {
+  const config = parseProjectConfig(await readConfigFile(file, loader), file);
+  return resolveProjectPaths(config, file.replace(/[^/\\]*$/, ""));
+}
+
+/**
+ * Load the bibliography of a project and render all its views.  Views with
+ * an `output` file are written to it (unless `write: false`).
+ *
+ * @param config - a config file, or a config object (checked the same way)
+ *
+ * @example
+ * const { views } = await renderProject('bibliography.yaml')
+ * for (const view of views) console.log(`${view.name}: ${view.entries.length} entries`)
+ */
+export async function renderProject(
+  config: string | ProjectConfig,
+  options: RenderProjectOptions = {},
+): Promise<ProjectOutput> {
+  const { loader = nodeFileLoader, renderCache, write = true } = options;
+  const project = typeof config === "string"
+    ? await loadProjectConfig(config, loader)
+    : parseProjectConfig(config);
+  const { views, defaults = {}, aliases, ...bibliographyOptions } = project;
+
+  const bibliography = await Bibliography.load({ ...bibliographyOptions, loader, renderCache });
+
+  const rendered: RenderedView[] = [];
+  for (const [name, view] of Object.entries(views)) {
+    const { entries, output } = renderView(bibliography, view, { defaults, aliases });
+    const file = view.output ?? null;
+    if (write && file) await writeOutput(file, output);
+    rendered.push({ name, entries, output, file });
+  }
+  return { bibliography, views: rendered };
+}
+
+/**
+ * Select, sort and render the entries of one view.  Format options of the
+ * view override `defaults`.
+ */
+export function renderView(
+  bib: Bibliography,
+  view: ViewConfig,
+  { defaults = {}, aliases }: { defaults?: FormatOptions; aliases?: Record<string, string> } = {},
+): { entries: BibEntry[]; output: string } {
+  const { filter, sort, group, target = "html", output: _file, ...viewOptions } = view;
+  const options: FormatOptions = { ...defaults, ...viewOptions };
+
+  const selected = filter === undefined ? bib.entries : bib.filter(filter, { aliases });
+  const entries = bib.sort(selected, typeof sort === "string" ? { by: parseSortKeys(sort) } : sort);
+  const groupOptions = typeof group === "string" ? { by: group } : group;
+
+  if (target === "json") {
+    const data = groupOptions
+      ? bib.group(entries, groupOptions).map(({ key, label, entries: members }) => ({
+        key,
+        label,
+        entries: bib.formatStructured(members, options),
+      }))
+      : bib.formatStructured(entries, options);
+    return { entries, output: JSON.stringify(data, null, 2) };
+  }
+  if (groupOptions) {
+    if (target !== "html") {
+      throw new BibliographyError(`Grouping works with the "html" and "json" targets only, not "${target}".`);
+    }
+    return { entries, output: bib.formatGroupedHtml(entries, { ...options, ...groupOptions }) };
+  }
+  return { entries, output: bib.format(entries, { ...options, target }) };
+}
+
+function resolveProjectPaths(config: ProjectConfig, base: string): ProjectConfig {
+  if (!base) return config;
+  const resolve = (file: string) => (/^([a-z][a-z0-9+.-]*:|[/\\])/i.test(file) ? file : base + file);
+  const resolveXml = (value?: string) =>
+    value && !looksLikeXml(value) && /\.(csl|xml)$/i.test(value) ? resolve(value) : value;
+  const resolveFormat = <T extends FormatOptions>(options: T): T => {
+    const resolved = { ...options };
+    if (options.cslStyle) resolved.cslStyle = resolveXml(options.cslStyle);
+    if (options.locale) resolved.locale = resolveXml(options.locale);
+    return resolved;
+  };
+
+  const data = Array.isArray(config.data) ? config.data : [config.data];
+  return {
+    ...config,
+    data: data.map((item) => (isInlineData(item) ? item : resolve(item))),
+    cslStyle: resolveXml(config.cslStyle),
+    locale: resolveXml(config.locale),
+    defaults: config.defaults && resolveFormat(config.defaults),
+    views: Object.fromEntries(
+      Object.entries(config.views).map(([name, view]) => {
+        const resolved = resolveFormat(view);
+        if (view.output) resolved.output = resolve(view.output);
+        return [name, resolved];
+      }),
+    ),
+  };
+}
+
+async function writeOutput(file: string, output: string): Promise<void> {
+  if (!fs || !path) throw new BibliographyError(`Cannot write "${file}" without node:fs.`);
+  await fs.promises.mkdir(path.dirname(file), { recursive: true });
+  await fs.promises.writeFile(file, `${output}\n`);
+}
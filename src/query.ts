@@ -0,0 +1,353 @@
+import { BibliographyError } from "./errors.js";
+import { getFieldScalars } from "./fields.js";
+import type { BibEntry, FieldPredicate, Query, QueryOptions } from "./types.js";
+
+// ---------------------------------------------------------------------------
+// Query evaluation
+// ---------------------------------------------------------------------------
+
+/**
+ * Compile a query (structured or string syntax) into an entry predicate.
+ *
+ * @example
+ * const isRecent = compileQuery('year>=2020 AND NOT status:preprint', {
+ *   aliases: { status: 'publication-status' },
+ * });
+ * bib.entries.filter(isRecent);
+ */
+export function compileQuery(
+  query: Query | string,
+  options: QueryOptions = {},
+): (entry: BibEntry) => boolean {
+  const parsed = typeof query === "string" ? parseQuery(query) : query;
+  const aliases = options.aliases ?? {};
+  return (entry) => evaluate(parsed, entry, aliases);
+}
+
+/**
+ * Whether a value is a structured {@link Query} rather than a plain
+ * key/value criteria record.
+ */
+export function isQuery(value: unknown): value is Query {
+  if (value == null || typeof value !== "object") return false;
+  const q = value as Record<string, unknown>;
+  if (Array.isArray(q.and) || Array.isArray(q.or)) return true;
+  if (q.not != null && typeof q.not === "object") return true;
+  return typeof q.field === "string" && PREDICATE_OPERATORS.some((op) => op in q);
+}
+
+const PREDICATE_OPERATORS = [
+  "equals",
+  "in",
+  "contains",
+  "matches",
+  "exists",
+  "gt",
+  "gte",
+  "lt",
+  "lte",
+] as const;
+
+function evaluate(query: Query, entry: BibEntry, aliases: Record<string, string>): boolean {
+  if ("and" in query) return query.and.every((q) => evaluate(q, entry, aliases));
+  if ("or" in query) return query.or.some((q) => evaluate(q, entry, aliases));
+  if ("not" in query) return !evaluate(query.not, entry, aliases);
+  return testPredicate(query, entry, aliases);
+}
+
+function testPredicate(
+  predicate: FieldPredicate,
+  entry: BibEntry,
+  aliases: Record<string, string>,
+): boolean {
+  const field = aliases[predicate.field] ?? predicate.field;
+  const values = getFieldScalars(entry, field).filter((v) => v !== "");
+
+  if (predicate.exists != null && (values.length > 0) !== predicate.exists) {
+    return false;
+  }
+
+  const checks: Array<(v: string | number) => boolean> = [];
+  const { equals, contains, matches, gt, gte, lt, lte } = predicate;
+
+  if (equals != null) checks.push((v) => compareValues(v, equals) === 0);
+  if (predicate.in) {
+    const options = predicate.in;
+    checks.push((v) => options.some((o) => compareValues(v, o) === 0));
+  }
+  if (contains != null) {
+    const needle = contains.toLowerCase();
+    checks.push((v) => String(v).toLowerCase().includes(needle));
+  }
+  if (matches != null) {
+    const regex = typeof matches === "string" ? new RegExp(matches) : matches;
+    checks.push((v) => {
+      regex.lastIndex = 0;
+      return regex.test(String(v));
+    });
+  }
+  if (gt != null) checks.push((v) => compareValues(v, gt) > 0);
+  if (gte != null) checks.push((v) => compareValues(v, gte) >= 0);
+  if (lt != null) checks.push((v) => compareValues(v, lt) < 0);
+  if (lte != null) checks.push((v) => compareValues(v, lte) <= 0);
+
+  if (checks.length === 0) return true;
+  return values.some((v) => checks.every((check) => check(v)));
+}
+
+function compareValues(a: string | number, b: string | number): number {
+  const na = typeof a === "number" ? a : Number(a);
+  const nb = typeof b === "number" ? b : Number(b);
+  if (a !== "" && b !== "" && Number.isFinite(na) && Number.isFinite(nb)) {
+    return na - nb;
+  }
+  const sa = String(a);
+  const sb = String(b);
+  return sa < sb ? -1 : sa > sb ? 1 : 0;
+}
+
+// ---------------------------------------------------------------------------
+// String syntax
+// ---------------------------------------------------------------------------
+
+/**
+ * Parse the string query syntax into a structured {@link Query}.
+ *
+ * | Syntax | Meaning |
+ * |---|---|
+ * | `field:value` | equality |
+ * | `field!=value` | inequality |
+ * | `field~value` | case-insensitive substring |
+ * | `field:/regex/i` | regular expression |
+ * | `field>=2020`, `>`, `<=`, `<` | comparison |
+ * | `field:2020..2023` | inclusive range |
+ * | `field:*`, `has:field` | field presence |
+ * | `AND`, `OR`, `NOT`, `( … )` | combinators (adjacent terms are AND-ed) |
+ *
+ * Values containing spaces or parentheses can be double-quoted.
+ *
+ * @example
+ * parseQuery('year>=2020 AND (type:article-journal OR status:preprint)')
+ */
+export function parseQuery(input: string): Query {
+  const parser = new QueryParser(input);
+  return parser.parse();
+}
+
+const OPERATORS = [">=", "<=", "!=", ":", "=", "~", ">", "<"] as const;
+type Operator = (typeof OPERATORS)[number];
+
+class QueryParser {
+  private pos = 0;
+
+  constructor(private readonly input: string) {}
+
+  parse(): Query {
+    this.skipSpace();
+    if (this.atEnd()) this.fail("empty query");
+    const query = this.parseOr();
+    this.skipSpace();
+    if (!this.atEnd()) this.fail(`unexpected "${this.input[this.pos]}"`);
+    return query;
+  }
+
+  private parseOr(): Query {
+    const parts = [this.parseAnd()];
+    while (this.acceptKeyword("OR")) {
+      parts.push(this.parseAnd());
+    }
+    return parts.length === 1 ? parts[0] : { or: parts };
+  }
+
+  private parseAnd(): Query {
+    const parts = [this.parseUnary()];
+    for (;;) {
+      this.skipSpace();
+      if (this.atEnd() || this.peek() === ")" || this.peekKeyword("OR")) break;
+      this.acceptKeyword("AND");
+      parts.push(this.parseUnary());
+    }
+    return parts.length === 1 ? parts[0] : { and: parts };
+  }
+
+  private parseUnary(): Query {
+    this.skipSpace();
+    if (this.acceptKeyword("NOT")) return { not: this.parseUnary() };
+    if (this.peek() === "-") {
+      this.pos += 1;
+      return { not: this.parseUnary() };
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): Query {
+    this.skipSpace();
+    if (this.atEnd()) this.fail("unexpected end of query");
+
+    if (this.peek() === "(") {
+      this.pos += 1;
+      const inner = this.parseOr();
+      this.skipSpace();
+      if (this.peek() !== ")") this.fail('expected ")"');
+      this.pos += 1;
+      return inner;
+    }
+
+    return this.parseTerm();
+  }
+
+  private parseTerm(): Query {
+    const start = this.pos;
+    const field = this.readField();
+    if (!field) this.fail(`expected a field name`);
+
+    const op = this.readOperator();
+    if (!op) {
+      this.pos = start;
+      this.fail(`expected an operator after "${field}"`);
+    }
+
+    if (field === "has" && op === ":") {
+      const target = this.readField();
+      if (!target) this.fail("expected a field name after has:");
+      return { field: target, exists: true };
+    }
+
+    const value = this.readValue();
+
+    if (value.kind === "regex") {
+      if (op !== ":" && op !== "=") this.fail(`regex values require ":"`);
+      return { field, matches: value.regex };
+    }
+
+    const text = value.text;
+    switch (op) {
+      case ":":
+      case "=": {
+        if (value.kind === "bare" && text === "*") return { field, exists: true };
+        const range = value.kind === "bare" ? text.match(/^(.*)\.\.(.*)$/) : null;
+        if (range) {
+          const predicate: FieldPredicate = { field };
+          if (range[1]) predicate.gte = range[1];
+          if (range[2]) predicate.lte = range[2];
+          return predicate;
+        }
+        return { field, equals: text };
+      }
+      case "!=":
+        return { not: { field, equals: text } };
+      case "~":
+        return { field, contains: text };
+      case ">":
+        return { field, gt: text };
+      case ">=":
+        return { field, gte: text };
+      case "<":
+        return { field, lt: text };
+      case "<=":
+        return { field, lte: text };
+    }
+  }
+
+  private readField(): string {
+    const match = /^[A-Za-z_][\w.+-]*/.exec(this.input.slice(this.pos));
+    if (!match) return "";
+    // A trailing `-` or `.` belongs to the operator/value, not the name.
+    const name = match[0].replace(/[.+-]+$/, "");
+    this.pos += name.length;
+    return name;
+  }
+
+  private readOperator(): Operator | null {
+    for (const op of OPERATORS) {
+      if (this.input.startsWith(op, this.pos)) {
+        this.pos += op.length;
+        return op;
+      }
+    }
+    return null;
+  }
+
+  private readValue():
+    | { kind: "bare" | "quoted"; text: string }
+    | { kind: "regex"; regex: RegExp } {
+    const ch = this.peek();
+
+    if (ch === '"') {
+      const text = this.readDelimited('"');
+      return { kind: "quoted", text };
+    }
+
+    if (ch === "/") {
+      const source = this.readDelimited("/");
+      const flags = /^[a-z]*/.exec(this.input.slice(this.pos))![0];
+      this.pos += flags.length;
+      try {
+        return { kind: "regex", regex: new RegExp(source, flags) };
+      } catch (err) {
+        this.fail(`invalid regular expression /${source}/${flags}: ${(err as Error).message}`);
+      }
+    }
+
+    const match = /^[^\s()"]+/.exec(this.input.slice(this.pos));
+    if (!match) this.fail("expected a value");
+    this.pos += match[0].length;
+    return { kind: "bare", text: match[0] };
+  }
+
+  private readDelimited(delimiter: string): string {
+    const start = this.pos;
+    this.pos += 1;
+    let out = "";
+    while (!this.atEnd()) {
+      const ch = this.input[this.pos];
+      if (ch === "\\" && this.input[this.pos + 1] === delimiter) {
+        out += delimiter;
+        this.pos += 2;
+        continue;
+      }
+      if (ch === delimiter) {
+        this.pos += 1;
+        return out;
+      }
+      // Keep other escapes intact (meaningful inside regular expressions).
+      if (ch === "\\" && this.pos + 1 < this.input.length) {
+        out += ch + this.input[this.pos + 1];
+        this.pos += 2;
+        continue;
+      }
+      out += ch;
+      this.pos += 1;
+    }
+    this.pos = start;
+    this.fail(`unterminated ${delimiter === '"' ? "string" : "regular expression"}`);
+  }
+
+  private peekKeyword(keyword: string): boolean {
+    const rest = this.input.slice(this.pos);
+    return new RegExp(`^${keyword}(?=[\\s(]|$)`).test(rest);
+  }
+
+  private acceptKeyword(keyword: string): boolean {
+    this.skipSpace();
+    if (!this.peekKeyword(keyword)) return false;
+    this.pos += keyword.length;
+    return true;
+  }
+
+  private skipSpace(): void {
+    while (!this.atEnd() && /\s/.test(this.input[this.pos])) this.pos += 1;
+  }
+
+  private peek(): string {
+    return this.input[this.pos] ?? "";
+  }
+
+  private atEnd(): boolean {
+    return this.pos >= this.input.length;
+  }
+
+  private fail(message: string): never {
+    throw new BibliographyError(`Invalid query at position ${this.pos}: ${message}`);
+  }
+}
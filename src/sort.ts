@@ -0,0 +1,140 @@
+import { BibliographyError } from "./errors.js";
+import { getFieldScalars } from "./fields.js";
+import type { BibEntry, SortKey, SortOptions } from "./types.js";
+
+// ---------------------------------------------------------------------------
+// Multi-key sorting
+// ---------------------------------------------------------------------------
+
+type SortValue = string | number | null;
+
+/**
+ * Build a comparator from {@link SortOptions}.  Keys are compared in turn;
+ * numbers compare numerically, strings with `Intl.Collator`.
+ */
+export function createComparator(
+  options: SortOptions = {},
+): (a: BibEntry, b: BibEntry) => number {
+  const defaultOrder = options.order ?? "desc";
+  const defaultMissing = options.missing ?? "last";
+  const collator = new Intl.Collator(options.locale, { sensitivity: "base", numeric: true });
+
+  const keys = normalizeKeys(options.by ?? "year").map((key) => ({
+    by: key.by,
+    direction: (key.order ?? defaultOrder) === "desc" ? -1 : 1,
+    missing: key.missing ?? defaultMissing,
+    ordering: key.ordering,
+  }));
+
+  return (a, b) => {
+    for (const key of keys) {
+      const va = sortValue(a, key.by);
+      const vb = sortValue(b, key.by);
+
+      // Missing values are placed independently of the sort direction.
+      if (va == null || vb == null) {
+        if (va == null && vb == null) continue;
+        const missingFirst = key.missing === "first";
+        return (va == null) === missingFirst ? -1 : 1;
+      }
+
+      const cmp = key.ordering
+        ? compareByOrdering(va, vb, key.ordering, collator)
+        : compareSortValues(va, vb, collator);
+      if (cmp !== 0) return cmp * key.direction;
+    }
+    return 0;
+  };
+}
+
+/**
+ * Parse sort keys written as text: comma-separated fields, each optionally
+ * followed by `:asc` or `:desc`.
+ *
+ * @example
+ * parseSortKeys('year:desc, author:asc') // [{ by: 'year', order: 'desc' }, { by: 'author', order: 'asc' }]
+ */
+export function parseSortKeys(input: string): SortKey[] {
+  return input.split(",").map((part) => {
+    const match = /^\s*([^\s:]+)\s*(?::\s*(\S*)\s*)?$/.exec(part);
+    if (!match) throw new BibliographyError(`Invalid sort key "${part.trim()}": expected field[:asc|desc].`);
+    const [, by, order] = match;
+    if (order === undefined) return { by };
+    if (order !== "asc" && order !== "desc") {
+      throw new BibliographyError(`Invalid sort order "${order}" for "${by}": expected asc or desc.`);
+    }
+    return { by, order };
+  });
+}
+
+function normalizeKeys(by: NonNullable<SortOptions["by"]>): SortKey[] {
+  const list = Array.isArray(by) ? by : [by];
+  return list.map((key) => (typeof key === "string" ? { by: key } : key));
+}
+
+function sortValue(entry: BibEntry, by: string): SortValue {
+  switch (by) {
+    case "year":
+      return entry.year;
+    case "month":
+    case "day": {
+      const part = issuedParts(entry)[by === "month" ? 1 : 2];
+      return part ?? null;
+    }
+    case "issued": {
+      const [year, month = 0, day = 0] = issuedParts(entry);
+      return year == null ? null : year * 10000 + month * 100 + day;
+    }
+    case "author":
+    case "editor":
+      return firstName(entry.csl[by]);
+    case "title": {
+      const title = entry.csl.title;
+      if (typeof title !== "string" || !title.trim()) return null;
+      return normalizeTitle(title);
+    }
+  }
+
+  const value = getFieldScalars(entry, by)[0];
+  return value == null || value === "" ? null : value;
+}
+
+function issuedParts(entry: BibEntry): number[] {
+  const parts = entry.csl.issued?.["date-parts"]?.[0];
+  if (!Array.isArray(parts)) return [];
+  return parts.map((p: unknown) => Number(p)).filter((p: number) => Number.isFinite(p));
+}
+
+function firstName(names: unknown): string | null {
+  if (!Array.isArray(names) || names.length === 0) return null;
+  const name = names[0] ?? {};
+  if (typeof name.literal === "string") return name.literal;
+  const family = [name["non-dropping-particle"], name.family].filter(Boolean).join(" ");
+  if (!family) return null;
+  return name.given ? `${family}, ${name.given}` : family;
+}
+
+/** Drop leading articles and punctuation, as CSL processors do for sorting. */
+function normalizeTitle(title: string): string {
+  return title
+    .replace(/^[^\p{L}\p{N}]+/u, "")
+    .replace(/^(?:a|an|the)\s+/i, "");
+}
+
+function compareSortValues(a: string | number, b: string | number, collator: Intl.Collator): number {
+  if (typeof a === "number" && typeof b === "number") return a - b;
+  return collator.compare(String(a), String(b));
+}
+
+function compareByOrdering(
+  a: string | number,
+  b: string | number,
+  ordering: string[],
+  collator: Intl.Collator,
+): number {
+  const rank = (v: string | number) => {
+    const index = ordering.indexOf(String(v));
+    return index === -1 ? ordering.length : index;
+  };
+  return rank(a) - rank(b) || compareSortValues(a, b, collator);
+}
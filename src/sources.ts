@@ -0,0 +1,367 @@
+import { toBibtex } from "./bibtex.js";
+import { BibliographyError, DuplicateKeyError, type ParseError } from "./errors.js";
+import {
+  parseInput,
+  parseInputLenient,
+  type IncrementalParser,
+  type ParsedEntry,
+} from "./input.js";
+import { fs } from "./node.js";
+import type {
+  DataSource,
+  DuplicateKeyPolicy,
+  FileLoader,
+  InputFormat,
+  UnmatchedEntry,
+} from "./types.js";
+
+// ---------------------------------------------------------------------------
+// Loading and merging sources
+// ---------------------------------------------------------------------------
+
+/** The text of one source, and the file it was read from (if any). */
+export interface SourceText {
+  text: string;
+  source: string | null;
+}
+
+/**
+ * Resolve `data` to source texts: each item is a file path, a glob pattern
+ * (`*`, `?`, `**`, `[…]`) matching files in sorted order, or inline data.
+ */
+export function readSources(data: string | string[]): SourceText[] {
+  return (Array.isArray(data) ? data : [data]).flatMap((input): SourceText[] => {
+    const text = readFileIfExists(input);
+    if (text != null) return [{ text, source: input }];
+    if (!isGlob(input)) return [{ text: input, source: null }];
+
+    if (!fs) {
+      throw new BibliographyError(
+        `Cannot expand "${input}" without node:fs; use Bibliography.load() with a loader.`,
+      );
+    }
+    const { readFileSync } = fs;
+    const files = expandGlob(input);
+    if (files.length === 0) throw new BibliographyError(`No files match "${input}".`);
+    return files.map((file) => ({ text: readFileSync(file, "utf-8"), source: file }));
+  });
+}
+
+/**
+ * Async {@link readSources}: strings are resolved through `loader`, binary
+ * data and streams are decoded as UTF-8.  Strings that contain a line break
+ * or start with `@`, `{` or `[` are inline data and never passed to the
+ * loader.
+ */
+export async function loadSources(
+  data: DataSource | DataSource[],
+  loader: FileLoader,
+): Promise<SourceText[]> {
+  const sources: SourceText[] = [];
+  for (const input of Array.isArray(data) ? data : [data]) {
+    if (typeof input !== "string") {
+      sources.push({ text: await decodeData(input), source: null });
+      continue;
+    }
+    const text = isInlineData(input) ? null : await loader.readFile(input);
+    if (text != null) {
+      sources.push({ text: decodeText(text), source: input });
+      continue;
+    }
+    if (!isGlob(input)) {
+      sources.push({ text: input, source: null });
+      continue;
+    }
+
+    if (!loader.glob) throw new BibliographyError(`Cannot expand "${input}": the loader has no glob().`);
+    const files = await loader.glob(input);
+    if (files.length === 0) throw new BibliographyError(`No files match "${input}".`);
+    for (const file of files) {
+      const content = await loader.readFile(file);
+      if (content == null) throw new BibliographyError(`Cannot read "${file}".`);
+      sources.push({ text: decodeText(content), source: file });
+    }
+  }
+  return sources;
+}
+
+/** Reads files with `node:fs/promises`; finds nothing outside Node. */
+export const nodeFileLoader: FileLoader = {
+  async readFile(path) {
+    if (!fs) return null;
+    try {
+      if (!(await fs.promises.stat(path)).isFile()) return null;
+    } catch {
+      return null;
+    }
+    return fs.promises.readFile(path, "utf-8");
+  },
+
+  async glob(pattern) {
+    if (!fs) throw new BibliographyError(`Cannot expand "${pattern}" without node:fs.`);
+    const { promises } = fs;
+    const { base, regex, maxDepth } = compileGlob(pattern);
+
+    const matches: string[] = [];
+    const walk = async (dir: string, relative: string, depth: number) => {
+      let names: string[];
+      try {
+        names = await promises.readdir(dir);
+      } catch {
+        return;
+      }
+      for (const name of names.sort()) {
+        if (name.startsWith(".")) continue;
+        const path = joinPath(dir, name);
+        const rel = relative ? `${relative}/${name}` : name;
+        const stats = await promises.stat(path).catch(() => null);
+        if (stats?.isDirectory()) {
+          if (depth < maxDepth) await walk(path, rel, depth + 1);
+        } else if (stats?.isFile() && regex.test(rel)) {
+          matches.push(base === "." ? rel : joinPath(base, rel));
+        }
+      }
+    };
+    await walk(base, "", 1);
+    return matches;
+  },
+};
+
+/** Inline CSL style or locale XML, as opposed to a name or a path. */
+export function looksLikeXml(input: string): boolean {
+  return /^\s*</.test(input);
+}
+
+/** Strings that {@link loadSources} never passes to the loader. */
+export function isInlineData(input: string): boolean {
+  return input.includes("\n") || /^\s*[@{[]/.test(input);
+}
+
+const decoder = new TextDecoder();
+
+function decodeText(text: string | Uint8Array): string {
+  return typeof text === "string" ? text : decoder.decode(text);
+}
+
+async function decodeData(data: Exclude<DataSource, string>): Promise<string> {
+  if (data instanceof Uint8Array) return decoder.decode(data);
+
+  const streamDecoder = new TextDecoder();
+  let text = "";
+  const chunks = Symbol.asyncIterator in data ? data : readStream(data);
+  for await (const chunk of chunks) {
+    text += typeof chunk === "string" ? chunk : streamDecoder.decode(chunk, { stream: true });
+  }
+  return text + streamDecoder.decode();
+}
+
+/** For `ReadableStream`s that aren't async iterable (e.g. in Safari). */
+async function* readStream(stream: ReadableStream<Uint8Array>): AsyncGenerator<Uint8Array> {
+  const reader = stream.getReader();
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) return;
+      yield value;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/** Options of {@link parseSources}, from {@link BibliographyOptions}. */
+export interface ParseSourcesOptions {
+  format?: InputFormat | "auto";
+  duplicateKeys: DuplicateKeyPolicy;
+  lenient?: boolean;
+  /** Reuse the results of earlier parses (in watch mode). */
+  parser?: IncrementalParser;
+}
+
+/** Entries of all sources, and what went wrong on the way. */
+export interface ParsedSources {
+  entries: ParsedEntry[];
+  errors: ParseError[];
+  unmatched: UnmatchedEntry[];
+}
+
+/**
+ * Parse all sources into one list, in source order, applying the duplicate
+ * key policy to entries that share a citation key.
+ */
+export function parseSources(
+  sources: SourceText[],
+  { format = "auto", duplicateKeys, lenient = false, parser }: ParseSourcesOptions,
+): ParsedSources {
+  const result: ParsedSources = { entries: [], errors: [], unmatched: [] };
+  const byKey = new Map<string, number>();
+  /** The `data` item of each entry in `result.entries`, to tell inline sources apart. */
+  const items: Array<number | null> = [];
+
+  for (const [sourceIndex, { text, source }] of sources.entries()) {
+    const item = source == null && sources.length > 1 ? sourceIndex + 1 : null;
+    const parsed = parser
+      ? parser.parse(text, format, source, lenient)
+      : lenient
+        ? parseInputLenient(text, format, source)
+        : { ...parseInput(text, format, source), errors: [] };
+    result.errors.push(...parsed.errors);
+    result.unmatched.push(...parsed.unmatched);
+
+    for (const entry of parsed.entries) {
+      const index = byKey.get(entry.key);
+      if (index == null || duplicateKeys === "keep") {
+        if (index == null) byKey.set(entry.key, result.entries.length);
+        result.entries.push(entry);
+        items.push(item);
+        continue;
+      }
+
+      const existing = result.entries[index];
+      switch (duplicateKeys) {
+        case "error": {
+          const error = new DuplicateKeyError(
+            entry.key,
+            { source: entry.source, item, line: entry.line },
+            { source: existing.source, item: items[index], line: existing.line },
+          );
+          if (!lenient) throw error;
+          result.errors.push(error);
+          break;
+        }
+        case "first":
+          break;
+        case "last":
+          result.entries[index] = entry;
+          items[index] = item;
+          break;
+        case "merge":
+          result.entries[index] = mergeEntries(existing, entry);
+          break;
+      }
+    }
+  }
+  return result;
+}
+
+/**
+ * Add the fields of `later` that `earlier` lacks.  BibTeX entries are
+ * re-parsed from the merged fields so that the CSL data stays in sync.
+ */
+export function mergeEntries(earlier: ParsedEntry, later: ParsedEntry): ParsedEntry {
+  const raw = { ...later.raw, ...earlier.raw };
+  const bibtex = (e: ParsedEntry) => e.inputFormat === "bibtex" || e.inputFormat === "biblatex";
+
+  if (bibtex(earlier) && bibtex(later)) {
+    const text = toBibtex([{ ...earlier, raw, custom: {} }]);
+    const [merged] = parseInput(text, earlier.inputFormat, earlier.source).entries;
+    return { ...merged, line: earlier.line };
+  }
+  const csl = { ...later.csl, ...earlier.csl };
+  return { ...earlier, csl, raw, year: earlier.year ?? later.year };
+}
+
+export function readFileIfExists(input: string): string | null {
+  if (!fs || !fs.existsSync(input)) return null;
+  try {
+    if (!fs.statSync(input).isFile()) return null;
+  } catch {
+    return null;
+  }
+  return fs.readFileSync(input, "utf-8");
+}
+
+// ---------------------------------------------------------------------------
+// Glob patterns
+// ---------------------------------------------------------------------------
+
+const GLOB_CHARS = /[*?[]/;
+
+/**
+ * Single-line inputs with glob characters but no BibTeX/JSON syntax.
+ * Inline data comes first: `'[]'` is an empty CSL-JSON list.
+ */
+export function isGlob(input: string): boolean {
+  return !isInlineData(input) && GLOB_CHARS.test(input) && !/[\n{}@=]/.test(input);
+}
+
+/**
+ * Expand a glob pattern to the files it matches, sorted.  Hidden files and
+ * directories are skipped.
+ */
+function expandGlob(pattern: string): string[] {
+  const { readdirSync, statSync } = fs!;
+  const { base, regex, maxDepth } = compileGlob(pattern);
+
+  const matches: string[] = [];
+  const walk = (dir: string, relative: string, depth: number) => {
+    let names: string[];
+    try {
+      names = readdirSync(dir);
+    } catch {
+      return;
+    }
+    for (const name of names.sort()) {
+      if (name.startsWith(".")) continue;
+      const path = joinPath(dir, name);
+      const rel = relative ? `${relative}/${name}` : name;
+      const stats = statSync(path, { throwIfNoEntry: false });
+      if (stats?.isDirectory()) {
+        if (depth < maxDepth) walk(path, rel, depth + 1);
+      } else if (stats?.isFile() && regex.test(rel)) {
+        matches.push(base === "." ? rel : joinPath(base, rel));
+      }
+    }
+  };
+  walk(base, "", 1);
+  return matches;
+}
+
+/**
+ * Split a pattern into the directory to walk, a regex for paths relative to
+ * it, and how deep to descend.
+ */
+export function compileGlob(pattern: string): { base: string; regex: RegExp; maxDepth: number } {
+  const parts = pattern.replace(/\\/g, "/").split("/");
+  const first = parts.findIndex((part) => GLOB_CHARS.test(part));
+  const base = parts.slice(0, first).join("/") || (pattern.startsWith("/") ? "/" : ".");
+  const rest = parts.slice(first);
+  return {
+    base,
+    regex: globToRegExp(rest.join("/")),
+    maxDepth: rest.includes("**") ? Infinity : rest.length,
+  };
+}
+
+function joinPath(dir: string, name: string): string {
+  return dir.endsWith("/") ? dir + name : `${dir}/${name}`;
+}
+
+function globToRegExp(glob: string): RegExp {
+  let source = "";
+  for (let i = 0; i < glob.length; i += 1) {
+    const ch = glob[i];
+    if (glob.startsWith("**/", i)) {
+      source += "(?:.*/)?";
+      i += 2;
+    } else if (glob.startsWith("**", i)) {
+      source += ".*";
+      i += 1;
+    } else if (ch === "*") {
+      source += "[^/]*";
+    } else if (ch === "?") {
+      source += "[^/]";
+    } else if (ch === "[") {
+      const close = glob.indexOf("]", i + 2);
+      if (close === -1) {
+        source += "\\[";
+      } else {
+        source += `[${glob.slice(i + 1, close).replace(/^!/, "^").replace(/\\/g, "\\\\")}]`;
+        i = close;
+      }
+    } else {
+      source += ch.replace(/[.+^${}()|\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
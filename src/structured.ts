@@ -0,0 +1,115 @@
+import { decodeEntities } from "./html.js";
+import { frameKind } from "./targets.js";
+import type { StructuredElement, StructuredNode } from "./types.js";
+
+// ---------------------------------------------------------------------------
+// HTML → structured nodes
+// ---------------------------------------------------------------------------
+
+interface NodeFrame {
+  name: string;
+  /** `null` for markup that is dropped, keeping its children. */
+  element: StructuredElement | null;
+  label: boolean;
+  children: StructuredNode[];
+}
+
+const VOID_ELEMENTS = new Set(["br", "hr", "img", "input", "meta", "link", "wbr"]);
+
+/**
+ * Convert the decorated HTML of one entry to {@link StructuredNode}s.  The
+ * title is expected in `<cite>` and highlighted names in `<mark>`; the
+ * left-margin label of numeric styles is returned on its own.
+ */
+export function htmlToNodes(
+  html: string,
+  titleUrl: string | null,
+): { label: string | null; content: StructuredNode[] } {
+  const root: NodeFrame = { name: "", element: null, label: false, children: [] };
+  const stack: NodeFrame[] = [root];
+  const top = () => stack[stack.length - 1];
+  let label: string | null = null;
+
+  const close = () => {
+    const frame = stack.pop()!;
+    if (frame.label) {
+      label = nodeText(frame.children).trim() || null;
+    } else if (frame.element) {
+      frame.element.children = frame.children;
+      if (frame.children.length) appendNode(top().children, frame.element);
+    } else {
+      for (const child of frame.children) appendNode(top().children, child);
+    }
+  };
+
+  for (const token of html.split(/(<[^>]*>)/g)) {
+    if (!token) continue;
+
+    if (!token.startsWith("<")) {
+      appendNode(top().children, decodeEntities(token).replace(/[ \t\r\n]+/g, " "));
+      continue;
+    }
+
+    const tag = /^<\s*(\/?)\s*([a-z0-9]+)([^>]*)>$/i.exec(token);
+    if (!tag) continue;
+    const [, closing, rawName, attrs] = tag;
+    const name = rawName.toLowerCase();
+
+    if (name === "br") {
+      appendNode(top().children, "\n");
+      continue;
+    }
+    if (VOID_ELEMENTS.has(name) || attrs.trim().endsWith("/")) continue;
+
+    if (closing) {
+      if (!stack.some((f, i) => i > 0 && f.name === name)) continue;
+      while (stack.length > 1 && top().name !== name) close();
+      close();
+      continue;
+    }
+
+    stack.push({
+      name,
+      element: nodeElement(name, attrs, titleUrl),
+      label: name === "div" && /\bcsl-left-margin\b/.test(attrs),
+      children: [],
+    });
+  }
+
+  while (stack.length > 1) close();
+  return { label, content: trimNodes(root.children) };
+}
+
+/** The text of nodes, without markup. */
+export function nodeText(nodes: StructuredNode[]): string {
+  return nodes.map((node) => (typeof node === "string" ? node : nodeText(node.children))).join("");
+}
+
+function nodeElement(name: string, attrs: string, titleUrl: string | null): StructuredElement | null {
+  if (name === "cite") {
+    return titleUrl ? { type: "title", url: titleUrl, children: [] } : { type: "title", children: [] };
+  }
+  if (name === "mark") return { type: "highlight", children: [] };
+  const { kind, href } = frameKind(name, attrs);
+  if (kind === "none") return null;
+  return kind === "link" ? { type: kind, url: href, children: [] } : { type: kind, children: [] };
+}
+
+/** Append a node, merging adjacent text and collapsing spaces between them. */
+function appendNode(nodes: StructuredNode[], node: StructuredNode): void {
+  const last = nodes[nodes.length - 1];
+  if (typeof node === "string" && typeof last === "string") {
+    nodes[nodes.length - 1] = (last + node).replace(/ {2,}/g, " ");
+  } else if (node !== "") {
+    nodes.push(node);
+  }
+}
+
+/** Drop the leading and trailing whitespace of an entry. */
+function trimNodes(nodes: StructuredNode[]): StructuredNode[] {
+  const out = [...nodes];
+  if (typeof out[0] === "string") out[0] = out[0].trimStart();
+  const end = out.length - 1;
+  if (typeof out[end] === "string") out[end] = (out[end] as string).trimEnd();
+  return out.filter((node) => node !== "");
+}
@@ -0,0 +1,250 @@
+import Cite from "citation-js";
+import { forgetXmlHash, hashString } from "./cache.js";
+import { StyleError } from "./errors.js";
+import { looksLikeXml, readFileIfExists } from "./sources.js";
+import { childElement, parseXml, type XmlElement } from "./xml.js";
+import type { FileLoader, StyleInfo } from "./types.js";
+
+// ---------------------------------------------------------------------------
+// CSL styles
+// ---------------------------------------------------------------------------
+
+export const DEFAULT_STYLE = "apa";
+
+const CSL_NAMESPACE = "http://purl.org/net/xbiblio/csl";
+
+/** The templates citation-js ships with: `'apa'`, `'harvard1'`, `'vancouver'`. */
+const BUILT_IN_STYLES = new Set<string>(templates().list());
+
+/**
+ * The locales each style has rendered in, i.e. the citeproc engines
+ * citation-js keeps for it, by style and locale.
+ */
+const styleLocales = new Map<string, Set<string>>();
+
+/**
+ * The CSL templates registered with citation-js, sorted by name: the
+ * built-in ones, styles added by other plugins, and the `custom-<hash>`
+ * names of styles given as XML or files.
+ */
+export function listStyles(): StyleInfo[] {
+  return [...templates().list()].sort().map((name: string) => {
+    const parsed = parseXml(templates().get(name));
+    return styleInfo(name, parsed.root);
+  });
+}
+
+/**
+ * Metadata of a CSL style, from its `<info>` block.  Accepts the same
+ * values as `cslStyle`; XML and files are validated but not registered,
+ * and `name` is the name they would be registered under.
+ *
+ * @throws {StyleError} for unknown or invalid styles
+ */
+export function inspectStyle(cslStyle: string): StyleInfo {
+  if (templateExists(cslStyle)) {
+    return styleInfo(cslStyle, parseXml(templates().get(cslStyle)).root);
+  }
+  const xml = readStyle(cslStyle);
+  return styleInfo(customName(xml), checkStyle(xml, cslStyle));
+}
+
+/**
+ * Check that CSL XML is well-formed and has the elements citeproc needs: a
+ * `<style>` root in the CSL namespace with `version` and `class`, `<info>`
+ * with `<title>` and `<id>`, and `<citation>` with a `<layout>`.  Dependent
+ * styles and references to undefined macros are rejected as well.
+ *
+ * @throws {StyleError} listing every problem found, with line numbers
+ */
+export function validateStyle(xml: string): void {
+  checkStyle(xml, xml);
+}
+
+/**
+ * Resolve a `cslStyle` option to the name of a registered CSL template,
+ * and register it first if needed.  Accepts a template name, a path to a
+ * `.csl` file, or CSL XML, which is validated and registered under a name
+ * derived from its content.
+ *
+ * @throws {StyleError} for unknown or invalid styles
+ */
+export function registerStyle(cslStyle: string = DEFAULT_STYLE): string {
+  if (templateExists(cslStyle)) return cslStyle;
+
+  const xml = readStyle(cslStyle);
+  const name = customName(xml);
+  if (!templateExists(name)) {
+    checkStyle(xml, cslStyle);
+    templates().add(name, xml);
+  }
+  return name;
+}
+
+/**
+ * Remove a registered style, e.g. one registered from user-provided XML
+ * that is no longer needed, together with the citeproc engines it was
+ * rendered with.  Bibliographies that use it throw a {@link StyleError}
+ * when they format next.  Returns whether the style was registered.
+ *
+ * @throws {StyleError} for the styles that ship with citation-js
+ */
+export function unregisterStyle(name: string): boolean {
+  if (BUILT_IN_STYLES.has(name)) {
+    throw new StyleError(`The CSL style "${name}" ships with citation-js and cannot be unregistered.`, name);
+  }
+  if (!templateExists(name)) return false;
+  releaseEngines(name);
+  forgetXmlHash(templates().get(name));
+  templates().remove(name);
+  return true;
+}
+
+/** Note a citeproc run of the style `name` in `locale`. */
+export function useStyle(name: string, locale: string): void {
+  const locales = styleLocales.get(name);
+  if (locales) locales.add(locale);
+  else styleLocales.set(name, new Set([locale]));
+}
+
+/**
+ * Resolve a `cslStyle` file path to its XML with `loader`; names and XML
+ * are returned unchanged.
+ */
+export async function loadStyle(
+  cslStyle: string | undefined,
+  loader: FileLoader,
+): Promise<string | undefined> {
+  if (!cslStyle || looksLikeXml(cslStyle) || templateExists(cslStyle)) return cslStyle;
+  const xml = await loader.readFile(cslStyle);
+  if (xml == null) throw unknownStyle(cslStyle);
+  return typeof xml === "string" ? xml : new TextDecoder().decode(xml);
+}
+
+function templates(): any {
+  return Cite.plugins.config.get("@csl").templates;
+}
+
+function templateExists(name: string): boolean {
+  const registry = templates();
+  if (typeof registry.has === "function" && registry.has(name)) return true;
+  if (Array.isArray(registry.list?.()) && registry.list().includes(name)) return true;
+  return false;
+}
+
+/**
+ * Empty the citeproc engines citation-js keeps for a style.  Its engine
+ * cache can't be reached, but it builds a new engine in place of anything
+ * that isn't one, so the emptied engines are dropped on reuse and hold no
+ * memory until then.
+ */
+function releaseEngines(name: string): void {
+  const prepareEngine = Cite.plugins.config.get("@csl").engine;
+  for (const locale of styleLocales.get(name) ?? []) {
+    // Returns the cached engine of the style and locale.
+    const engine: Record<string, unknown> = prepareEngine([], name, locale, "html");
+    for (const key of Object.keys(engine)) delete engine[key];
+    Object.setPrototypeOf(engine, Object.prototype);
+  }
+  styleLocales.delete(name);
+}
+
+function customName(xml: string): string {
+  return `custom-${hashString(xml)}`;
+}
+
+/** The XML of a `cslStyle` that is not a registered name. */
+function readStyle(cslStyle: string): string {
+  const xml = looksLikeXml(cslStyle) ? cslStyle : readFileIfExists(cslStyle);
+  if (!xml) throw unknownStyle(cslStyle);
+  return xml;
+}
+
+function styleInfo(name: string, style: XmlElement | undefined): StyleInfo {
+  const info = style && childElement(style, "info");
+  const text = (element: string) => (info && childElement(info, element)?.text.trim()) || null;
+  const category = info?.children.find(
+    (child) => child.name === "category" && child.attributes["citation-format"],
+  );
+  return {
+    name,
+    title: text("title"),
+    id: text("id"),
+    class: style?.attributes.class ?? null,
+    citationFormat: category?.attributes["citation-format"] ?? null,
+    defaultLocale: style?.attributes["default-locale"] ?? null,
+    builtIn: BUILT_IN_STYLES.has(name),
+  };
+}
+
+/** Parse and validate style XML, or throw a {@link StyleError}. */
+function checkStyle(xml: string, cslStyle: string): XmlElement {
+  const parsed = parseXml(xml);
+  const problems = parsed.root
+    ? styleProblems(parsed.root)
+    : [`line ${parsed.line}: ${parsed.error}`];
+  if (problems.length) {
+    const what = looksLikeXml(cslStyle) ? "XML" : `"${cslStyle}"`;
+    throw new StyleError(
+      `Invalid CSL style ${what}:\n${problems.map((problem) => `  ${problem}`).join("\n")}`,
+      cslStyle,
+    );
+  }
+  return parsed.root!;
+}
+
+function styleProblems(style: XmlElement): string[] {
+  const problems: string[] = [];
+  const report = (element: XmlElement, problem: string) => {
+    problems.push(`line ${element.line}: ${problem}`);
+  };
+
+  if (style.name !== "style") {
+    report(style, `The root element is <${style.name}>, not <style>.`);
+    return problems;
+  }
+  const { xmlns, version, class: styleClass } = style.attributes;
+  if (xmlns !== CSL_NAMESPACE) report(style, `<style> needs xmlns="${CSL_NAMESPACE}".`);
+  if (!version) report(style, '<style> needs a version, e.g. version="1.0".');
+  if (styleClass !== "in-text" && styleClass !== "note") {
+    report(style, '<style> needs class="in-text" or class="note".');
+  }
+
+  const info = childElement(style, "info");
+  const parent = info?.children.find(
+    (child) => child.name === "link" && child.attributes.rel === "independent-parent",
+  );
+  if (parent) {
+    report(parent, `This is a dependent style. Register its parent, ${parent.attributes.href}, instead.`);
+    return problems;
+  }
+  if (!info) report(style, "<style> needs an <info> element.");
+  for (const name of ["title", "id"]) {
+    if (info && !childElement(info, name)?.text.trim()) report(info, `<info> has no <${name}>.`);
+  }
+
+  const citation = childElement(style, "citation");
+  if (!citation) report(style, "<style> needs a <citation> element.");
+  for (const element of [citation, childElement(style, "bibliography")]) {
+    if (element && !childElement(element, "layout")) report(element, `<${element.name}> needs a <layout>.`);
+  }
+
+  const macros = new Set(
+    style.children.filter((child) => child.name === "macro").map((child) => child.attributes.name),
+  );
+  const checkMacros = (element: XmlElement) => {
+    const macro = element.attributes.macro;
+    if (macro && !macros.has(macro)) report(element, `Unknown macro "${macro}".`);
+    element.children.forEach(checkMacros);
+  };
+  checkMacros(style);
+
+  return problems;
+}
+
+function unknownStyle(cslStyle: string): StyleError {
+  return new StyleError(
+    `Unknown CSL style "${cslStyle}". Provide a built-in name, file path, or CSL XML.`,
+    cslStyle,
+  );
+}
@@ -0,0 +1,229 @@
+import { decodeEntities } from "./html.js";
+import type { OutputTarget } from "./types.js";
+
+// ---------------------------------------------------------------------------
+// HTML → text / Markdown / LaTeX
+// ---------------------------------------------------------------------------
+
+type TextTarget = Exclude<OutputTarget, "html">;
+
+interface TargetSyntax {
+  escape(text: string): string;
+  emph(inner: string): string;
+  strong(inner: string): string;
+  superscript(inner: string): string;
+  subscript(inner: string): string;
+  smallCaps(inner: string): string;
+  /** `text` is the unescaped link text, used to detect bare URLs. */
+  link(inner: string, url: string, text: string): string;
+}
+
+const identity = (inner: string) => inner;
+
+const SYNTAX: Record<TextTarget, TargetSyntax> = {
+  text: {
+    escape: identity,
+    emph: identity,
+    strong: identity,
+    superscript: identity,
+    subscript: identity,
+    smallCaps: identity,
+    link: (inner, url, text) => (isBareUrl(text, url) ? url : `${inner} <${url}>`),
+  },
+  markdown: {
+    escape: (text) => text.replace(/[\\`*_[\]<>]/g, "\\$&"),
+    emph: (inner) => (inner ? `*${inner}*` : ""),
+    strong: (inner) => (inner ? `**${inner}**` : ""),
+    superscript: (inner) => (inner ? `<sup>${inner}</sup>` : ""),
+    subscript: (inner) => (inner ? `<sub>${inner}</sub>` : ""),
+    smallCaps: identity,
+    link: (inner, url, text) =>
+      isBareUrl(text, url) ? `<${url}>` : `[${inner}](${escapeMarkdownUrl(url)})`,
+  },
+  latex: {
+    escape: escapeLatex,
+    emph: (inner) => (inner ? `\\emph{${inner}}` : ""),
+    strong: (inner) => (inner ? `\\textbf{${inner}}` : ""),
+    superscript: (inner) => (inner ? `\\textsuperscript{${inner}}` : ""),
+    subscript: (inner) => (inner ? `\\textsubscript{${inner}}` : ""),
+    smallCaps: (inner) => (inner ? `\\textsc{${inner}}` : ""),
+    link: (inner, url, text) =>
+      isBareUrl(text, url)
+        ? `\\url{${escapeLatexUrl(url)}}`
+        : `\\href{${escapeLatexUrl(url)}}{${inner}}`,
+  },
+};
+
+export type FrameKind = "emph" | "strong" | "superscript" | "subscript" | "smallCaps" | "link" | "none";
+
+interface Frame {
+  name: string;
+  kind: FrameKind;
+  href?: string;
+  out: string;
+  text: string;
+}
+
+const VOID_ELEMENTS = new Set(["br", "hr", "img", "input", "meta", "link", "wbr"]);
+
+/**
+ * Convert an HTML fragment (as produced by citeproc and the decorators) to
+ * the given target.  Emphasis, links, super-/subscript and small caps map to
+ * target syntax, all other markup is dropped, and text is escaped for the
+ * target.
+ */
+export function convertHtml(html: string, target: TextTarget): string {
+  const syntax = SYNTAX[target];
+  const stack: Frame[] = [{ name: "", kind: "none", out: "", text: "" }];
+  const top = () => stack[stack.length - 1];
+
+  const close = () => {
+    const frame = stack.pop()!;
+    const parent = top();
+    parent.out += wrapFrame(frame, syntax);
+    parent.text += frame.text;
+  };
+
+  for (const token of html.split(/(<[^>]*>)/g)) {
+    if (!token) continue;
+
+    if (!token.startsWith("<")) {
+      const text = decodeEntities(token).replace(/[ \t\r\n]+/g, " ");
+      top().out += syntax.escape(text);
+      top().text += text;
+      continue;
+    }
+
+    const tag = /^<\s*(\/?)\s*([a-z0-9]+)([^>]*)>$/i.exec(token);
+    if (!tag) continue;
+    const [, closing, rawName, attrs] = tag;
+    const name = rawName.toLowerCase();
+
+    if (name === "br") {
+      top().out += "\n";
+      top().text += "\n";
+      continue;
+    }
+    if (VOID_ELEMENTS.has(name) || attrs.trim().endsWith("/")) continue;
+
+    if (closing) {
+      if (!stack.some((f, i) => i > 0 && f.name === name)) continue;
+      while (stack.length > 1 && top().name !== name) close();
+      close();
+      continue;
+    }
+
+    stack.push({ name, ...frameKind(name, attrs), out: "", text: "" });
+  }
+
+  while (stack.length > 1) close();
+  return stack[0].out.replace(/ {2,}/g, " ").trim();
+}
+
+/**
+ * Join converted entries into a list for the given target.
+ */
+export function renderTargetList(
+  items: string[],
+  target: TextTarget,
+  list: "ol" | "ul" | "div",
+  attrs: Record<string, string | boolean>,
+): string {
+  if (target === "latex" && list !== "div") {
+    const env = list === "ol" ? "enumerate" : "itemize";
+    const body = items.map((item) => `  \\item ${item}`).join("\n");
+    return `\\begin{${env}}\n${body}\n\\end{${env}}`;
+  }
+
+  if (list === "div") return items.join("\n\n");
+
+  if (list === "ul") return items.map((item) => `- ${item}`).join("\n");
+
+  // Markdown renderers number lists upwards from the first number, so a
+  // reversed list would come out wrong there.
+  const start = typeof attrs.start === "string" ? Number.parseInt(attrs.start, 10) : NaN;
+  const reversed = attrs.reversed === true && target !== "markdown";
+  const first = Number.isNaN(start) ? (reversed ? items.length : 1) : start;
+  return items
+    .map((item, index) => `${reversed ? first - index : first + index}. ${item}`)
+    .join("\n");
+}
+
+export function frameKind(name: string, attrs: string): { kind: FrameKind; href?: string } {
+  switch (name) {
+    case "i":
+    case "em":
+      return { kind: "emph" };
+    case "b":
+    case "strong":
+      return { kind: "strong" };
+    case "sup":
+      return { kind: "superscript" };
+    case "sub":
+      return { kind: "subscript" };
+    case "a": {
+      const href = /\bhref\s*=\s*"([^"]*)"/i.exec(attrs)?.[1];
+      return href ? { kind: "link", href: decodeEntities(href) } : { kind: "none" };
+    }
+    case "span":
+      if (/font-variant\s*:\s*small-caps/i.test(attrs)) return { kind: "smallCaps" };
+  }
+  return { kind: "none" };
+}
+
+function wrapFrame(frame: Frame, syntax: TargetSyntax): string {
+  switch (frame.kind) {
+    case "emph":
+      return syntax.emph(frame.out);
+    case "strong":
+      return syntax.strong(frame.out);
+    case "superscript":
+      return syntax.superscript(frame.out);
+    case "subscript":
+      return syntax.subscript(frame.out);
+    case "smallCaps":
+      return syntax.smallCaps(frame.out);
+    case "link":
+      return syntax.link(frame.out, frame.href!, frame.text);
+    case "none":
+      return frame.out;
+  }
+}
+
+function isBareUrl(text: string, url: string): boolean {
+  return text.trim() === url;
+}
+
+function escapeMarkdownUrl(url: string): string {
+  return url.replace(/[()<>\s]/g, (ch) => {
+    const hex = ch.charCodeAt(0).toString(16).toUpperCase();
+    return `%${hex.padStart(2, "0")}`;
+  });
+}
+
+const LATEX_ESCAPES: Record<string, string> = {
+  "\\": "\\textbackslash{}",
+  "{": "\\{",
+  "}": "\\}",
+  $: "\\$",
+  "&": "\\&",
+  "#": "\\#",
+  "%": "\\%",
+  _: "\\_",
+  "~": "\\textasciitilde{}",
+  "^": "\\textasciicircum{}",
+  "\u00a0": "~",
+};
+
+function escapeLatex(text: string): string {
+  return text.replace(/[\\{}$&#%_~^\u00a0]/g, (ch) => LATEX_ESCAPES[ch]);
+}
+
+/**
+ * Escape a URL for `\url` and `\href`: braces and backslashes can't be
+ * escaped there, so they are percent-encoded, and `%` and `#` get a
+ * backslash.
+ */
+function escapeLatexUrl(url: string): string {
+  return url.replace(/[{}\\]/g, encodeURIComponent).replace(/[%#]/g, "\\$&");
+}
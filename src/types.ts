@@ -9,7 +9,8 @@
  * transformed) field value.  When `match` is provided, the field value is
  * tested against it first: if it doesn't match the badge is skipped; if it
  * does, `$1` in the URL is replaced by the **first capture group** (or the
- * full match if there is no capture group).
+ * full match if there is no capture group), `$2` and on by the others.
+ * Labels and tooltips are templates too.
  *
  * @example
  * // Simple prefix-style DOI badge:
@@ -30,29 +31,319 @@
 export interface BadgeConfig {
   /** BibTeX field name to read the value from. */
   field: string;
-  /** Text to display inside the badge. */
-  label: string;
-  /** URL template — `$1` is replaced by the field value. */
-  url: string;
+  /**
+   * Text to display inside the badge, optionally per locale, or a function
+   * computing it.
+   */
+  label: LocalizedText | ((context: BadgeContext) => string);
+  /**
+   * URL template — `$1` is replaced by the field value — or a function
+   * computing the URL; returning `null` skips the badge.
+   *
+   * @example
+   * // Link the PDF of a JabRef `file` field (":papers/doe2024.pdf:PDF"):
+   * url: ({ value }) => `https://example.org/${value.split(':')[1]}`
+   */
+  url: string | ((context: BadgeContext) => string | null);
   /**
    * Optional regex applied to the field value.
    *
    * - If it **doesn't match**, the badge is skipped for that entry.
    * - If it **matches**, `$1` in the URL is replaced by the first capture
    *   group (or the full match when there are no capture groups).
+   *
+   * A string is a pattern, optionally with flags as `'/pattern/flags'`,
+   * which is how config files write it.
    */
-  match?: RegExp;
+  match?: RegExp | string;
   /** CSS class name(s) for the badge `<a>` element. */
   className?: string;
+  /**
+   * HTML rendered before the label, e.g. an inline SVG.  Inserted as is;
+   * only use trusted markup.
+   */
+  icon?: string;
+  /** Tooltip text (the `title` attribute). */
+  title?: LocalizedText;
+  /** Accessible name (the `aria-label` attribute), e.g. for icon-only badges. */
+  ariaLabel?: LocalizedText;
+  /** The `rel` attribute, e.g. `'noopener'`. */
+  rel?: string;
+  /** The `target` attribute, e.g. `'_blank'`. */
+  target?: string;
+  /**
+   * Render the badge only for entries matching this query, e.g.
+   * `'publication-status:published'`.
+   */
+  when?: Query | string;
+}
+
+/** What function-valued {@link BadgeConfig} options receive. */
+export interface BadgeContext {
+  entry: BibEntry;
+  /** The value of the badge's field. */
+  value: string;
+  /**
+   * The match of `match` (the full match, then the capture groups), or
+   * just the value without `match`.
+   */
+  match: string[];
+  /** The code of the render locale, e.g. `'en-US'`. */
+  locale: string;
+}
+
+/**
+ * Names of the built-in badge presets.  `pubmed` reads the `pmid` field and
+ * `hal` the `hal_id` field; the others read the field of their name.
+ */
+export type BadgePresetName =
+  | "doi"
+  | "arxiv"
+  | "mrnumber"
+  | "zbl"
+  | "pubmed"
+  | "pmcid"
+  | "isbn"
+  | "hal"
+  | "openalex"
+  | "semanticscholar"
+  | "orcid"
+  | "swhid"
+  | "github";
+
+/** A registered badge preset, as listed by `listBadgePresets()`. */
+export interface BadgePreset extends BadgeConfig {
+  /** The name to pass to `badgePreset()` or to use in `titleLink`. */
+  name: string;
+  /** Whether the preset ships with this package (and cannot be replaced). */
+  builtIn: boolean;
+}
+
+/**
+ * A step of the pipeline that decorates the citeproc HTML of each entry,
+ * e.g. marking recent entries or appending a note from a custom field.
+ * The built-in steps highlight authors (order 100), link the title (200)
+ * and append badges (300).
+ */
+export interface EntryDecorator {
+  /** Unique name, e.g. `'newMarker'`. */
+  name: string;
+
+  /**
+   * Position in the pipeline: lower orders run first, and decorators of
+   * equal order run in registration order.
+   * @default 1000  (after the built-in decorators)
+   */
+  order?: number;
+
+  /** Return the decorated HTML of an entry. */
+  decorate(html: string, context: DecoratorContext): string;
+}
+
+/** What an {@link EntryDecorator} gets to know about the entry it decorates. */
+export interface DecoratorContext {
+  entry: BibEntry;
+  /** The options of the format call. */
+  options: FormatOptions;
+  /** The code of the render locale, e.g. `'en-US'`. */
+  locale: string;
+  /**
+   * Apply `transform` to the text between the tags of the HTML, except
+   * inside links — the way author highlighting and title linking do.
+   * Text is HTML-escaped as citeproc emits it.
+   */
+  mapText(transform: (text: string) => string): string;
+}
+
+/** A registered entry decorator, as listed by `listDecorators()`. */
+export interface DecoratorInfo extends EntryDecorator {
+  order: number;
+  /** Whether the decorator is one that ships with this package, possibly at another order. */
+  builtIn: boolean;
+}
+
+/**
+ * Text in one or more languages: a plain string, or a map from locale
+ * codes (`'de-DE'`) or languages (`'de'`) to text, e.g.
+ * `{ en: 'Preprint', de: 'Vorabdruck' }`.  Missing locales fall back to the
+ * language, then to English.
+ */
+export type LocalizedText = string | Record<string, string>;
+
+/** Output formats supported by {@link Bibliography.format}. */
+export type OutputTarget = "html" | "text" | "markdown" | "latex";
+
+/**
+ * One cited work within a citation cluster.  A plain string is shorthand
+ * for `{ key }`.
+ *
+ * @example
+ * { key: 'doe:2024:gadgets', locator: '4', prefix: 'see ' }
+ * { key: 'doe:2024:gadgets', locator: '2', label: 'chapter', suppressAuthor: true }
+ */
+export interface CitationItem {
+  /** Citation key of the entry. */
+  key: string;
+  /** Pinpoint locator, e.g. `'4'` or `'33-35'`. */
+  locator?: string;
+  /**
+   * CSL locator label (`'page'`, `'chapter'`, `'section'`, `'figure'`, …).
+   * @default 'page'
+   */
+  label?: string;
+  /** Text rendered before the item, e.g. `'see '`. */
+  prefix?: string;
+  /** Text rendered after the item, e.g. `', emphasis added'`. */
+  suffix?: string;
+  /** Omit the author, e.g. "Doe argues (2024)". */
+  suppressAuthor?: boolean;
+  /** Render only the author. */
+  authorOnly?: boolean;
+}
+
+/** Options for rendering a single citation cluster. */
+export interface CiteOptions {
+  /**
+   * Render the cluster as an in-text (narrative) citation, e.g.
+   * `Doe (2024)` instead of `(Doe, 2024)`.
+   * @default false
+   */
+  inText?: boolean;
+  /**
+   * Footnote number the citation appears in, for note styles.  Citations
+   * sharing a note index are treated as one note.
+   */
+  noteIndex?: number;
+  /**
+   * Output format of the rendered citation.
+   * @default 'html'
+   */
+  target?: OutputTarget;
+}
+
+/** Options for {@link Bibliography.createCitationContext}. */
+export interface CitationContextOptions {
+  /**
+   * Place every cluster in its own footnote (note index 1, 2, …) unless
+   * {@link CiteOptions.noteIndex} is given.  Needed for note styles that
+   * render "ibid." and subsequent short forms.
+   * @default false
+   */
+  notes?: boolean;
+  /**
+   * Default output format of rendered citations.
+   * @default 'html'
+   */
+  target?: OutputTarget;
+  /**
+   * Locale of the citations and the bibliography, overriding
+   * {@link BibliographyOptions.locale}.
+   */
+  locale?: string;
+  /**
+   * CSL style of the citations and the bibliography, overriding
+   * {@link BibliographyOptions.cslStyle}.
+   */
+  cslStyle?: string;
+}
+
+/** Options for {@link processCitations}. */
+export interface ProcessCitationsOptions {
+  /**
+   * Document format.  Markdown documents get Markdown citations and
+   * references; code blocks and code spans are left alone.  In HTML
+   * documents, markup and `<code>`, `<pre>`, `<script>` and `<style>`
+   * contents are left alone.
+   *
+   * @default 'markdown'
+   */
+  format?: "markdown" | "html";
+  /**
+   * Treat each citation as its own footnote (for note styles).
+   * @default false
+   */
+  notes?: boolean;
+  /**
+   * Options for the appended bibliography, or `false` to omit it.
+   */
+  bibliography?: FormatOptions | false;
+}
+
+/** A problem found while processing a document. */
+export interface CitationWarning {
+  /** Kind of problem. */
+  code: "unknown-key";
+  /** The citation key involved. */
+  key: string;
+  /** 1-based line of the citation marker. */
+  line: number;
+  /** 1-based column of the citation marker. */
+  column: number;
+  /** Human-readable description. */
+  message: string;
+}
+
+/** Result of {@link processCitations}. */
+export interface ProcessedDocument {
+  /** The document with citations and bibliography rendered. */
+  output: string;
+  /** Keys of all cited entries, in order of first citation. */
+  citedKeys: string[];
+  /** Problems found while processing, e.g. unknown keys. */
+  warnings: CitationWarning[];
+}
+
+/**
+ * A person whose name should be highlighted in rendered author lists.
+ *
+ * @example
+ * { family: 'Doe', given: 'Jane',
+ *   variants: [{ family: 'Doe-Smith', given: 'Jane' }],
+ *   orcid: '0000-0002-1825-0097' }
+ */
+export interface AuthorIdentity {
+  /** Family name, including particles (e.g. `'de la Cruz'`). */
+  family: string;
+  /**
+   * Given name(s).  Initials (`J.`, `J. M.`, `JM`) are derived
+   * automatically, so the full given name is enough for most styles.
+   */
+  given?: string;
+  /** Alternative spellings (maiden names, transliterations, …). */
+  variants?: Array<{ family: string; given?: string }>;
+  /**
+   * ORCID iD used to disambiguate people with the same name.  When an
+   * entry has one of the `orcidFields`, it is only highlighted if the iD is
+   * listed there; entries without such a field fall back to name matching.
+   */
+  orcid?: string;
+  /**
+   * Raw fields listing ORCID iDs of the entry's authors.
+   * @default ['orcid']
+   */
+  orcidFields?: string[];
 }
 
 /** Options passed to {@link Bibliography.formatHtml}. */
 export interface FormatOptions {
   /**
-   * Fields to use for linking the title, checked in order.
-   * A `doi` value is expanded to `https://doi.org/<value>`, an `arxiv`
-   * value to `https://arxiv.org/abs/<value>`, and direct values are only
-   * accepted when they use `http`, `https`, or `mailto`.
+   * CSL style for this call, overriding {@link BibliographyOptions.cslStyle};
+   * accepts the same values.  File paths are read synchronously.
+   */
+  cslStyle?: string;
+
+  /**
+   * Locale for this call, overriding {@link BibliographyOptions.locale};
+   * accepts the same values.
+   */
+  locale?: string;
+
+  /**
+   * Fields to use for linking the title, checked in order.  A field
+   * holding an `http`, `https` or `mailto` URL links to it.  Names of badge
+   * presets (see `badgePreset()`) read the preset's field and link like
+   * its badge, e.g. `doi` to `https://doi.org/<doi>` and `pubmed` to the
+   * PubMed page of the `pmid`.
    *
    * @default ['url', 'doi', 'arxiv']
    */
@@ -61,6 +352,35 @@ export interface FormatOptions {
   /** Badge configurations to append to each entry. */
   badges?: BadgeConfig[];
 
+  /**
+   * Element wrapping the badges of an entry, e.g. `'div'`, or `false` for
+   * none.  Must be a plain element name.
+   * @default 'span'
+   */
+  badgeWrapper?: string | false;
+
+  /**
+   * CSS class name(s) for the badge wrapper.
+   * @default 'bib-links'
+   */
+  badgeWrapperClass?: string;
+
+  /**
+   * Authors whose names are highlighted (wrapped in `highlightElement`)
+   * wherever they appear in an entry's author or editor list.
+   */
+  highlightAuthors?: AuthorIdentity | AuthorIdentity[];
+
+  /**
+   * Element used for highlighted author names.  Must be a plain element
+   * name.
+   * @default 'strong'
+   */
+  highlightElement?: string;
+
+  /** CSS class name(s) for the highlight element. */
+  highlightClass?: string;
+
   /**
    * Wrapper list element.
    * @default 'ol'
@@ -82,6 +402,431 @@ export interface FormatOptions {
    * @default true
    */
   linkifyUrls?: boolean;
+
+  /**
+   * Decorators for this call, run together with the registered ones (see
+   * `registerDecorator()`) in the order of their `order`.  One with the name
+   * of a registered decorator, built-ins included, replaces it for this
+   * call; names must be unique.
+   */
+  decorators?: EntryDecorator[];
+}
+
+/**
+ * Options passed to {@link Bibliography.format}.
+ *
+ * For non-HTML targets the `list` option maps to a numbered list (`ol`), a
+ * bullet list (`ul`), or blank-line separated paragraphs (`div`).
+ */
+export interface TargetFormatOptions extends FormatOptions {
+  /**
+   * Output format.  Title links and badges become `[title](url)` in
+   * Markdown, `\href{url}{title}` in LaTeX, and `title <url>` in plain
+   * text; all text is escaped for the target.
+   *
+   * @default 'html'
+   */
+  target?: OutputTarget;
+}
+
+/**
+ * A piece of rendered entry content: text, or an element with children.
+ * Element types follow the citeproc output (`emph`, `strong`,
+ * `superscript`, `subscript`, `smallCaps`, `link`) plus the decorations of
+ * this package (`title`, `highlight`).
+ */
+export type StructuredNode = string | StructuredElement;
+
+/** See {@link StructuredNode}. */
+export interface StructuredElement {
+  type:
+    | "emph"
+    | "strong"
+    | "superscript"
+    | "subscript"
+    | "smallCaps"
+    | "link"
+    | "title"
+    | "highlight";
+  /** The target of a `link`, and of a `title` that has a title link. */
+  url?: string;
+  children: StructuredNode[];
+}
+
+/** A badge of a {@link StructuredEntry}, resolved from a {@link BadgeConfig}. */
+export interface StructuredBadge {
+  field: string;
+  /** The label in the render locale. */
+  label: string;
+  url: string;
+  className: string | null;
+  /** The icon HTML. */
+  icon: string | null;
+  /** The tooltip in the render locale. */
+  title: string | null;
+  /** The accessible name in the render locale. */
+  ariaLabel: string | null;
+  rel: string | null;
+  target: string | null;
+}
+
+/**
+ * One entry as returned by {@link Bibliography.formatStructured}: plain,
+ * JSON-serializable data for components that render entries themselves.
+ */
+export interface StructuredEntry {
+  key: string;
+  entryType: string;
+  year: number | null;
+  custom: Record<string, string>;
+  /** The label numeric styles print before the entry, e.g. `'1.'`. */
+  label: string | null;
+  /** The citeproc output, with the title and highlighted authors marked. */
+  content: StructuredNode[];
+  /** The title and its resolved title link, if the style renders a title. */
+  title: { text: string; url: string | null } | null;
+  badges: StructuredBadge[];
+}
+
+/**
+ * A single test against one entry field.  All operators given on the same
+ * predicate must hold.  For list-valued fields (e.g. `author`) the predicate
+ * holds when **any** element satisfies it.
+ *
+ * The `field` is resolved as follows: `year`, `key`, `type` (CSL type),
+ * `author`/`editor` (family names), explicit `custom.<name>`, `raw.<name>`
+ * or `csl.<name>`, and otherwise `custom`, then `raw`, then `csl`.
+ *
+ * @example
+ * { field: 'year', gte: 2020 }
+ * { field: 'author', equals: 'Doe' }
+ * { field: 'csl.container-title', matches: /widget/i }
+ * { field: 'doi', exists: true }
+ */
+export interface FieldPredicate {
+  /** Field to test. */
+  field: string;
+  /** Exact equality (numbers compare numerically). */
+  equals?: string | number;
+  /** Equality with any of the given values. */
+  in?: Array<string | number>;
+  /** Case-insensitive substring match. */
+  contains?: string;
+  /** Regular expression match (strings are compiled without flags). */
+  matches?: RegExp | string;
+  /** Field presence (`true`) or absence (`false`). */
+  exists?: boolean;
+  /** Greater than (numbers compare numerically, strings lexically). */
+  gt?: string | number;
+  /** Greater than or equal. */
+  gte?: string | number;
+  /** Less than. */
+  lt?: string | number;
+  /** Less than or equal. */
+  lte?: string | number;
+}
+
+/**
+ * A filter query: a field predicate or an `and`/`or`/`not` combination of
+ * queries.
+ *
+ * @example
+ * { and: [
+ *   { field: 'year', gte: 2020 },
+ *   { or: [
+ *     { field: 'type', equals: 'article-journal' },
+ *     { field: 'publication-status', equals: 'preprint' },
+ *   ] },
+ * ] }
+ */
+export type Query =
+  | { and: Query[] }
+  | { or: Query[] }
+  | { not: Query }
+  | FieldPredicate;
+
+/** Options for {@link Bibliography.filter} and query compilation. */
+export interface QueryOptions {
+  /**
+   * Field name aliases, e.g. `{ status: 'publication-status' }`, applied
+   * to every predicate field.
+   */
+  aliases?: Record<string, string>;
+}
+
+/**
+ * One sort criterion for {@link Bibliography.sort}.
+ *
+ * Besides any field accepted by queries (custom, raw and CSL fields), the
+ * following keys are understood:
+ *
+ * - `year`, `month`, `day` — parts of the CSL `issued` date
+ * - `issued` — the full `issued` date (year, month, day)
+ * - `author`, `editor` — first name in the list, family then given name
+ * - `title` — the CSL title, ignoring leading articles and punctuation
+ */
+export interface SortKey {
+  /** Field to sort by. */
+  by: string;
+  /**
+   * Sort direction.
+   * @default the `order` of {@link SortOptions}
+   */
+  order?: "asc" | "desc";
+  /**
+   * Placement of entries without a value, regardless of `order`.
+   * @default the `missing` of {@link SortOptions}
+   */
+  missing?: "first" | "last";
+  /**
+   * Explicit ordering for enumerated values, e.g.
+   * `['published', 'accepted', 'submitted', 'preprint']`.  Values not
+   * listed sort after the listed ones.
+   */
+  ordering?: string[];
+}
+
+/** Options passed to {@link Bibliography.sort}. */
+export interface SortOptions {
+  /**
+   * Sort key(s), compared in turn until one differs.
+   * @default 'year'
+   */
+  by?: string | SortKey | Array<string | SortKey>;
+  /**
+   * Default direction for keys without their own `order`.
+   * @default 'desc'
+   */
+  order?: "asc" | "desc";
+  /**
+   * Default placement of missing values.
+   * @default 'last'
+   */
+  missing?: "first" | "last";
+  /**
+   * Locale(s) for string collation via `Intl.Collator`.
+   * @default the runtime default locale
+   */
+  locale?: string | string[];
+}
+
+/**
+ * Options passed to {@link Bibliography.formatGroupedHtml}.
+ *
+ * All {@link FormatOptions} apply to the list rendered inside each section.
+ */
+export interface GroupOptions extends FormatOptions {
+  /**
+   * Grouping key: `'year'`, `'type'` (the CSL item type), or the name of
+   * one of the declared `customFields`.
+   */
+  by: string;
+
+  /**
+   * Group order.  An array lists group keys explicitly (unlisted groups
+   * follow in order of first appearance); `'asc'`/`'desc'` sort the keys.
+   *
+   * @default 'desc' for `year`, order of first appearance otherwise
+   */
+  order?: string[] | "asc" | "desc";
+
+  /**
+   * Heading labels, either as a key → label map or a function.  Keys
+   * without a label are shown as-is; entries lacking the grouping value are
+   * collected under the `''` key, headed "Undated" (for `year`) or "Other"
+   * in the language of the `locale`.
+   */
+  labels?: Record<string, string> | ((key: string) => string);
+
+  /**
+   * Heading level (`1`–`6`) for the group headings.
+   * @default 2
+   */
+  headingLevel?: 1 | 2 | 3 | 4 | 5 | 6;
+
+  /**
+   * Prefix for the `id` attribute of each section, used as anchor.  The
+   * rest is the group key in lower-case ASCII (`group-<n>` for keys without
+   * letters or digits), with `-2`, `-3`, … for repeats.
+   * @default 'bib-'
+   */
+  idPrefix?: string;
+
+  /**
+   * Continue `<ol>` numbering across groups instead of restarting it in
+   * every section.  Respects `reversed` and a `start` value in
+   * `listAttributes`, and renders all groups in one citeproc run so
+   * numeric style labels continue as well.
+   *
+   * @default false
+   */
+  continueNumbering?: boolean;
+}
+
+/** A set of entries sharing the same grouping value. */
+export interface EntryGroup {
+  /** Grouping value (`''` for entries without a value). */
+  key: string;
+  /** Heading label for the group. */
+  label: string;
+  /** Entries of the group, in input order. */
+  entries: BibEntry[];
+}
+
+/** Options for {@link Bibliography.toBibtex}. */
+export interface BibtexExportOptions {
+  /**
+   * Fields to write first, in this order (case-insensitive).  All other
+   * fields follow in their original order.
+   *
+   * @example ['author', 'title', 'year']
+   */
+  fieldOrder?: string[];
+
+  /** Fields to leave out, e.g. private notes (case-insensitive). */
+  omitFields?: string[];
+
+  /**
+   * Indentation of field lines — a number of spaces or a literal string.
+   *
+   * @default 2
+   */
+  indent?: number | string;
+
+  /**
+   * Value delimiters.  With `'quotes'`, values containing a top-level `"`
+   * still use braces.
+   *
+   * @default 'braces'
+   */
+  delimiter?: "braces" | "quotes";
+
+  /**
+   * Pad field names so that the `=` signs line up.
+   *
+   * @default false
+   */
+  align?: boolean;
+}
+
+/** Severity of a validation {@link Diagnostic}. */
+export type DiagnosticSeverity = "error" | "warning" | "info";
+
+/** One problem found by a {@link ValidationRule}. */
+export interface RuleFinding {
+  /** The field concerned, if any. */
+  field?: string;
+  severity: DiagnosticSeverity;
+  message: string;
+}
+
+/** A problem with an entry, as reported by {@link Bibliography.validate}. */
+export interface Diagnostic extends RuleFinding {
+  /** Citation key of the entry. */
+  key: string;
+  /** Name of the rule that reported it. */
+  rule: string;
+}
+
+/** Settings shared by all rules of one validation run. */
+export interface ValidationContext {
+  /** Badges to check, from {@link ValidateOptions.badges}. */
+  badges: BadgeConfig[];
+  /** Per-field rules, from {@link ValidateOptions.fields}. */
+  fields: Record<string, FieldRule>;
+}
+
+/**
+ * A validation rule.  `check` returns the problems found in one entry.
+ *
+ * @example
+ * const needsProject: ValidationRule = {
+ *   name: 'project',
+ *   check: (entry) => entry.custom.project ? [] : [
+ *     { field: 'project', severity: 'info', message: 'No project assigned.' },
+ *   ],
+ * };
+ */
+export interface ValidationRule {
+  name: string;
+  check(entry: BibEntry, context: ValidationContext): RuleFinding[];
+}
+
+/** Constraints on one field (custom, raw or CSL; see {@link getFieldValue}). */
+export interface FieldRule {
+  /** Report entries without the field. */
+  required?: boolean;
+  /** Values the field may take. */
+  allowed?: string[];
+  /** Pattern the value must match. */
+  pattern?: RegExp;
+  /** @default 'error' */
+  severity?: DiagnosticSeverity;
+}
+
+/** Options for {@link Bibliography.validate}. */
+export interface ValidateOptions {
+  /**
+   * Rules to run.  Extend the built-ins with
+   * `[...defaultValidationRules, myRule]`.
+   *
+   * @default defaultValidationRules
+   */
+  rules?: readonly ValidationRule[];
+
+  /**
+   * Per-field rules.
+   *
+   * @example { 'publication-status': { required: true, allowed: ['published', 'preprint'] } }
+   */
+  fields?: Record<string, FieldRule>;
+
+  /** Badges to check for values that never render. */
+  badges?: BadgeConfig[];
+}
+
+/** How two entries were found to be duplicates. */
+export type DuplicateReason = "doi" | "arxiv" | "title";
+
+/** Options for {@link Bibliography.findDuplicates}. */
+export interface DuplicateOptions {
+  /**
+   * Minimum confidence (0–1) of a match.  DOI and arXiv matches have
+   * confidence 1; title matches are scored by similarity, year and first
+   * author.
+   *
+   * @default 0.85
+   */
+  threshold?: number;
+
+  /**
+   * Which kinds of evidence to use.
+   *
+   * @default ['doi', 'arxiv', 'title']
+   */
+  by?: DuplicateReason[];
+}
+
+/** Options for {@link Bibliography.dedupe}. */
+export interface DedupeOptions extends DuplicateOptions {
+  /**
+   * Which entry of a cluster to keep; fields it lacks are added from the
+   * others.  `'first'` keeps the first in input order, `'most-complete'`
+   * the one with the most fields.
+   *
+   * @default 'first'
+   */
+  merge?: "first" | "most-complete";
+}
+
+/** Entries that likely describe the same work. */
+export interface DuplicateCluster {
+  /** The entries, in input order. */
+  entries: BibEntry[];
+  /** Confidence (0–1) of the weakest match joining the cluster. */
+  confidence: number;
+  /** The kinds of evidence that matched. */
+  reasons: DuplicateReason[];
 }
 
 /** A bibliography entry enriched with custom BibTeX fields. */
@@ -90,6 +835,20 @@ export interface BibEntry {
   csl: Record<string, any>;
   /** The BibTeX citation key. */
   key: string;
+  /**
+   * The entry type in the source format: the BibTeX entry type as parsed
+   * (lowercase, e.g. `'article'`), the CSL `type`, or the RIS `TY` value.
+   */
+  entryType: string;
+  /** The format the entry was parsed from. */
+  inputFormat: InputFormat;
+  /**
+   * The file the entry was read from, or `null` for inline data.  Merged
+   * duplicates keep the source of their first occurrence.
+   */
+  source: string | null;
+  /** 1-based line of the entry in its source, when known (not for CSL-JSON). */
+  line: number | null;
   /** Publication year (extracted from CSL `issued`). */
   year: number | null;
   /**
@@ -97,22 +856,85 @@ export interface BibEntry {
    * Only fields that are present on the entry appear here.
    */
   custom: Record<string, string>;
-  /** The full raw BibTeX properties (unfiltered). */
+  /**
+   * All fields as found in the source (unfiltered): BibTeX properties, the
+   * CSL-JSON object, or RIS tags.
+   */
   raw: Record<string, any>;
 }
 
+/**
+ * Supported input formats.  BibTeX and BibLaTeX are parsed the same way;
+ * detection reports both as `'bibtex'`.
+ */
+export type InputFormat = "bibtex" | "biblatex" | "csl-json" | "ris";
+
+/**
+ * A record that appeared in only one pass of the two-pass parse:
+ *
+ * - `missing: 'csl'` — the raw parse found the entry but citation-js
+ *   produced no CSL item for it, so it is not in `entries`;
+ * - `missing: 'raw'` — citation-js produced a CSL item without raw fields,
+ *   so its entry has `raw: {}`.
+ */
+export interface UnmatchedEntry {
+  key: string;
+  source: string | null;
+  line: number | null;
+  missing: "csl" | "raw";
+}
+
+/**
+ * What to do when several entries share a citation key:
+ *
+ * - `'error'` — throw
+ * - `'keep'` — keep all of them; `getEntry()` returns the first
+ * - `'first'` / `'last'` — keep the first / last occurrence
+ * - `'merge'` — keep the first occurrence and add the fields it lacks from
+ *   later ones
+ */
+export type DuplicateKeyPolicy = "error" | "keep" | "first" | "last" | "merge";
+
 /** Options for constructing a {@link Bibliography}. */
 export interface BibliographyOptions {
   /**
-   * BibTeX input — either a raw BibTeX string or a file path.
-   * When a file path is given, it is read synchronously at construction time.
+   * Bibliography input — a string (BibTeX, BibLaTeX, CSL-JSON or RIS), a
+   * file path, a glob pattern (e.g. `'refs/*.bib'`), or an array of these.
+   * Files are read synchronously at construction time and merged into one
+   * list of entries, in order; see {@link Bibliography.load} for async
+   * reading.  Outside Node, every string is inline data.
+   */
+  data: string | string[];
+
+  /**
+   * How to handle entries with the same citation key, within or across
+   * sources.
+   *
+   * @default 'keep' for a single source, 'error' when several are merged
+   */
+  duplicateKeys?: DuplicateKeyPolicy;
+
+  /**
+   * Skip entries that fail to parse instead of throwing, and collect the
+   * errors in {@link Bibliography.parseErrors}.  Duplicate keys under the
+   * `'error'` policy are collected too (the first occurrence is kept).
+   *
+   * @default false
+   */
+  lenient?: boolean;
+
+  /**
+   * Format of `data`.  `'auto'` detects it from the content; an explicit
+   * format throws if the content looks different.
+   *
+   * @default 'auto'
    */
-  data: string;
+  format?: InputFormat | "auto";
 
   /**
    * CSL style — a built-in template name (e.g. `'apa'`), raw CSL XML, or a
    * file path to a `.csl` file.  When a file path is given, it is read
-   * synchronously.
+   * synchronously (asynchronously with {@link Bibliography.load}).
    *
    * When raw XML is provided, it is registered under an internal
    * deterministic name (based on content hash) and used automatically by
@@ -123,11 +945,226 @@ export interface BibliographyOptions {
   cslStyle?: string;
 
   /**
-   * BibTeX field names to preserve through the citation-js pipeline.
-   * These are extracted from the raw BibTeX parse and made available on
-   * each {@link BibEntry} under `.custom`.
+   * CSL locale for terms, dates and punctuation, and for the group
+   * headings and badge labels this package generates.  A registered code
+   * (citation-js ships `'en-US'`, `'de-DE'`, `'fr-FR'`, `'nl-NL'` and
+   * `'es-ES'`; a language such as `'de'` picks the first match), a path to
+   * a CSL locale file, or locale XML.  Locale XML is registered under its
+   * `xml:lang`, replacing a locale with the same code.
+   *
+   * @default 'en-US'
+   */
+  locale?: string;
+
+  /**
+   * Field names to preserve through the citation-js pipeline.
+   * These are extracted from the raw parse and made available on
+   * each {@link BibEntry} under `.custom`.  For CSL-JSON, fields nested in
+   * a `custom` object are found too; for RIS, use tag names (e.g. `'C1'`).
    *
    * Common examples: `['publication-status', 'arxiv', 'mrnumber', 'project']`.
    */
   customFields?: string[];
+
+  /**
+   * Where to keep citeproc output, keyed by the CSL data of the rendered
+   * entries, the style and the locale.  Use `createFileRenderCache(dir)` to
+   * persist renders across builds, or `false` to always render.
+   *
+   * @default a memory cache shared by all bibliographies, of at most 500
+   *   runs and 16 MiB
+   */
+  renderCache?: RenderCache | false;
+}
+
+/** The CSL id and citeproc HTML of one entry. */
+export type RenderedEntry = [id: string, html: string];
+
+/**
+ * Storage for the output of citeproc runs; see
+ * {@link BibliographyOptions.renderCache}.  Keys are hex strings.
+ */
+export interface RenderCache {
+  get(key: string): RenderedEntry[] | undefined;
+  set(key: string, rendered: RenderedEntry[]): void;
+}
+
+/**
+ * One input of {@link Bibliography.load}: a string as in
+ * {@link BibliographyOptions.data}, or UTF-8 bytes — a `Uint8Array` (incl.
+ * Node `Buffer`), a web `ReadableStream` or any async iterable such as a
+ * Node stream.
+ */
+export type DataSource =
+  | string
+  | Uint8Array
+  | ReadableStream<Uint8Array>
+  | AsyncIterable<string | Uint8Array>;
+
+/**
+ * Reads files for {@link Bibliography.load}.  Implement this to read from
+ * `fetch`, a virtual file system or a KV store where `node:fs` is missing.
+ */
+export interface FileLoader {
+  /**
+   * Read a data or CSL file.  Return `null` when there is no such file, so
+   * that the string is treated as inline data (or a glob pattern).
+   */
+  readFile(path: string): Promise<string | Uint8Array | null>;
+
+  /**
+   * Expand a glob pattern to file paths, in order.  Without it, glob
+   * patterns throw.
+   */
+  glob?(pattern: string): Promise<string[]>;
+}
+
+/** Options of {@link Bibliography.load}. */
+export interface LoadOptions extends Omit<BibliographyOptions, "data"> {
+  /** Bibliography input; strings are resolved through {@link loader}. */
+  data: DataSource | DataSource[];
+
+  /**
+   * How to read files.
+   *
+   * @default nodeFileLoader (`node:fs/promises`)
+   */
+  loader?: FileLoader;
 }
+
+/** Options of {@link Bibliography.watch}. */
+export interface WatchOptions extends BibliographyOptions {
+  /**
+   * Milliseconds to wait after a file change before re-reading, so that a
+   * burst of changes (e.g. an editor's save) causes one reload.
+   *
+   * @default 100
+   */
+  debounce?: number;
+}
+
+/**
+ * A registered CSL style, as listed by `listStyles()`.  The metadata comes
+ * from the style's `<info>` block and is `null` where the style lacks it.
+ */
+export interface StyleInfo {
+  /** The template name to pass as `cslStyle`. */
+  name: string;
+  /** The style's `<title>`, e.g. `'American Psychological Association 7th edition'`. */
+  title: string | null;
+  /** The style's `<id>`, usually its URL in the Zotero style repository. */
+  id: string | null;
+  /** `'in-text'` or `'note'`. */
+  class: string | null;
+  /** `'author-date'`, `'numeric'`, `'note'`, `'label'` or `'author'`. */
+  citationFormat: string | null;
+  /** The locale the style prefers, e.g. `'en-GB'`. */
+  defaultLocale: string | null;
+  /** Whether the style ships with citation-js (and cannot be unregistered). */
+  builtIn: boolean;
+}
+
+/**
+ * The grouping of a {@link ViewConfig}: the {@link GroupOptions} that aren't
+ * format options, or just the grouping key.
+ */
+export type ViewGroupOptions = string | Omit<GroupOptions, keyof FormatOptions>;
+
+/**
+ * One rendering of a project's entries, e.g. the publication list or the
+ * talks page.  Format options apply on top of the project's `defaults`.
+ */
+export interface ViewConfig extends FormatOptions {
+  /**
+   * Entries to include: a query string, a structured {@link Query}, or a
+   * custom field → value record as for {@link Bibliography.filter}.
+   *
+   * @default all entries
+   */
+  filter?: string | Query | Record<string, string>;
+
+  /**
+   * Sort order: {@link SortOptions}, or keys as a string such as
+   * `'year:desc,author:asc'` (see `parseSortKeys`).
+   *
+   * @default { by: 'year', order: 'desc' }
+   */
+  sort?: string | SortOptions;
+
+  /** Render one section per group; `html` and `json` output only. */
+  group?: ViewGroupOptions;
+
+  /**
+   * Output format; `'json'` is the output of
+   * {@link Bibliography.formatStructured}, as an array of groups when
+   * grouped.
+   *
+   * @default 'html'
+   */
+  target?: OutputTarget | "json";
+
+  /** File to write the output to, relative to the config file. */
+  output?: string;
+}
+
+/**
+ * A project config file: the bibliography and the views rendered from it.
+ * Paths (`data`, `.csl` and locale files, view `output`) are relative to
+ * the config file.
+ *
+ * @example
+ * {
+ *   data: 'refs/*.bib',
+ *   customFields: ['publication-status', 'arxiv'],
+ *   defaults: { badges: [{ field: 'arxiv', label: 'arXiv',
+ *     url: 'https://arxiv.org/abs/$1', match: '^(.+?)(?:v\\d+)?$' }] },
+ *   views: {
+ *     papers: { filter: 'publication-status:published', group: 'year',
+ *       output: 'site/papers.html' },
+ *     preprints: { filter: 'publication-status:preprint', target: 'markdown' },
+ *   },
+ * }
+ */
+export interface ProjectConfig extends Omit<BibliographyOptions, "renderCache"> {
+  /** Format options shared by all views. */
+  defaults?: FormatOptions;
+
+  /** Field name aliases for the `filter` of every view. */
+  aliases?: Record<string, string>;
+
+  /** The views by name, rendered in this order. */
+  views: Record<string, ViewConfig>;
+}
+
+/** Options of `renderProject()`. */
+export interface RenderProjectOptions {
+  /**
+   * How to read data, style and locale files (and the config file).
+   *
+   * @default nodeFileLoader (`node:fs/promises`)
+   */
+  loader?: FileLoader;
+
+  /** See {@link BibliographyOptions.renderCache}. */
+  renderCache?: RenderCache | false;
+
+  /**
+   * Write each view with an `output` file to it.
+   *
+   * @default true
+   */
+  write?: boolean;
+}
+
+/** The result of one view of a project. */
+export interface RenderedView {
+  /** The view name. */
+  name: string;
+  /** The selected entries, sorted. */
+  entries: BibEntry[];
+  /** The rendered output. */
+  output: string;
+  /** The resolved `output` file, or `null`. */
+  file: string | null;
+}
+
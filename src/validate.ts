@@ -0,0 +1,174 @@
+import { badgeName, resolveBadge } from "./badges.js";
+import { getFieldValue } from "./fields.js";
+import { sanitizeUrl } from "./html.js";
+import { normalizeArxivId, normalizeDoi } from "./identifiers.js";
+import type {
+  BibEntry,
+  Diagnostic,
+  RuleFinding,
+  ValidateOptions,
+  ValidationContext,
+  ValidationRule,
+} from "./types.js";
+
+// ---------------------------------------------------------------------------
+// Validation
+// ---------------------------------------------------------------------------
+
+const DOI_PATTERN = /^10\.\d{4,9}\/\S+$/;
+/** New-style (`2301.00001`) and old-style (`math.CO/0601001`) arXiv ids. */
+const ARXIV_PATTERN = /^(?:\d{4}\.\d{4,5}|[a-z-]+(?:\.[a-z]{2})?\/\d{7})$/i;
+
+const doiRule: ValidationRule = {
+  name: "doi",
+  check(entry) {
+    const value = stringField(entry, "doi");
+    if (value == null || DOI_PATTERN.test(normalizeDoi(value))) return [];
+    return [{ field: "doi", severity: "error", message: `Malformed DOI "${value}".` }];
+  },
+};
+
+const arxivRule: ValidationRule = {
+  name: "arxiv",
+  check(entry) {
+    const findings: RuleFinding[] = [];
+    const check = (field: string) => {
+      const value = stringField(entry, field);
+      if (value != null && !ARXIV_PATTERN.test(normalizeArxivId(value))) {
+        findings.push({ field, severity: "error", message: `Malformed arXiv id "${value}".` });
+      }
+    };
+    check("arxiv");
+    const eprintType = stringField(entry, "eprinttype") ?? stringField(entry, "archiveprefix");
+    if (eprintType?.toLowerCase() === "arxiv") check("eprint");
+    return findings;
+  },
+};
+
+const yearRule: ValidationRule = {
+  name: "year",
+  check(entry) {
+    if (entry.year != null) return [];
+    return [{
+      field: "year",
+      severity: "warning",
+      message: "Missing year; the entry sorts as a missing value and groups as \"Undated\".",
+    }];
+  },
+};
+
+const urlRule: ValidationRule = {
+  name: "url",
+  check(entry) {
+    const value = stringField(entry, "url");
+    if (value == null || sanitizeUrl(value)) return [];
+    return [{
+      field: "url",
+      severity: "error",
+      message: `URL "${value}" is not http(s) or mailto and will not be linked.`,
+    }];
+  },
+};
+
+const badgeRule: ValidationRule = {
+  name: "badges",
+  check(entry, { badges }) {
+    const findings: RuleFinding[] = [];
+    for (const badge of badges) {
+      const resolved = resolveBadge(entry, badge);
+      const label = badgeName(badge);
+      if (resolved.status === "no-match") {
+        findings.push({
+          field: badge.field,
+          severity: "warning",
+          message: `Badge "${label}" is skipped: "${resolved.value}" doesn't match ${badge.match}.`,
+        });
+      } else if (resolved.status === "unsafe-url") {
+        findings.push({
+          field: badge.field,
+          severity: "warning",
+          message: `Badge "${label}" is skipped: "${resolved.url}" is not http(s) or mailto.`,
+        });
+      }
+    }
+    return findings;
+  },
+};
+
+const fieldRule: ValidationRule = {
+  name: "fields",
+  check(entry, { fields }) {
+    const findings: RuleFinding[] = [];
+    for (const [field, rule] of Object.entries(fields)) {
+      const severity = rule.severity ?? "error";
+      const value = getFieldValue(entry, field);
+      if (value == null || value === "") {
+        if (rule.required) findings.push({ field, severity, message: `Missing required field "${field}".` });
+        continue;
+      }
+
+      const text = String(value);
+      if (rule.allowed && !rule.allowed.includes(text)) {
+        const allowed = rule.allowed.map((v) => `"${v}"`).join(", ");
+        findings.push({
+          field,
+          severity,
+          message: `Invalid value "${text}" for "${field}"; expected one of ${allowed}.`,
+        });
+      }
+      if (rule.pattern && !rule.pattern.test(text)) {
+        findings.push({
+          field,
+          severity,
+          message: `Value "${text}" of "${field}" doesn't match ${rule.pattern}.`,
+        });
+      }
+    }
+    return findings;
+  },
+};
+
+/**
+ * The built-in rules: malformed DOIs and arXiv ids, missing years, unsafe
+ * URLs, badges that never render, and the per-field rules of
+ * {@link ValidateOptions.fields}.
+ */
+export const defaultValidationRules: readonly ValidationRule[] = [
+  doiRule,
+  arxivRule,
+  yearRule,
+  urlRule,
+  badgeRule,
+  fieldRule,
+];
+
+/**
+ * Run validation rules over entries.  Diagnostics are ordered by entry,
+ * then by rule.
+ */
+export function validateEntries(
+  entries: BibEntry[],
+  options: ValidateOptions = {},
+): Diagnostic[] {
+  const rules = options.rules ?? defaultValidationRules;
+  const context: ValidationContext = {
+    badges: options.badges ?? [],
+    fields: options.fields ?? {},
+  };
+
+  return entries.flatMap((entry) =>
+    rules.flatMap((rule) =>
+      rule.check(entry, context).map((finding) => ({
+        key: entry.key,
+        rule: rule.name,
+        ...finding,
+      })),
+    ),
+  );
+}
+
+function stringField(entry: BibEntry, field: string): string | undefined {
+  const value = getFieldValue(entry, field);
+  if (typeof value === "number") return String(value);
+  return typeof value === "string" && value.trim() ? value : undefined;
+}
@@ -0,0 +1,238 @@
+import type { FSWatcher } from "node:fs";
+import { BibliographyError } from "./errors.js";
+import { fs, path } from "./node.js";
+import { compileGlob, isGlob, isInlineData, looksLikeXml } from "./sources.js";
+import { unregisterStyle } from "./styles.js";
+import type { Bibliography } from "./index.js";
+import type { BibEntry } from "./types.js";
+
+// ---------------------------------------------------------------------------
+// Watch mode
+// ---------------------------------------------------------------------------
+
+/** A reload of a watched bibliography that changed something. */
+export interface BibliographyChange {
+  /** The new bibliography (also {@link BibliographyWatcher.bibliography}). */
+  bibliography: Bibliography;
+  /** Keys of new entries, in entry order. */
+  added: string[];
+  /** Keys of entries that are gone, in their former order. */
+  removed: string[];
+  /** Keys of entries whose fields, type or source changed. */
+  modified: string[];
+  /** Whether the CSL style or locale changed, so that every entry renders anew. */
+  styleChanged: boolean;
+}
+
+interface WatcherEvents {
+  change: BibliographyChange;
+  error: Error;
+}
+
+type Listener<E extends keyof WatcherEvents> = (event: WatcherEvents[E]) => void;
+
+/** A directory to watch, and the file names in it that matter (all if `null`). */
+interface WatchTarget {
+  recursive: boolean;
+  names: Set<string> | null;
+}
+
+/**
+ * Keeps a {@link Bibliography} up to date with its files.  Create one with
+ * {@link Bibliography.watch}.
+ *
+ * Errors while reloading (e.g. a syntax error in a half-saved file) are
+ * emitted as `error` events; the last good bibliography stays current.
+ */
+export class BibliographyWatcher {
+  private current: Bibliography;
+  private readonly listeners: { [E in keyof WatcherEvents]: Set<Listener<E>> } = {
+    change: new Set(),
+    error: new Set(),
+  };
+  private readonly watchers: FSWatcher[] = [];
+  private readonly debounce: number;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private queue: Promise<unknown> = Promise.resolve();
+  private closed = false;
+
+  constructor(
+    initial: Bibliography,
+    private readonly reload: () => Promise<Bibliography>,
+    /** `data` items and the CSL style; files, globs and inline data alike. */
+    inputs: string[],
+    options: { debounce?: number } = {},
+  ) {
+    if (!fs || !path) throw new BibliographyError("Watching files needs node:fs.");
+    this.current = initial;
+    this.debounce = options.debounce ?? 100;
+
+    for (const [dir, { recursive, names }] of watchTargets(inputs)) {
+      try {
+        this.watch(dir, recursive, (filename) => !names || filename == null || names.has(filename));
+      } catch (error) {
+        // Node before 20 can't watch recursively on Linux.
+        if (!recursive || (error as NodeJS.ErrnoException).code !== "ERR_FEATURE_UNAVAILABLE_ON_PLATFORM") throw error;
+        this.watchTree(dir, new Set());
+      }
+    }
+  }
+
+  /** The current bibliography. */
+  get bibliography(): Bibliography {
+    return this.current;
+  }
+
+  /** Listen to reloads that changed something, or to reload errors. */
+  on<E extends keyof WatcherEvents>(event: E, listener: Listener<E>): this {
+    this.listeners[event].add(listener);
+    return this;
+  }
+
+  off<E extends keyof WatcherEvents>(event: E, listener: Listener<E>): this {
+    this.listeners[event].delete(listener);
+    return this;
+  }
+
+  /**
+   * Re-read all files now, without waiting for a file system event.
+   * Resolves to the change (also emitted), or `null` if nothing changed.
+   * Rejects on errors, which are not emitted.
+   */
+  refresh(): Promise<BibliographyChange | null> {
+    const run = this.queue.then(async () => {
+      if (this.closed) return null;
+      const previous = this.current;
+      const next = await this.reload();
+      if (this.closed) return null;
+      this.current = next;
+      // A style file that changed is registered under a new name.
+      if (next.templateName !== previous.templateName && previous.templateName.startsWith("custom-")) {
+        unregisterStyle(previous.templateName);
+      }
+
+      const change = diffBibliographies(previous, next);
+      if (change) this.emit("change", change);
+      return change;
+    });
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  /** Stop watching.  Pending reloads are dropped. */
+  close(): void {
+    this.closed = true;
+    if (this.timer) clearTimeout(this.timer);
+    for (const watcher of this.watchers) watcher.close();
+    this.watchers.length = 0;
+  }
+
+  /** Watch `dir`, rescheduling a reload on events for the file names `matches` accepts. */
+  private watch(dir: string, recursive: boolean, matches: (filename: string | null) => boolean): void {
+    const watcher = fs!.watch(dir, { recursive }, (_event, filename) => {
+      if (matches(filename == null ? null : String(filename))) this.schedule();
+    });
+    watcher.on("error", (error) => this.emit("error", error));
+    this.watchers.push(watcher);
+  }
+
+  /** Watch `dir` and its subdirectories one by one, including those created later. */
+  private watchTree(dir: string, watched: Set<string>): void {
+    if (this.closed || watched.has(dir)) return;
+    watched.add(dir);
+    this.watch(dir, false, (filename) => {
+      const child = filename == null ? null : path!.join(dir, filename);
+      try {
+        if (child && fs!.statSync(child, { throwIfNoEntry: false })?.isDirectory()) this.watchTree(child, watched);
+      } catch (error) {
+        // E.g. the directory is gone again.
+        this.emit("error", error as Error);
+      }
+      return true;
+    });
+    for (const child of fs!.readdirSync(dir, { withFileTypes: true })) {
+      if (child.isDirectory()) this.watchTree(path!.join(dir, child.name), watched);
+    }
+  }
+
+  private schedule(): void {
+    if (this.closed) return;
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.refresh().catch((error) => this.emit("error", error));
+    }, this.debounce);
+  }
+
+  private emit<E extends keyof WatcherEvents>(event: E, payload: WatcherEvents[E]): void {
+    for (const listener of this.listeners[event]) listener(payload);
+  }
+}
+
+/**
+ * The directories to watch for `inputs`: the parent of each file (watching
+ * the file itself misses editors that save by replacing it) and the base
+ * directory of each glob pattern.
+ */
+function watchTargets(inputs: string[]): Map<string, WatchTarget> {
+  const targets = new Map<string, WatchTarget>();
+  const add = (dir: string, recursive: boolean, name: string | null) => {
+    const target = targets.get(dir) ?? { recursive: false, names: new Set<string>() };
+    target.recursive ||= recursive;
+    if (name == null) target.names = null;
+    else target.names?.add(name);
+    targets.set(dir, target);
+  };
+
+  for (const input of inputs) {
+    if (isInlineData(input) || looksLikeXml(input)) continue;
+    if (isFile(input)) {
+      add(path!.dirname(input), false, path!.basename(input));
+    } else if (isGlob(input)) {
+      const { base, maxDepth } = compileGlob(input);
+      add(base, maxDepth > 1, null);
+    }
+  }
+  return targets;
+}
+
+/** Whether `input` names a file; names too long for a path are none. */
+function isFile(input: string): boolean {
+  try {
+    return fs!.statSync(input, { throwIfNoEntry: false })?.isFile() ?? false;
+  } catch {
+    return false;
+  }
+}
+
+function diffBibliographies(before: Bibliography, after: Bibliography): BibliographyChange | null {
+  const previous = new Map(before.entries.map((entry) => [entry.key, entry]));
+  const keys = new Set(after.entries.map((entry) => entry.key));
+
+  const change: BibliographyChange = {
+    bibliography: after,
+    added: [],
+    removed: before.entries.filter((entry) => !keys.has(entry.key)).map((entry) => entry.key),
+    modified: [],
+    styleChanged: before.templateName !== after.templateName || before.locale !== after.locale,
+  };
+  for (const entry of after.entries) {
+    const old = previous.get(entry.key);
+    if (!old) change.added.push(entry.key);
+    else if (fingerprint(old) !== fingerprint(entry)) change.modified.push(entry.key);
+  }
+
+  const changed = change.added.length + change.removed.length + change.modified.length > 0;
+  return changed || change.styleChanged ? change : null;
+}
+
+/**
+ * Everything but the line, which moves when entries above change, and
+ * citation-js' `_graph`, which holds the text of the whole source.
+ */
+function fingerprint(entry: BibEntry): string {
+  return JSON.stringify(
+    [entry.entryType, entry.source, entry.raw, entry.custom, entry.csl],
+    (key, value) => (key === "_graph" ? undefined : value),
+  );
+}
@@ -0,0 +1,136 @@
+import { decodeEntities } from "./html.js";
+
+// ---------------------------------------------------------------------------
+// XML
+// ---------------------------------------------------------------------------
+
+/** An element of a document parsed by {@link parseXml}. */
+export interface XmlElement {
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlElement[];
+  /** The text directly inside the element, with entities decoded. */
+  text: string;
+  /** 1-based line of the start tag. */
+  line: number;
+}
+
+export type XmlParseResult =
+  | { root: XmlElement; error?: undefined }
+  | { root?: undefined; error: string; line: number };
+
+const NAME = "[A-Za-z_][\\w:.-]*";
+const START_TAG = new RegExp(
+  `<(${NAME})((?:\\s+${NAME}\\s*=\\s*(?:"[^"<]*"|'[^'<]*'))*)\\s*(/?)>`,
+  "y",
+);
+const END_TAG = new RegExp(`</(${NAME})\\s*>`, "y");
+const ATTRIBUTE = new RegExp(`(${NAME})\\s*=\\s*(?:"([^"]*)"|'([^']*)')`, "g");
+const BARE_AMPERSAND = /&(?!(?:[A-Za-z]+|#\d+|#x[0-9A-Fa-f]+);)/;
+
+/**
+ * Parse XML into an element tree, or report the first well-formedness
+ * error with its line.  Enough for CSL styles and locales: no DTDs, no
+ * namespace resolution, and only the entities HTML output uses.
+ */
+export function parseXml(xml: string): XmlParseResult {
+  const stack: XmlElement[] = [];
+  let root: XmlElement | undefined;
+  let pos = 0;
+  let line = 1;
+  let counted = 0;
+
+  const lineAt = (offset: number) => {
+    for (; counted < offset; counted += 1) {
+      if (xml.charCodeAt(counted) === 10) line += 1;
+    }
+    return line;
+  };
+  const fail = (error: string, offset: number) => ({ error, line: lineAt(offset) });
+  const skipTo = (terminator: string) => {
+    const end = xml.indexOf(terminator, pos);
+    return end < 0 ? -1 : end + terminator.length;
+  };
+
+  while (pos < xml.length) {
+    const lt = xml.indexOf("<", pos);
+    const text = xml.slice(pos, lt < 0 ? xml.length : lt);
+    if (text) {
+      const amp = BARE_AMPERSAND.exec(text);
+      if (amp) return fail("Unescaped `&` (write `&amp;`).", pos + amp.index);
+      const parent = stack[stack.length - 1];
+      if (parent) parent.text += decodeEntities(text);
+      else if (text.trim()) return fail("Text outside the root element.", pos);
+    }
+    if (lt < 0) break;
+    pos = lt;
+
+    if (xml.startsWith("<?", pos) || xml.startsWith("<!--", pos) || xml.startsWith("<!DOCTYPE", pos)) {
+      const [terminator, what] = xml.startsWith("<?", pos)
+        ? ["?>", "processing instruction"]
+        : xml.startsWith("<!--", pos) ? ["-->", "comment"] : [">", "DOCTYPE"];
+      const end = skipTo(terminator);
+      if (end < 0) return fail(`Unclosed ${what}.`, pos);
+      pos = end;
+      continue;
+    }
+
+    if (xml.startsWith("<![CDATA[", pos)) {
+      const end = skipTo("]]>");
+      const parent = stack[stack.length - 1];
+      if (end < 0) return fail("Unclosed CDATA section.", pos);
+      if (!parent) return fail("CDATA outside the root element.", pos);
+      parent.text += xml.slice(pos + 9, end - 3);
+      pos = end;
+      continue;
+    }
+
+    END_TAG.lastIndex = pos;
+    const end = END_TAG.exec(xml);
+    if (end) {
+      const open = stack.pop();
+      if (!open) return fail(`Unexpected </${end[1]}>.`, pos);
+      if (open.name !== end[1]) {
+        return fail(`Expected </${open.name}> (opened on line ${open.line}), found </${end[1]}>.`, pos);
+      }
+      pos = END_TAG.lastIndex;
+      continue;
+    }
+
+    START_TAG.lastIndex = pos;
+    const start = START_TAG.exec(xml);
+    if (!start) return fail("Malformed tag.", pos);
+    const element: XmlElement = {
+      name: start[1],
+      attributes: {},
+      children: [],
+      text: "",
+      line: lineAt(pos),
+    };
+    for (const [, name, double, single] of start[2].matchAll(ATTRIBUTE)) {
+      if (name in element.attributes) {
+        return fail(`Duplicate attribute "${name}" on <${element.name}>.`, pos);
+      }
+      element.attributes[name] = decodeEntities(double ?? single);
+    }
+
+    const parent = stack[stack.length - 1];
+    if (parent) parent.children.push(element);
+    else if (root) return fail(`Second root element <${element.name}>.`, pos);
+    else root = element;
+    if (!start[3]) stack.push(element);
+    pos = START_TAG.lastIndex;
+  }
+
+  if (stack.length) {
+    const open = stack[stack.length - 1];
+    return { error: `Unclosed <${open.name}>.`, line: open.line };
+  }
+  if (!root) return fail("No root element.", xml.length);
+  return { root };
+}
+
+/** The first child element named `name`. */
+export function childElement(element: XmlElement, name: string): XmlElement | undefined {
+  return element.children.find((child) => child.name === name);
+}
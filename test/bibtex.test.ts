@@ -0,0 +1,86 @@
+import { describe, it, expect } from "vitest";
+import { Bibliography, BibliographyError } from "../src/index.js";
+import { SAMPLE_BIB } from "./fixtures.js";
+
+function rawFields(bib: Bibliography) {
+  return bib.entries.map(({ key, entryType, raw }) => ({ key, entryType, raw }));
+}
+
+describe("toBibtex", () => {
+  it("round-trips all entries, including custom fields", () => {
+    const bib = new Bibliography({ data: SAMPLE_BIB });
+    const again = new Bibliography({ data: bib.toBibtex() });
+    expect(rawFields(again)).toEqual(rawFields(bib));
+    expect(again.entries[0].raw).toMatchObject({
+      mrnumber: "4500001",
+      "publication-status": "published",
+    });
+  });
+
+  it("round-trips LaTeX markup, quotes and BibLaTeX fields", () => {
+    const data = String.raw`@Article{x,
+  author = {M{\"u}ller, J{\"o}rg and {Widget Consortium}},
+  title = {The {DNA} of $x^2$ \& "more"},
+  journaltitle = {J. Widget Sci.},
+  date = {2024-03},
+  private-note = {ask Jane},
+}`;
+    const bib = new Bibliography({ data });
+    for (const delimiter of ["braces", "quotes"] as const) {
+      const again = new Bibliography({ data: bib.toBibtex(bib.entries, { delimiter }) });
+      expect(rawFields(again)).toEqual(rawFields(bib));
+    }
+  });
+
+  it("round-trips bare numbers", () => {
+    const bib = new Bibliography({ data: "@Book{x, title = {T}, year = 2020, volume = {3}, edition = 2}" });
+    expect(bib.entries[0].raw).toMatchObject({ year: 2020, volume: "3", edition: 2 });
+    for (const delimiter of ["braces", "quotes"] as const) {
+      const out = bib.toBibtex(bib.entries, { delimiter });
+      expect(out).toMatch(/^ {2}year = 2020,$/m);
+      expect(rawFields(new Bibliography({ data: out }))).toEqual(rawFields(bib));
+    }
+  });
+
+  it("writes entries with the configured layout", () => {
+    const bib = new Bibliography({ data: SAMPLE_BIB });
+    const out = bib.toBibtex([bib.getEntry("doe:2024:gadgets")!], {
+      fieldOrder: ["title", "author"],
+      omitFields: ["Publication-Status", "doi"],
+      indent: "\t",
+      delimiter: "quotes",
+      align: true,
+    });
+    expect(out).toBe(
+      [
+        "@article{doe:2024:gadgets,",
+        '\ttitle   = "Gadgets and their Applications",',
+        '\tauthor  = "Doe, Jane",',
+        '\tjournal = "Gadget Rev.",',
+        '\tvolume  = "7",',
+        '\tnumber  = "3",',
+        '\tpages   = "100--120",',
+        '\tyear    = "2024",',
+        "}",
+      ].join("\n"),
+    );
+  });
+
+  it("separates entries with a blank line", () => {
+    const bib = new Bibliography({ data: SAMPLE_BIB });
+    const out = bib.toBibtex(bib.filter("publication-status:published"), {
+      fieldOrder: ["year"],
+      omitFields: ["author", "title"],
+    });
+    expect(out.match(/^@\w+\{[^,]+,\n {2}year = \{\d{4}\},$/gm)).toHaveLength(3);
+    expect(out.split("\n\n")).toHaveLength(3);
+  });
+
+  it("refuses fields with unbalanced braces", () => {
+    const bib = new Bibliography({ data: "@Misc{odd, title={Odd}}" });
+    const [entry] = bib.entries;
+    const odd = { ...entry, raw: { ...entry.raw, title: "Odd } braces" } };
+    expect(() => bib.toBibtex([odd])).toThrow(BibliographyError);
+    expect(() => bib.toBibtex([odd])).toThrow('Cannot export field "title" of entry "odd": unbalanced braces.');
+  });
+});
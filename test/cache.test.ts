@@ -0,0 +1,135 @@
+import { describe, it, expect, vi, afterEach, afterAll } from "vitest";
+import { mkdirSync, readdirSync, rmSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import Cite from "citation-js";
+import { Bibliography, createFileRenderCache, createMemoryRenderCache } from "../src/index.js";
+import { contentHash, hashString } from "../src/cache.js";
+import { SAMPLE_BIB } from "./fixtures.js";
+
+const DIR = join(process.cwd(), "test", "tmp", "cache");
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+afterAll(() => {
+  rmSync(DIR, { recursive: true, force: true });
+});
+
+/** Count citeproc runs. */
+function spyOnRenders() {
+  return vi.spyOn(Cite.prototype, "format");
+}
+
+describe("render cache", () => {
+  it("renders the same entries only once", () => {
+    const bib = new Bibliography({ data: SAMPLE_BIB, renderCache: createMemoryRenderCache() });
+    const renders = spyOnRenders();
+
+    const html = bib.formatHtml(bib.entries, { badges: [] });
+    expect(bib.formatHtml(bib.entries, { titleLink: ["doi"] })).not.toBe(html);
+    expect(bib.format(bib.entries, { target: "markdown" })).toContain("Doe");
+    expect(renders).toHaveBeenCalledTimes(1);
+
+    bib.formatEntry(bib.entries[0]);
+    bib.formatEntry(bib.entries[0]);
+    expect(renders).toHaveBeenCalledTimes(2);
+  });
+
+  it("keys renders by entry content, list and style", () => {
+    const renderCache = createMemoryRenderCache();
+    const apa = new Bibliography({ data: SAMPLE_BIB, renderCache });
+    const copy = new Bibliography({ data: SAMPLE_BIB, renderCache });
+    const vancouver = new Bibliography({ data: SAMPLE_BIB, renderCache, cslStyle: "vancouver" });
+    const renders = spyOnRenders();
+
+    apa.formatHtml(apa.entries);
+    copy.formatHtml(copy.entries);
+    expect(renders).toHaveBeenCalledTimes(1);
+
+    const numbered = vancouver.formatHtml(vancouver.entries.slice(0, 2));
+    const alone = vancouver.formatHtml(vancouver.entries.slice(1, 2));
+    expect(renders).toHaveBeenCalledTimes(3);
+    expect(numbered).toContain(">2. </div>");
+    expect(alone).not.toContain(">2. </div>");
+
+    const changed = new Bibliography({
+      data: SAMPLE_BIB.replace("Gadgets", "Gizmos"),
+      renderCache,
+    });
+    expect(changed.formatHtml(changed.entries)).toContain("Gizmos");
+    expect(renders).toHaveBeenCalledTimes(4);
+  });
+
+  it("evicts the least recently used renders", () => {
+    const bib = new Bibliography({ data: SAMPLE_BIB, renderCache: createMemoryRenderCache({ maxEntries: 2 }) });
+    const [a, b, c] = bib.entries;
+    const renders = spyOnRenders();
+
+    bib.formatEntry(a);
+    bib.formatEntry(b);
+    bib.formatEntry(a);
+    bib.formatEntry(c); // evicts b
+    bib.formatEntry(a);
+    expect(renders).toHaveBeenCalledTimes(3);
+    bib.formatEntry(b);
+    expect(renders).toHaveBeenCalledTimes(4);
+  });
+
+  it("keeps renders within maxBytes", () => {
+    const cache = createMemoryRenderCache({ maxBytes: 100 });
+    const render = (length: number): [string, string][] => [["id", "x".repeat(length - 2)]];
+    cache.set("a", render(20)); // 40 bytes
+    cache.set("b", render(20));
+    cache.get("a");
+    cache.set("c", render(20)); // evicts b
+    expect(["a", "b", "c"].map((key) => cache.get(key) !== undefined)).toEqual([true, false, true]);
+
+    cache.set("big", render(51));
+    expect(cache.get("big")).toBeUndefined();
+    expect(cache.get("a")).toBeDefined();
+  });
+
+  it("can be turned off", () => {
+    const bib = new Bibliography({ data: SAMPLE_BIB, renderCache: false });
+    const renders = spyOnRenders();
+    bib.formatEntry(bib.entries[0]);
+    bib.formatEntry(bib.entries[0]);
+    expect(renders).toHaveBeenCalledTimes(2);
+  });
+
+  it("persists renders on disk across instances", () => {
+    const first = new Bibliography({ data: SAMPLE_BIB, renderCache: createFileRenderCache(DIR) });
+    const html = first.formatHtml(first.entries);
+    expect(readdirSync(DIR).filter((name) => name.endsWith(".json"))).toHaveLength(1);
+
+    const renders = spyOnRenders();
+    const second = new Bibliography({ data: SAMPLE_BIB, renderCache: createFileRenderCache(DIR) });
+    expect(second.formatHtml(second.entries)).toBe(html);
+    expect(renders).not.toHaveBeenCalled();
+
+    for (const name of readdirSync(DIR)) writeFileSync(join(DIR, name), "{not json");
+    const third = new Bibliography({ data: SAMPLE_BIB, renderCache: createFileRenderCache(DIR) });
+    expect(third.formatHtml(third.entries)).toBe(html);
+    expect(renders).toHaveBeenCalledTimes(1);
+
+    for (const name of readdirSync(DIR)) writeFileSync(join(DIR, name), '[["ITEM-1", 42]]');
+    const fourth = new Bibliography({ data: SAMPLE_BIB, renderCache: createFileRenderCache(DIR) });
+    expect(fourth.formatHtml(fourth.entries)).toBe(html);
+    expect(renders).toHaveBeenCalledTimes(2);
+  });
+
+  it("renders on when the cache directory can't be written", () => {
+    const parent = join(DIR, "unwritable");
+    mkdirSync(parent, { recursive: true });
+    writeFileSync(join(parent, "file"), "");
+    const bib = new Bibliography({ data: SAMPLE_BIB, renderCache: createFileRenderCache(join(parent, "file", "cache")) });
+    expect(bib.formatHtml(bib.entries)).toContain("csl-entry");
+    expect(readdirSync(parent)).toEqual(["file"]);
+  });
+
+  it("keeps the style name hash unpadded and pads cache keys", () => {
+    expect(hashString("style 100")).toBe("b5df1d1");
+    expect(contentHash("style 100")).toBe("0b5df1d10ef2ebdf");
+  });
+});
@@ -0,0 +1,131 @@
+import { describe, it, expect } from "vitest";
+import { Bibliography, BibliographyError } from "../src/index.js";
+import { makeBib } from "./fixtures.js";
+
+const NOTE_STYLE = `<?xml version="1.0" encoding="utf-8"?>
+<style xmlns="http://purl.org/net/xbiblio/csl" class="note" version="1.0">
+  <info>
+    <title>Test note style</title>
+    <id>test-note</id>
+    <updated>2024-01-01T00:00:00+00:00</updated>
+  </info>
+  <citation>
+    <layout suffix="." delimiter="; ">
+      <choose>
+        <if position="ibid-with-locator">
+          <group delimiter=", "><text term="ibid"/><text variable="locator"/></group>
+        </if>
+        <else-if position="ibid"><text term="ibid"/></else-if>
+        <else>
+          <group delimiter=", ">
+            <names variable="author"><name form="short"/></names>
+            <text variable="title"/>
+            <text variable="locator"/>
+          </group>
+        </else>
+      </choose>
+    </layout>
+  </citation>
+  <bibliography>
+    <layout><names variable="author"/><text variable="title" prefix=". "/></layout>
+  </bibliography>
+</style>`;
+
+describe("cite", () => {
+  it("renders a parenthetical citation with locator", () => {
+    const bib = makeBib();
+    expect(bib.cite({ key: "doe:2024:gadgets", locator: "104" })).toBe("(Doe, 2024, p. 104)");
+  });
+
+  it("renders clusters with prefixes, suffixes and labels", () => {
+    const bib = makeBib();
+    const html = bib.cite([
+      { key: "doe:2024:gadgets", prefix: "see ", locator: "2", label: "chapter" },
+      { key: "smith-doe:2021:conf", suffix: " for bounds" },
+    ]);
+    expect(html).toBe("(see Doe, 2024, Chapter 2; Smith &#38; Doe, 2021 for bounds)");
+  });
+
+  it("supports in-text and suppress-author modes", () => {
+    const bib = makeBib();
+    expect(bib.cite("doe:2024:gadgets", { inText: true })).toBe("Doe (2024)");
+    expect(bib.cite({ key: "doe:2024:gadgets", suppressAuthor: true })).toBe("(2024)");
+    expect(bib.cite({ key: "doe:2024:gadgets", authorOnly: true })).toBe("Doe");
+  });
+
+  it("converts to other targets", () => {
+    const bib = makeBib();
+    expect(bib.cite("smith-doe:2021:conf", { target: "latex" })).toBe("(Smith \\& Doe, 2021)");
+  });
+
+  it("throws on unknown keys", () => {
+    const bib = makeBib();
+    expect(() => bib.cite("nope")).toThrow('Unknown citation key "nope".');
+    expect(() => bib.cite("nope")).toThrow(BibliographyError);
+    expect(() => bib.cite([])).toThrow(BibliographyError);
+  });
+});
+
+describe("CitationContext", () => {
+  it("numbers entries in order of first citation", () => {
+    const bib = makeBib({ cslStyle: "vancouver" });
+    const ctx = bib.createCitationContext();
+    expect(ctx.cite("smith-doe:2021:conf")).toBe("(1)");
+    expect(ctx.cite("doe:2024:gadgets")).toBe("(2)");
+    expect(ctx.cite(["doe:2024:gadgets", "smith-doe:2021:conf"])).toBe("(1,2)");
+    expect(ctx.citedKeys).toEqual(["smith-doe:2021:conf", "doe:2024:gadgets"]);
+  });
+
+  it("emits a bibliography of cited entries in cited order", () => {
+    const bib = makeBib({ cslStyle: "vancouver" });
+    const ctx = bib.createCitationContext();
+    ctx.cite("smith-doe:2021:conf");
+    ctx.cite("doe:2024:gadgets");
+    const html = ctx.bibliography({ list: "ul", linkifyUrls: false });
+    const ids = [...html.matchAll(/data-csl-entry-id="([^"]+)"/g)].map((m) => m[1]);
+    expect(ids).toEqual(["smith-doe:2021:conf", "doe:2024:gadgets"]);
+    const labels = [...html.matchAll(/class="csl-left-margin">(\d+)\./g)].map((m) => m[1]);
+    expect(labels).toEqual(["1", "2"]);
+
+    expect(ctx.bibliography()).toMatch(/^<ol class="csl-bib-body">/);
+    expect(ctx.bibliography({ target: "text" }).split("\n").map((line) => line.slice(0, 3))).toEqual(["1. ", "2. "]);
+  });
+
+  it("accepts its own style", () => {
+    const bib = makeBib();
+    const ctx = bib.createCitationContext({ cslStyle: "vancouver" });
+    expect(ctx.cite("doe:2024:gadgets")).toBe("(1)");
+    expect(ctx.bibliography()).toContain('class="csl-left-margin"');
+    expect(bib.cite("doe:2024:gadgets")).toBe("(Doe, 2024)");
+  });
+
+  it("renders ibid. for repeated citations in note styles", () => {
+    const bib = makeBib({ cslStyle: NOTE_STYLE });
+    const ctx = bib.createCitationContext({ notes: true });
+    expect(ctx.cite("doe:2024:gadgets")).toBe("Doe, Gadgets and their Applications.");
+    expect(ctx.cite("doe:2024:gadgets")).toBe("Ibid.");
+    expect(ctx.cite({ key: "doe:2024:gadgets", locator: "7" })).toBe("Ibid., 7.");
+    expect(ctx.cite("smith-doe:2021:conf")).toBe(
+      "Smith, Doe, Widget Bounds in Higher Dimensions.",
+    );
+  });
+
+  it("re-renders earlier clusters once disambiguation is known", () => {
+    const bib = new Bibliography({
+      data: `@Article{a, author={Doe, Jane}, title={First}, year={2024}}
+@Article{b, author={Doe, Jane}, title={Second}, year={2024}}`,
+    });
+    const ctx = bib.createCitationContext();
+    expect(ctx.cite("a")).toBe("(Doe, 2024)");
+    expect(ctx.cite("b")).toBe("(Doe, 2024b)");
+    expect(ctx.citations()).toEqual(["(Doe, 2024a)", "(Doe, 2024b)"]);
+  });
+
+  it("leaves state untouched when a cluster has an unknown key", () => {
+    const bib = makeBib();
+    const ctx = bib.createCitationContext();
+    expect(() => ctx.cite(["doe:2024:gadgets", "nope"])).toThrow(/nope/);
+    expect(ctx.citedKeys).toEqual([]);
+    expect(ctx.bibliography()).toBe("");
+  });
+});
@@ -0,0 +1,149 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { mkdirSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { Readable } from "node:stream";
+import { main } from "../src/cli.js";
+import { SAMPLE_BIB } from "./fixtures.js";
+
+const DIR = join(process.cwd(), "test", "tmp", "cli");
+const REFS = join(DIR, "refs.bib");
+
+beforeAll(() => {
+  mkdirSync(DIR, { recursive: true });
+  writeFileSync(REFS, SAMPLE_BIB);
+});
+
+afterAll(() => {
+  rmSync(DIR, { recursive: true, force: true });
+});
+
+/** Run the CLI and capture its output. */
+async function run(args: string[], stdin = "") {
+  let stdout = "";
+  let stderr = "";
+  const code = await main(args, {
+    stdin: Readable.from([stdin]),
+    stdout: { write: (text: string) => (stdout += text) },
+    stderr: { write: (text: string) => (stderr += text) },
+  });
+  return { code, stdout, stderr };
+}
+
+describe("cli", () => {
+  it("renders HTML to stdout", async () => {
+    const { code, stdout, stderr } = await run([REFS]);
+    expect(stderr).toBe("");
+    expect(code).toBe(0);
+    expect(stdout).toMatch(/^<ol reversed class="csl-bib-body">/);
+    expect(stdout.match(/data-csl-entry-id="([^"]+)"/g)).toHaveLength(5);
+  });
+
+  it("filters, sorts and formats", async () => {
+    const { code, stdout } = await run([
+      REFS,
+      "--style", "vancouver",
+      "--custom-fields", "publication-status",
+      "--filter", "publication-status:published",
+      "--sort", "year:asc",
+      "-f", "markdown",
+    ]);
+    expect(code).toBe(0);
+    const lines = stdout.trim().split("\n");
+    expect(lines).toHaveLength(3);
+    expect(lines[0]).toMatch(/^1\. 1\. Smith A, Doe J\. \[Widget Bounds/);
+  });
+
+  it("reads badges from a YAML config and writes to a file", async () => {
+    const config = join(DIR, "bib.yaml");
+    writeFileSync(
+      config,
+      [
+        "titleLink: [doi]",
+        "badges:",
+        "  - field: arxiv",
+        "    label: arXiv",
+        "    url: https://arxiv.org/abs/$1",
+        '    match: "^(.+?)(?:v\\\\d+)?$"',
+        "    className: badge",
+      ].join("\n"),
+    );
+    const output = join(DIR, "out.html");
+    const { code } = await run([REFS, "-c", config, "-o", output, "--group-by", "year"]);
+    expect(code).toBe(0);
+
+    const html = readFileSync(output, "utf-8");
+    expect(html).toContain('<h2 class="bib-group-heading">2025</h2>');
+    expect(html).toContain('<a class="badge" href="https://arxiv.org/abs/2501.99999">arXiv</a>');
+    expect(html).toContain('<a href="https://doi.org/10.1234/jws.2023.001">On the Enumeration of Widgets</a>');
+  });
+
+  it("reads standard input and writes JSON", async () => {
+    const { code, stdout } = await run(["-", "--format", "json"], SAMPLE_BIB);
+    expect(code).toBe(0);
+    const entries = JSON.parse(stdout);
+    expect(entries.map((entry: { key: string }) => entry.key)).toEqual([
+      "doe-jones:2025:preprint",
+      "doe:2024:gadgets",
+      "doe-smith:2023:widgets",
+      "doe:2022:software",
+      "smith-doe:2021:conf",
+    ]);
+  });
+
+  it("renders the views of a project config", async () => {
+    const config = join(DIR, "project.json");
+    writeFileSync(config, JSON.stringify({
+      data: "refs.bib",
+      views: {
+        recent: { filter: "year>=2024", target: "text" },
+        all: { output: "site/all.html" },
+      },
+    }));
+    const { code, stdout } = await run(["--project", config]);
+    expect(code).toBe(0);
+    expect(stdout.trim().split("\n")).toHaveLength(2);
+    expect(readFileSync(join(DIR, "site", "all.html"), "utf-8")).toMatch(/^<ol reversed class="csl-bib-body">/);
+
+    expect((await run(["--project", config, REFS])).code).toBe(2);
+  });
+
+  it("exits with 2 and usage hints for invalid arguments", async () => {
+    for (const args of [[], [REFS, "--colour"], [REFS, "-f", "pdf"], [REFS, "-f", "text", "--group-by", "year"]]) {
+      const { code, stdout, stderr } = await run(args);
+      expect(code).toBe(2);
+      expect(stdout).toBe("");
+      expect(stderr).toMatch(/^citation-js-extras: .+\nRun "citation-js-extras --help" for usage\.\n$/);
+    }
+    const help = await run(["--help"]);
+    expect(help.code).toBe(0);
+    expect(help.stdout).toContain("Usage: citation-js-extras [options]");
+  });
+
+  it("exits with 1 and a readable message for bad input", async () => {
+    const missing = await run([join(DIR, "missing.bib")]);
+    expect(missing).toMatchObject({ code: 1, stdout: "" });
+    expect(missing.stderr).toBe(`citation-js-extras: No such file: ${join(DIR, "missing.bib")}\n`);
+
+    const broken = join(DIR, "broken.bib");
+    writeFileSync(broken, `${SAMPLE_BIB}\n@Article{bad, title = {Unclosed,\n`);
+    const parse = await run([broken]);
+    expect(parse.code).toBe(1);
+    expect(parse.stderr).toMatch(/^citation-js-extras: .*broken\.bib:60:1: Invalid BibTeX/);
+
+    const lenient = await run([broken, "--lenient", "-f", "text"]);
+    expect(lenient.code).toBe(0);
+    expect(lenient.stderr).toMatch(/^citation-js-extras: warning: .*broken\.bib:59: /);
+
+    const config = join(DIR, "typo.json");
+    writeFileSync(config, JSON.stringify({ badges: [{ field: "doi", lable: "doi", url: "https://doi.org/$1" }] }));
+    const typo = await run([REFS, "--config", config]);
+    expect(typo.code).toBe(1);
+    expect(typo.stderr).toBe(
+      `citation-js-extras: ${config}: badges[0].lable: Unknown option. Did you mean "label"?\n`,
+    );
+
+    const query = await run([REFS, "--filter", "year>="]);
+    expect(query.code).toBe(1);
+    expect(query.stderr).toMatch(/^citation-js-extras: Invalid query/);
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, it, expect, afterEach } from "vitest";
+import {
+  Bibliography,
+  badgePreset,
+  builtInDecorator,
+  escapeHtml,
+  listDecorators,
+  registerDecorator,
+  unregisterDecorator,
+  type EntryDecorator,
+} from "../src/index.js";
+import { parseFormatOptions } from "../src/config.js";
+import { SAMPLE_BIB } from "./fixtures.js";
+
+const bib = new Bibliography({ data: SAMPLE_BIB, customFields: ["publication-status", "project"] });
+const widgets = bib.getEntry("doe-smith:2023:widgets")!;
+
+const funding: EntryDecorator = {
+  name: "funding",
+  decorate: (html, { entry }) =>
+    entry.custom.project ? `${html} <small>Funded by ${escapeHtml(entry.custom.project)}</small>` : html,
+};
+
+afterEach(() => {
+  for (const decorator of listDecorators()) unregisterDecorator(decorator.name);
+  for (const name of ["highlightAuthors", "titleLink", "badges"]) registerDecorator(builtInDecorator(name));
+});
+
+describe("entry decorators", () => {
+  it("run after the built-in decorators, or where their order puts them", () => {
+    const options = { titleLink: ["doi"], badges: [badgePreset("doi")], linkifyUrls: false };
+    registerDecorator(funding);
+    expect(bib.formatEntry(widgets, options)).toMatch(
+      /<a href="https:\/\/doi\.org\/[^"]+">On the Enumeration of Widgets<\/a>.* <span class="bib-links">.*<\/span> <small>Funded by WidgetFund-1234<\/small>$/,
+    );
+
+    registerDecorator({ ...funding, order: 250 });
+    expect(bib.formatEntry(widgets, options)).toMatch(/<small>Funded by WidgetFund-1234<\/small> <span class="bib-links">/);
+    expect(listDecorators().map(({ name, order, builtIn }) => [name, order, builtIn])).toEqual([
+      ["highlightAuthors", 100, true],
+      ["titleLink", 200, true],
+      ["funding", 250, false],
+      ["badges", 300, true],
+    ]);
+
+    expect(unregisterDecorator("funding")).toBe(true);
+    expect(unregisterDecorator("funding")).toBe(false);
+    expect(bib.formatEntry(widgets, options)).not.toContain("Funded by");
+  });
+
+  it("work on the text between tags", () => {
+    const newMarker: EntryDecorator = {
+      name: "new",
+      order: 50,
+      decorate: (html, { entry, mapText }) => {
+        if ((entry.year ?? 0) < 2025) return html;
+        return `<span class="new">new</span> ${mapText((text) => text.replace(/Sprockets/, "<i>$&</i>"))}`;
+      },
+    };
+    const [preprint] = bib.formatStructured([bib.getEntry("doe-jones:2025:preprint")!], { decorators: [newMarker] });
+    expect(preprint.content[0]).toBe("new Doe, J., & Jones, P. (2025). ");
+    expect(JSON.stringify(preprint.content)).toContain('"children":["A Preprint on ",{"type":"emph","children":["Sprockets"]}]');
+    expect(preprint.title?.url).toBe("https://arxiv.org/abs/2501.99999v2");
+
+    expect(bib.formatMarkdown(bib.entries, { decorators: [newMarker] }).match(/new Doe/g)).toHaveLength(1);
+  });
+
+  it("can replace, move and remove the built-ins", () => {
+    const options = { titleLink: ["doi"], badges: [badgePreset("doi")], linkifyUrls: false };
+    const moved = bib.formatEntry(widgets, { ...options, decorators: [builtInDecorator("badges", { order: 150 })] });
+    expect(moved).toMatch(/<span class="bib-links">.*<\/span>$/);
+    expect(moved.match(/bib-links/g)).toHaveLength(1);
+    expect(bib.formatEntry(widgets, { ...options, decorators: [{ name: "titleLink", decorate: (html) => html }] }))
+      .not.toContain(">On the Enumeration of Widgets</a>");
+
+    expect(unregisterDecorator("badges")).toBe(true);
+    expect(bib.formatEntry(widgets, options)).not.toContain("bib-links");
+    registerDecorator({ name: "titleLink", decorate: (html) => `${html} <small>linked</small>` });
+    expect(listDecorators().map(({ name, builtIn }) => [name, builtIn])).toEqual([
+      ["highlightAuthors", true],
+      ["titleLink", false],
+    ]);
+    expect(bib.formatEntry(widgets, options)).toMatch(/Widgets\.? .*<small>linked<\/small>$/);
+    expect(() => builtInDecorator("citations")).toThrow(
+      'Unknown built-in decorator "citations". Built-in decorators: highlightAuthors, titleLink, badges.',
+    );
+  });
+
+  it("reject repeated names and name failing decorators", () => {
+    expect(() => bib.formatHtml([widgets], { decorators: [funding, funding] })).toThrow(
+      'The decorator "funding" is given more than once in options.decorators.',
+    );
+    expect(() => parseFormatOptions({ decorators: [funding, funding] }, "bib.mjs")).toThrow(
+      'bib.mjs: decorators[1].name: The decorator "funding" is given more than once.',
+    );
+
+    const failing = { name: "citations", decorate: () => { throw new Error("no counts.json"); } };
+    expect(() => bib.formatHtml([widgets], { decorators: [failing] })).toThrow(
+      'Decorator "citations" failed for entry "doe-smith:2023:widgets": no counts.json',
+    );
+  });
+
+  it("can be given in .mjs configs", () => {
+    expect(parseFormatOptions({ decorators: [{ ...funding, order: 10 }] }).decorators).toEqual([
+      { name: "funding", order: 10, decorate: funding.decorate },
+    ]);
+    expect(() => parseFormatOptions({ decorators: [{ name: "funding" }] }, "bib.mjs")).toThrow(
+      "bib.mjs: decorators[0].decorate: Expected a function, got nothing.",
+    );
+    expect(() => parseFormatOptions({ decorators: [{ ...funding, ordr: 10 }] }, "bib.mjs")).toThrow(
+      'bib.mjs: decorators[0].ordr: Unknown option. Did you mean "order"?',
+    );
+  });
+});
@@ -0,0 +1,119 @@
+import { describe, it, expect } from "vitest";
+import { Bibliography, normalizeArxivId, normalizeDoi } from "../src/index.js";
+import { SAMPLE_BIB } from "./fixtures.js";
+
+const COLLABORATOR_BIB = `
+@article{Doe2024,
+  author  = {Doe, J.},
+  title   = {Gadgets and Their Applications},
+  journal = {Gadget Review},
+  year    = {2024},
+  doi     = {https://doi.org/10.5678/GR.2024.003},
+  note    = {from Alex},
+}
+
+@misc{doe-smith-preprint,
+  author       = {Doe, Jane and Smith, Alex},
+  title        = {Enumeration of widgets},
+  year         = {2022},
+  eprint       = {2301.00001v1},
+  archiveprefix = {arXiv},
+}
+
+@inproceedings{smith:iwc,
+  author    = {Smith, Alex and Doe, Jane},
+  title     = {Widget bounds in higher dimension},
+  booktitle = {IWC 2021},
+  year      = {2021},
+}
+
+@article{jones:2021,
+  author = {Jones, Pat},
+  title  = {Widget Bounds in Higher Dimensions},
+  year   = {2019},
+}
+`;
+
+function makeBib() {
+  return new Bibliography({
+    data: [SAMPLE_BIB, COLLABORATOR_BIB],
+    customFields: ["publication-status", "note"],
+  });
+}
+
+function keys(entries: { key: string }[]) {
+  return entries.map((e) => e.key);
+}
+
+describe("identifier normalization", () => {
+  it("strips DOI and arXiv prefixes and versions", () => {
+    expect(normalizeDoi("https://dx.doi.org/10.1/ABC")).toBe("10.1/ABC");
+    expect(normalizeDoi("doi: 10.1/abc")).toBe("10.1/abc");
+    expect(normalizeArxivId("arXiv:2301.00001v2")).toBe("2301.00001");
+    expect(normalizeArxivId("https://arxiv.org/pdf/math/0601001v3.pdf")).toBe("math/0601001");
+  });
+});
+
+describe("findDuplicates", () => {
+  it("clusters by DOI, arXiv id and fuzzy title", () => {
+    const bib = makeBib();
+    const clusters = bib.findDuplicates();
+    expect(clusters.map((c) => ({ keys: keys(c.entries), reasons: c.reasons }))).toEqual([
+      { keys: ["doe-smith:2023:widgets", "doe-smith-preprint"], reasons: ["arxiv"] },
+      { keys: ["doe:2024:gadgets", "Doe2024"], reasons: ["doi"] },
+      { keys: ["smith-doe:2021:conf", "smith:iwc"], reasons: ["title"] },
+    ]);
+    expect(clusters[0].confidence).toBe(1);
+    expect(clusters[2].confidence).toBeGreaterThanOrEqual(0.85);
+    expect(clusters[2].confidence).toBeLessThan(1);
+  });
+
+  it("does not match similar titles with different authors and years", () => {
+    const bib = makeBib();
+    const all = bib.findDuplicates(bib.entries, { threshold: 0 });
+    const keySets = all.map((c) => keys(c.entries));
+    expect(keySets).toContainEqual(["smith-doe:2021:conf", "smith:iwc", "jones:2021"]);
+    expect(all.find((c) => c.entries.length === 3)!.confidence).toBeLessThan(0.5);
+    expect(bib.findDuplicates().some((c) => keys(c.entries).includes("jones:2021"))).toBe(false);
+  });
+
+  it("can be restricted to identifiers", () => {
+    const bib = makeBib();
+    expect(bib.findDuplicates(bib.entries, { by: ["doi"] }).map((c) => c.reasons)).toEqual([["doi"]]);
+  });
+
+  it("matches titles of entries with the same DOI without `doi` in `by`", () => {
+    const bib = makeBib();
+    const gadgets = bib.findDuplicates(bib.entries, { by: ["title"] })
+      .find((c) => keys(c.entries).includes("Doe2024"));
+    expect(gadgets?.reasons).toEqual(["title"]);
+    expect(keys(gadgets!.entries)).toEqual(["doe:2024:gadgets", "Doe2024"]);
+  });
+});
+
+describe("dedupe", () => {
+  it("collapses clusters in place, merging missing fields", () => {
+    const bib = makeBib();
+    const deduped = bib.dedupe();
+    expect(keys(deduped)).toEqual([
+      "doe-smith:2023:widgets",
+      "doe:2024:gadgets",
+      "doe-jones:2025:preprint",
+      "doe:2022:software",
+      "smith-doe:2021:conf",
+      "jones:2021",
+    ]);
+
+    const gadgets = deduped[1];
+    expect(gadgets.raw.title).toBe("Gadgets and their Applications");
+    expect(gadgets.custom).toEqual({ "publication-status": "published", note: "from Alex" });
+    expect(bib.entries).toHaveLength(9);
+  });
+
+  it("keeps the most complete entry when asked", () => {
+    const bib = makeBib();
+    const deduped = bib.dedupe(bib.entries, { merge: "most-complete", by: ["title"] });
+    expect(keys(deduped)).toContain("smith-doe:2021:conf");
+    expect(keys(deduped)).not.toContain("smith:iwc");
+  });
+});
@@ -0,0 +1,137 @@
+import { describe, it, expect } from "vitest";
+import { processCitations } from "../src/index.js";
+import { makeBib } from "./fixtures.js";
+
+describe("processCitations – Markdown", () => {
+  it("renders bracketed clusters with locators and appends references", () => {
+    const bib = makeBib();
+    const { output, citedKeys, warnings } = processCitations(
+      "Gadgets matter [@doe:2024:gadgets, p. 4].\n",
+      bib,
+    );
+    expect(warnings).toEqual([]);
+    expect(citedKeys).toEqual(["doe:2024:gadgets"]);
+    expect(output).toMatch(/^Gadgets matter \(Doe, 2024, p\. 4\)\.\n\n1\. Doe, J\. \(2024\)\. \[Gadgets/);
+  });
+
+  it("parses prefixes, labels, suffixes and multiple items", () => {
+    const bib = makeBib();
+    const { output } = processCitations(
+      "[see @doe:2024:gadgets, chap. 2; also @smith-doe:2021:conf, pp. 55-57 and passim]",
+      bib,
+      { bibliography: false },
+    );
+    expect(output).toBe(
+      "(see Doe, 2024, Chapter 2; also Smith & Doe, 2021, pp. 55–57 and passim)",
+    );
+  });
+
+  it("keeps non-locator text after a comma as suffix", () => {
+    const bib = makeBib();
+    const { output } = processCitations("[@doe:2024:gadgets, emphasis added]", bib, {
+      bibliography: false,
+    });
+    expect(output).toBe("(Doe, 2024, emphasis added)");
+  });
+
+  it("renders in-text and author-suppressed citations", () => {
+    const bib = makeBib();
+    const { output } = processCitations(
+      "@doe:2024:gadgets shows this, as does @smith-doe:2021:conf [p. 58]. Doe agrees [-@doe:2024:gadgets].",
+      bib,
+      { bibliography: false },
+    );
+    expect(output).toBe(
+      "Doe (2024) shows this, as does Smith & Doe (2021, p. 58). Doe agrees (2024).",
+    );
+  });
+
+  it("ignores e-mail addresses, code and escaped markers", () => {
+    const bib = makeBib();
+    const doc = [
+      "Mail jane@doe:2024:gadgets.org, or run `cite [@doe:2024:gadgets]`.",
+      "```",
+      "@doe:2024:gadgets",
+      "```",
+      "Literal \\@doe:2024:gadgets.",
+    ].join("\n");
+    const { output, citedKeys } = processCitations(doc, bib);
+    expect(output).toBe(doc);
+    expect(citedKeys).toEqual([]);
+  });
+
+  it("reports unknown keys with positions and leaves their markers", () => {
+    const bib = makeBib();
+    const { output, warnings } = processCitations(
+      "Intro.\nSee [@nope; @doe:2024:gadgets] and [@missing].",
+      bib,
+      { bibliography: false },
+    );
+    expect(output).toBe("Intro.\nSee (Doe, 2024) and [@missing].");
+    expect(warnings).toEqual([
+      {
+        code: "unknown-key",
+        key: "nope",
+        line: 2,
+        column: 6,
+        message: 'Unknown citation key "nope" at line 2, column 6.',
+      },
+      {
+        code: "unknown-key",
+        key: "missing",
+        line: 2,
+        column: 37,
+        message: 'Unknown citation key "missing" at line 2, column 37.',
+      },
+    ]);
+  });
+
+  it("leaves unknown keys out of clusters with known ones", () => {
+    const bib = makeBib();
+    const { output, citedKeys, warnings } = processCitations(
+      "See [see @nope, p. 3; @doe:2024:gadgets, p. 5].",
+      bib,
+      { bibliography: false },
+    );
+    expect(output).toBe("See (Doe, 2024, p. 5).");
+    expect(citedKeys).toEqual(["doe:2024:gadgets"]);
+    expect(warnings.map((warning) => warning.key)).toEqual(["nope"]);
+  });
+
+  it("uses final disambiguation and cited order for numeric styles", () => {
+    const bib = makeBib({ cslStyle: "vancouver" });
+    const { output } = processCitations(
+      "A [@smith-doe:2021:conf]. B [@doe:2024:gadgets; @smith-doe:2021:conf].\n\n<div id=\"refs\"></div>\n\nEnd.",
+      bib,
+      { bibliography: { list: "ul", linkifyUrls: false } },
+    );
+    expect(output).toMatch(/^A \(1\)\. B \(1,2\)\.\n\n<div id="refs">\n\n- 1\. Smith A/);
+    expect(output).toMatch(/\n- 2\. Doe J[^\n]*\n\n<\/div>\n\nEnd\.$/);
+  });
+});
+
+describe("processCitations – HTML", () => {
+  it("renders HTML citations and fills the refs placeholder", () => {
+    const bib = makeBib();
+    const { output } = processCitations(
+      '<p>See [@smith-doe:2021:conf].</p>\n<div id="refs"></div>\n<p>Footer</p>',
+      bib,
+      { format: "html", bibliography: { linkifyUrls: false } },
+    );
+    expect(output).toMatch(/^<p>See \(Smith &#38; Doe, 2021\)\.<\/p>\n<div id="refs">\n<ol class="csl-bib-body">/);
+    expect(output).toMatch(/<\/ol>\n<\/div>\n<p>Footer<\/p>$/);
+  });
+
+  it("leaves markup, attributes and code untouched", () => {
+    const bib = makeBib();
+    const doc = '<a title="@doe:2024:gadgets">x</a><code>[@doe:2024:gadgets]</code>';
+    const { output } = processCitations(doc, bib, { format: "html" });
+    expect(output).toBe(doc);
+  });
+
+  it("appends the bibliography when there is no placeholder", () => {
+    const bib = makeBib();
+    const { output } = processCitations("<p>@doe:2024:gadgets</p>", bib, { format: "html" });
+    expect(output).toMatch(/^<p>Doe \(2024\)<\/p>\n\n<div id="refs">\n<ol class="csl-bib-body">/);
+  });
+});
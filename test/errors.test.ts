@@ -0,0 +1,141 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import Cite from "citation-js";
+import {
+  Bibliography,
+  BibliographyError,
+  DuplicateKeyError,
+  ParseError,
+  StyleError,
+} from "../src/index.js";
+
+const BROKEN_BIB = `@string{rev = "Gadget Rev."}
+
+@Article{good:2020,
+  author  = {Doe, Jane},
+  title   = {Good},
+  journal = rev,
+  year    = {2020},
+}
+
+@Article{bad:2021,
+  author = {Doe, Jane},
+  title  = {Unclosed,
+  year   = {2021},
+}
+
+@Article{bad:2022, title = {Missing comma} year = {2022}}
+
+@Article{good:2023,
+  title = {Also Good},
+  year  = {2023},
+}
+`;
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("error classes", () => {
+  it("throws a StyleError for unknown styles", () => {
+    let error: unknown;
+    try {
+      new Bibliography({ data: "", cslStyle: "no-such-style" });
+    } catch (e) {
+      error = e;
+    }
+    expect(error).toBeInstanceOf(StyleError);
+    expect(error).toBeInstanceOf(BibliographyError);
+    expect(error).toMatchObject({ name: "StyleError", style: "no-such-style" });
+  });
+
+  it("throws a ParseError with the location of a syntax error", () => {
+    let error: ParseError | undefined;
+    try {
+      new Bibliography({ data: ["@Misc{ok, title={Fine}}", BROKEN_BIB] });
+    } catch (e) {
+      error = e as ParseError;
+    }
+    expect(error).toBeInstanceOf(ParseError);
+    expect(error).toMatchObject({ name: "ParseError", source: null, line: 16, column: 1 });
+    expect(error!.message).toBe("inline data:16:1: Invalid BibTeX: invalid syntax");
+    expect(error!.cause).toBeInstanceOf(Error);
+  });
+
+  it("locates JSON syntax errors", () => {
+    expect(() => new Bibliography({ data: '[{"id": "a"},\n {"id": "b",}]' })).toThrow(
+      expect.objectContaining({ line: 2, column: 13 }),
+    );
+  });
+
+  it("reports unrecognized input as a ParseError", () => {
+    expect(() => new Bibliography({ data: "hello" })).toThrow(ParseError);
+  });
+});
+
+describe("lenient mode", () => {
+  it("skips bad entries and collects their errors", () => {
+    const bib = new Bibliography({ data: BROKEN_BIB, lenient: true });
+    expect(bib.entries.map((e) => [e.key, e.line])).toEqual([
+      ["good:2020", 3],
+      ["good:2023", 18],
+    ]);
+    expect(bib.getEntry("good:2020")!.csl["container-title"]).toBe("Gadget Rev.");
+    expect(bib.parseErrors.map((e) => [e.key, e.line, e.reason])).toEqual([
+      ["bad:2021", 15, 'Invalid BibTeX: expected "rbrace", got EOF'],
+      ["bad:2022", 16, 'Invalid BibTeX: expected "rbrace", got "identifier"'],
+    ]);
+    expect(bib.parseErrors[1].column).toBe(44);
+  });
+
+  it("collects duplicate keys and keeps the first occurrence", () => {
+    const entry = "@Misc{dup, title={First}}";
+    const bib = new Bibliography({ data: [entry, entry.replace("First", "Second")], lenient: true });
+    expect(bib.entries.map((e) => e.csl.title)).toEqual(["First"]);
+    expect(bib.parseErrors).toHaveLength(1);
+    expect(bib.parseErrors[0]).toBeInstanceOf(DuplicateKeyError);
+    expect(bib.parseErrors[0].message).toBe(
+      'inline data #2:1: Duplicate citation key "dup" (first defined in inline data #1:1).',
+    );
+  });
+
+  it("skips unparseable non-BibTeX sources", () => {
+    const bib = new Bibliography({ data: ['[{"id": }]', "@Misc{ok, title={Fine}}"], lenient: true });
+    expect(bib.entries.map((e) => e.key)).toEqual(["ok"]);
+    expect(bib.parseErrors.map((e) => e.message)).toEqual([
+      expect.stringMatching(/^inline data: Invalid CSL-JSON: Unexpected token/),
+    ]);
+  });
+
+  it("has no errors for valid input", () => {
+    const bib = new Bibliography({ data: "@Misc{ok, title={Fine}}", lenient: true });
+    expect(bib.parseErrors).toEqual([]);
+  });
+});
+
+describe("unmatchedEntries", () => {
+  it("reports records found by only one pass", () => {
+    const chainLink = Cite.plugins.input.chainLink;
+    vi.spyOn(Cite.plugins.input, "chainLink").mockImplementation((data: string) => [
+      ...chainLink(data).filter((r: { label: string }) => r.label !== "b"),
+      { type: "article", label: "ghost", properties: { title: "Ghost" } },
+    ]);
+
+    const bib = new Bibliography({ data: "@Misc{a, title={A}}\n@Misc{b, title={B}}" });
+    expect(bib.entries.map((e) => e.key)).toEqual(["a", "b"]);
+    expect(bib.getEntry("b")!.raw).toEqual({});
+    expect(bib.unmatchedEntries).toEqual([
+      { key: "b", source: null, line: 2, missing: "raw" },
+      { key: "ghost", source: null, line: null, missing: "csl" },
+    ]);
+  });
+
+  it("pairs repeated keys within one source in order", () => {
+    const bib = new Bibliography({
+      data: "@Misc{a, title={First}}\n@Misc{a, title={Second}}",
+      duplicateKeys: "last",
+    });
+    expect(bib.entries).toHaveLength(1);
+    expect(bib.entries[0]).toMatchObject({ line: 2, raw: { title: "Second" } });
+    expect(bib.unmatchedEntries).toEqual([]);
+  });
+});
@@ -1,3 +1,5 @@
+import { Bibliography, type BibliographyOptions } from "../src/index.js";
+
 /** Minimal BibTeX fixture with custom fields for testing. */
 export const SAMPLE_BIB = `
 @Article{doe-smith:2023:widgets,
@@ -57,3 +59,12 @@ export const SAMPLE_BIB = `
   zbl       = {7654.12345},
 }
 `;
+
+/** A bibliography of {@link SAMPLE_BIB} with its custom fields declared. */
+export function makeBib(overrides: Partial<BibliographyOptions> = {}): Bibliography {
+  return new Bibliography({
+    data: SAMPLE_BIB,
+    customFields: ["publication-status", "arxiv", "mrnumber", "project", "zbl"],
+    ...overrides,
+  });
+}
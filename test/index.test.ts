@@ -2,16 +2,9 @@ import { describe, it, expect } from "vitest";
 import { mkdirSync, rmSync, writeFileSync } from "node:fs";
 import { dirname, join } from "node:path";
 import Cite from "citation-js";
-import { Bibliography, linkifyBareUrls } from "../src/index.js";
-import { SAMPLE_BIB } from "./fixtures.js";
-
-function makeBib(overrides: Record<string, unknown> = {}) {
-  return new Bibliography({
-    data: SAMPLE_BIB,
-    customFields: ["publication-status", "arxiv", "mrnumber", "project", "zbl"],
-    ...overrides,
-  });
-}
+import { Bibliography, BibliographyError, StyleError, linkifyBareUrls, listStyles } from "../src/index.js";
+import { parseFormatOptions } from "../src/config.js";
+import { SAMPLE_BIB, makeBib } from "./fixtures.js";
 
 // ---------------------------------------------------------------------------
 // Parsing & custom fields
@@ -165,6 +158,32 @@ describe("csl styles", () => {
     expect(apaHtml).not.toContain('class="csl-left-margin"');
     expect(vanHtml).toContain('class="csl-left-margin"');
   });
+
+  it("accepts a style per call", () => {
+    const bib = makeBib();
+    const entries = bib.entries.slice(0, 2);
+    const apa = bib.formatHtml(entries);
+    const vancouver = bib.formatHtml(entries, { cslStyle: "vancouver" });
+    expect(vancouver).toContain('<div class="csl-left-margin">2. </div>');
+    expect(apa).not.toContain('class="csl-left-margin"');
+    expect(bib.formatHtml(entries)).toBe(apa);
+    expect(bib.templateName).toBe("apa");
+
+    const xml = Cite.plugins.config.get("@csl").templates.data.vancouver;
+    expect(bib.formatEntry(entries[0], { cslStyle: xml })).toContain('class="csl-left-margin"');
+    expect(() => bib.formatHtml(entries, { cslStyle: "no-such-style" })).toThrow(StyleError);
+  });
+
+  it("lists registered styles", () => {
+    const styles = listStyles().map((style) => style.name);
+    expect(styles).toEqual(expect.arrayContaining(["apa", "harvard1", "vancouver"]));
+    expect(styles).toEqual([...styles].sort());
+
+    const xml = Cite.plugins.config.get("@csl").templates.data.harvard1.replace("Harvard", "Harvard (copy)");
+    const bib = new Bibliography({ data: SAMPLE_BIB, cslStyle: xml });
+    expect(bib.templateName).toMatch(/^custom-[0-9a-f]{1,8}$/);
+    expect(listStyles().map((style) => style.name)).toContain(bib.templateName);
+  });
 });
 
 // ---------------------------------------------------------------------------
@@ -328,6 +347,219 @@ describe("formatEntry – badges", () => {
     expect(html).not.toContain("bib-links");
     expect(html).not.toContain('href="javascript:alert(1)"');
   });
+
+  it("renders icons, tooltips and link attributes", () => {
+    const bib = makeBib();
+    const widgets = bib.getEntry("doe-smith:2023:widgets")!;
+    const html = bib.formatEntry(widgets, {
+      badges: [{
+        field: "doi",
+        label: "DOI",
+        url: "https://doi.org/$1",
+        icon: '<svg class="icon" aria-hidden="true"></svg>',
+        title: { en: "Open $1", de: "$1 öffnen" },
+        ariaLabel: "DOI $1",
+        rel: "noopener",
+        target: "_blank",
+      }],
+    });
+    expect(html).toContain(
+      '<span class="bib-links"><a href="https://doi.org/10.1234/jws.2023.001" title="Open 10.1234/jws.2023.001" '
+        + 'aria-label="DOI 10.1234/jws.2023.001" rel="noopener" target="_blank">'
+        + '<svg class="icon" aria-hidden="true"></svg> DOI</a></span>',
+    );
+  });
+
+  it("substitutes every capture group", () => {
+    const bib = makeBib();
+    const widgets = bib.getEntry("doe-smith:2023:widgets")!;
+    const html = bib.formatEntry(widgets, {
+      badges: [{
+        field: "doi",
+        label: "$2 ($0)",
+        url: "https://example.com/$1/$2",
+        match: /^10\.(\d+)\/(.+)$/,
+      }],
+    });
+    expect(html).toContain(
+      '<a href="https://example.com/1234/jws.2023.001">jws.2023.001 (10.1234/jws.2023.001)</a>',
+    );
+  });
+
+  it("computes URLs and labels with functions", () => {
+    const bib = new Bibliography({
+      data: `@Article{test, author={A B}, title={T}, year={2024}, file={:papers/test.pdf:PDF}}
+        @Article{other, author={A B}, title={U}, year={2023}, file={:notes.txt:Text}}`,
+    });
+    const badge = {
+      field: "file",
+      label: ({ match }: { match: string[] }) => match[2],
+      url: ({ value }: { value: string }) => {
+        const [, path, type] = value.split(":");
+        return type === "PDF" ? `https://example.com/${path}` : null;
+      },
+      match: /^:(.*):(.*)$/,
+    };
+    const [test, other] = bib.entries.map((entry) => bib.formatEntry(entry, { badges: [badge] }));
+    expect(test).toContain('<a href="https://example.com/papers/test.pdf">PDF</a>');
+    expect(other).not.toContain("bib-links");
+  });
+
+  it("fills in the full match for a first group that didn't match", () => {
+    const bib = new Bibliography({
+      data: `@Article{test, author={A B}, title={T}, year={2024}, eprint={2401.00001}}`,
+    });
+    const badge = {
+      field: "eprint",
+      label: "arXiv $2",
+      url: "https://arxiv.org/abs/$1",
+      match: /^(?:arXiv:(\S+)|\S+)(v\d+)?$/,
+    };
+    expect(bib.formatEntry(bib.entries[0], { badges: [badge] })).toContain(
+      '<a href="https://arxiv.org/abs/2401.00001">arXiv $2</a>',
+    );
+  });
+
+  it("renders badges only for entries matching `when`", () => {
+    const bib = makeBib();
+    const badge = {
+      field: "doi",
+      label: "doi",
+      url: "https://doi.org/$1",
+      when: "publication-status:published AND year>=2023",
+    };
+    const html = bib.entries.map((entry) => bib.formatEntry(entry, { badges: [badge] }));
+    expect(html.map((entry) => entry.includes("bib-links"))).toEqual([true, true, false, false, false]);
+  });
+
+  it("uses a configurable wrapper", () => {
+    const bib = makeBib();
+    const widgets = bib.getEntry("doe-smith:2023:widgets")!;
+    const badges = BADGES.slice(0, 2);
+    expect(bib.formatEntry(widgets, { badges, badgeWrapper: "div", badgeWrapperClass: "links" }))
+      .toMatch(/ <div class="links"><a class="bib-doi" [^>]+>doi<\/a> <a class="bib-arxiv" [^>]+>arXiv<\/a><\/div>$/);
+    expect(bib.formatEntry(widgets, { badges, badgeWrapper: false }))
+      .toMatch(/\.001 <a class="bib-doi" [^>]+>doi<\/a> <a class="bib-arxiv" [^>]+>arXiv<\/a>$/);
+
+    const wrapper = 'span onmouseover="alert(1)"';
+    expect(() => bib.formatEntry(widgets, { badges, badgeWrapper: wrapper })).toThrow(BibliographyError);
+    expect(() => parseFormatOptions({ badgeWrapper: wrapper }, "bib.yaml")).toThrow(
+      `bib.yaml: badgeWrapper: Expected an element name, e.g. "span", got the string ${JSON.stringify(wrapper)}.`,
+    );
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Formatting: author highlighting
+// ---------------------------------------------------------------------------
+
+describe("formatEntry – author highlighting", () => {
+  const JANE = { family: "Doe", given: "Jane" };
+
+  it("highlights the author in APA", () => {
+    const bib = makeBib();
+    const widgets = bib.entries.find((e) => e.key.includes("widgets"))!;
+    const html = bib.formatEntry(widgets, { highlightAuthors: JANE });
+    expect(html).toContain("<strong>Doe, J.</strong>, &#38; Smith, A.");
+  });
+
+  it("highlights initials without dots in Vancouver", () => {
+    const bib = makeBib({ cslStyle: "vancouver" });
+    const conf = bib.entries.find((e) => e.key.includes("conf"))!;
+    const html = bib.formatEntry(conf, { highlightAuthors: [JANE] });
+    expect(html).toContain("Smith A, <strong>Doe J.</strong> ");
+  });
+
+  it("uses a configurable element and class", () => {
+    const bib = makeBib();
+    const gadgets = bib.entries.find((e) => e.key.includes("gadgets"))!;
+    const html = bib.formatEntry(gadgets, {
+      highlightAuthors: JANE,
+      highlightElement: "span",
+      highlightClass: "me",
+    });
+    expect(html).toContain('<span class="me">Doe, J.</span>');
+
+    const element = 'span onclick="x"';
+    expect(() => bib.formatEntry(gadgets, { highlightAuthors: JANE, highlightElement: element }))
+      .toThrow(BibliographyError);
+    expect(() => parseFormatOptions({ highlightElement: element }, "bib.yaml")).toThrow(
+      `bib.yaml: highlightElement: Expected an element name, e.g. "strong", got the string ${JSON.stringify(element)}.`,
+    );
+  });
+
+  it("matches multiple initials, particles and escaped characters", () => {
+    const bib = new Bibliography({
+      data: `@Article{x, author={O'Brien, Mary Ann and de la Cruz, Ana}, title={T}, journal={J}, year={2024}}`,
+    });
+    const html = bib.formatEntry(bib.entries[0], {
+      highlightAuthors: [
+        { family: "O'Brien", given: "Mary Ann" },
+        { family: "de la Cruz", given: "Ana" },
+      ],
+    });
+    expect(html).toContain("<strong>O’Brien, M. A.</strong>");
+    expect(html).toContain("<strong>de la Cruz, A.</strong>");
+  });
+
+  it("only highlights names present in the author list", () => {
+    const bib = new Bibliography({
+      data: `@Article{x, author={Roe, Rick}, title={Remarks on Doe, J.}, journal={J}, year={2024}}`,
+    });
+    const html = bib.formatEntry(bib.entries[0], { highlightAuthors: JANE });
+    expect(html).not.toContain("<strong>");
+  });
+
+  it("does not match a different given-name initial", () => {
+    const bib = new Bibliography({
+      data: `@Article{x, author={Doe, John and Doe, Jane}, title={T}, journal={J}, year={2024}}`,
+    });
+    const html = bib.formatEntry(bib.entries[0], {
+      highlightAuthors: { family: "Doe", given: "Jane Q" },
+    });
+    // Both render as "Doe, J."; the ORCID field would be needed to disambiguate.
+    expect((html.match(/<strong>/g) ?? []).length).toBe(2);
+  });
+
+  it("uses ORCID fields to disambiguate", () => {
+    const bib = new Bibliography({
+      data: `@Article{x, author={Doe, Jane}, title={T}, journal={J}, year={2024}, orcid={0000-0001-0000-0001}}`,
+    });
+    const html = bib.formatEntry(bib.entries[0], {
+      highlightAuthors: { ...JANE, orcid: "https://orcid.org/0000-0002-1825-0097" },
+    });
+    expect(html).not.toContain("<strong>");
+
+    const matched = bib.formatEntry(bib.entries[0], {
+      highlightAuthors: { ...JANE, orcid: "0000-0001-0000-0001" },
+    });
+    expect(matched).toContain("<strong>Doe, J.</strong>");
+  });
+
+  it("highlights name variants", () => {
+    const bib = new Bibliography({
+      data: `@Article{x, author={Doe-Smith, Jane}, title={T}, journal={J}, year={2024}}`,
+    });
+    const html = bib.formatEntry(bib.entries[0], {
+      highlightAuthors: { ...JANE, variants: [{ family: "Doe-Smith", given: "Jane" }] },
+    });
+    expect(html).toContain("<strong>Doe-Smith, J.</strong>");
+  });
+
+  it("keeps the title linked when it contains the name", () => {
+    const bib = new Bibliography({
+      data: `@Article{x, author={Euler, Leonhard}, title={On Euler Sums}, journal={J}, year={1775}, url={https://example.com/euler}}`,
+    });
+    const options = { highlightAuthors: { family: "Euler" } };
+    expect(bib.formatEntry(bib.entries[0], options)).toMatch(
+      /^<strong>Euler<\/strong>, L\. \(1775\)\. <a href="https:\/\/example\.com\/euler">On Euler Sums<\/a>\./,
+    );
+    expect(bib.formatMarkdown(bib.entries, options)).toContain("[On Euler Sums](https://example.com/euler)");
+    expect(bib.formatStructured(bib.entries, options)[0].title).toEqual({
+      text: "On Euler Sums",
+      url: "https://example.com/euler",
+    });
+  });
 });
 
 // ---------------------------------------------------------------------------
@@ -393,6 +625,117 @@ describe("formatHtml", () => {
   });
 });
 
+// ---------------------------------------------------------------------------
+// Grouping
+// ---------------------------------------------------------------------------
+
+describe("group", () => {
+  it("groups by year, newest first", () => {
+    const bib = makeBib();
+    const groups = bib.group(bib.entries, { by: "year" });
+    expect(groups.map((g) => g.key)).toEqual(["2025", "2024", "2023", "2022", "2021"]);
+  });
+
+  it("groups by custom field with explicit order", () => {
+    const bib = makeBib();
+    const groups = bib.group(bib.entries, {
+      by: "publication-status",
+      order: ["preprint", "published"],
+      labels: { published: "Articles", preprint: "Preprints" },
+    });
+    expect(groups.map((g) => g.key)).toEqual(["preprint", "published", "software"]);
+    expect(groups.map((g) => g.label)).toEqual(["Preprints", "Articles", "software"]);
+    expect(groups[1].entries).toHaveLength(3);
+  });
+
+  it("groups by CSL type", () => {
+    const bib = makeBib();
+    const groups = bib.group(bib.entries, { by: "type" });
+    const journal = groups.find((g) => g.key === "article-journal")!;
+    expect(journal.entries).toHaveLength(2);
+  });
+
+  it("puts entries without a value last", () => {
+    const bib = makeBib({ customFields: ["project"] });
+    const groups = bib.group(bib.entries, { by: "project" });
+    expect(groups.map((g) => g.key)).toEqual(["WidgetFund-1234", ""]);
+    expect(groups[1].label).toBe("Other");
+  });
+});
+
+describe("formatGroupedHtml", () => {
+  it("renders one headed section per group", () => {
+    const bib = makeBib();
+    const html = bib.formatGroupedHtml(bib.entries, {
+      by: "publication-status",
+      order: ["published"],
+      headingLevel: 3,
+    });
+    expect((html.match(/<section /g) ?? []).length).toBe(3);
+    expect(html).toContain(
+      '<section id="bib-published" class="bib-group">\n<h3 class="bib-group-heading">published</h3>\n<ol reversed class="csl-bib-body">',
+    );
+  });
+
+  it("restarts numbering per group by default", () => {
+    const bib = makeBib();
+    const html = bib.formatGroupedHtml(bib.entries, { by: "year" });
+    expect(html).not.toContain("start=");
+  });
+
+  it("continues reversed numbering across groups", () => {
+    const bib = makeBib();
+    const html = bib.formatGroupedHtml(bib.sort(bib.entries), {
+      by: "publication-status",
+      order: ["preprint", "published", "software"],
+      continueNumbering: true,
+    });
+    const starts = [...html.matchAll(/<ol reversed start="(\d+)"/g)].map((m) => m[1]);
+    expect(starts).toEqual(["5", "4", "1"]);
+  });
+
+  it("continues ascending numbering from a custom start", () => {
+    const bib = makeBib();
+    const html = bib.formatGroupedHtml(bib.entries, {
+      by: "year",
+      order: "asc",
+      listAttributes: { start: "3" },
+      continueNumbering: true,
+    });
+    const starts = [...html.matchAll(/<ol start="(\d+)"/g)].map((m) => m[1]);
+    expect(starts).toEqual(["3", "4", "5", "6", "7"]);
+  });
+
+  it("continues numeric style labels across groups", () => {
+    const bib = makeBib({ cslStyle: "vancouver" });
+    const html = bib.formatGroupedHtml(bib.entries, {
+      by: "year",
+      continueNumbering: true,
+      linkifyUrls: false,
+    });
+    const labels = [...html.matchAll(/class="csl-left-margin">(\d+)\.\s*<\/div>/g)].map(
+      (m) => m[1],
+    );
+    expect(labels).toEqual(["1", "2", "3", "4", "5"]);
+  });
+
+  it("gives every section its own id", () => {
+    const bib = new Bibliography({
+      data: ["C++", "C#", "数学"]
+        .map((topic, i) => `@Misc{m${i}, author={A B}, title={T${i}}, year={2020}, topic={${topic}}}`)
+        .join("\n"),
+      customFields: ["topic"],
+    });
+    const html = bib.formatGroupedHtml(bib.entries, { by: "topic", order: ["C++", "C#", "数学"] });
+    expect([...html.matchAll(/<section id="([^"]*)"/g)].map((m) => m[1])).toEqual(["bib-c", "bib-c-2", "bib-group-3"]);
+  });
+
+  it("returns empty string for empty input", () => {
+    const bib = makeBib();
+    expect(bib.formatGroupedHtml([], { by: "year" })).toBe("");
+  });
+});
+
 // ---------------------------------------------------------------------------
 // URL linkification
 // ---------------------------------------------------------------------------
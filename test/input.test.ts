@@ -0,0 +1,136 @@
+import { describe, it, expect } from "vitest";
+import { Bibliography, BibliographyError, detectFormat } from "../src/index.js";
+import { SAMPLE_BIB } from "./fixtures.js";
+
+const CSL_JSON = JSON.stringify([
+  {
+    id: "doe2024",
+    type: "article-journal",
+    title: "Gadgets and their Applications",
+    author: [{ family: "Doe", given: "Jane" }],
+    issued: { "date-parts": [[2024]] },
+    "container-title": "Gadget Rev.",
+    DOI: "10.5678/gr.2024.003",
+    "publication-status": "published",
+    custom: { project: "WidgetFund-1234" },
+  },
+  {
+    id: "item-2",
+    "citation-key": "doe:2025:preprint",
+    type: "article",
+    title: "A Preprint on Sprockets",
+    author: [{ family: "Doe", given: "Jane" }],
+    issued: { "date-parts": [[2025]] },
+    URL: "https://arxiv.org/abs/2501.99999",
+    "publication-status": "preprint",
+  },
+]);
+
+const RIS = `TY  - JOUR
+ID  - doe-ris
+AU  - Doe, Jane
+AU  - Smith, Alex
+TI  - Widgets via RIS
+T2  - J. Widget Sci.
+PY  - 2023
+DO  - 10.1234/jws.2023.001
+KW  - widgets
+KW  - enumeration
+C1  - published
+ER  -
+
+TY  - BOOK
+TI  - An Untitled Book
+PY  - 2020
+ER  -
+`;
+
+const BADGES = [{ field: "doi", label: "doi", url: "https://doi.org/$1" }];
+
+describe("detectFormat", () => {
+  it("recognizes BibTeX, CSL-JSON and RIS", () => {
+    expect(detectFormat(SAMPLE_BIB)).toBe("bibtex");
+    expect(detectFormat("@online{x, date={2024-03}, urldate={2024-05-01}}")).toBe("bibtex");
+    expect(detectFormat(CSL_JSON)).toBe("csl-json");
+    expect(detectFormat(RIS)).toBe("ris");
+  });
+
+  it("throws on unrecognized input", () => {
+    expect(() => detectFormat("just some text")).toThrow(/Unrecognized input format/);
+  });
+});
+
+describe("CSL-JSON input", () => {
+  it("keeps non-standard properties in raw and custom", () => {
+    const bib = new Bibliography({
+      data: CSL_JSON,
+      customFields: ["publication-status", "project"],
+    });
+    expect(bib.entries.map((e) => e.key)).toEqual(["doe2024", "doe:2025:preprint"]);
+    const [first] = bib.entries;
+    expect(first).toMatchObject({
+      entryType: "article-journal",
+      inputFormat: "csl-json",
+      year: 2024,
+      custom: { "publication-status": "published", project: "WidgetFund-1234" },
+    });
+    expect(first.raw.DOI).toBe("10.5678/gr.2024.003");
+  });
+
+  it("supports filters, badges and title links like BibTeX", () => {
+    const bib = new Bibliography({ data: CSL_JSON, customFields: ["publication-status"] });
+    expect(bib.filter({ "publication-status": "preprint" }).map((e) => e.key)).toEqual([
+      "doe:2025:preprint",
+    ]);
+    expect(bib.filter("has:doi").map((e) => e.key)).toEqual(["doe2024"]);
+
+    const html = bib.formatHtml(bib.entries, { badges: BADGES });
+    expect(html).toContain('<a href="https://doi.org/10.5678/gr.2024.003">Gadgets and their Applications</a>');
+    expect(html).toContain('<a href="https://doi.org/10.5678/gr.2024.003">doi</a>');
+    expect(html).toContain('<a href="https://arxiv.org/abs/2501.99999">A Preprint on Sprockets</a>');
+  });
+});
+
+describe("RIS input", () => {
+  it("keeps tags in raw and uses ID or positional keys", () => {
+    const bib = new Bibliography({ data: RIS, customFields: ["C1", "KW"] });
+    expect(bib.entries.map((e) => e.key)).toEqual(["doe-ris", "ris-2"]);
+    const [first, second] = bib.entries;
+    expect(first).toMatchObject({
+      entryType: "JOUR",
+      inputFormat: "ris",
+      year: 2023,
+      custom: { C1: "published", KW: "widgets; enumeration" },
+    });
+    expect(first.raw.AU).toEqual(["Doe, Jane", "Smith, Alex"]);
+    expect(second).toMatchObject({ entryType: "BOOK", year: 2020, custom: {} });
+    expect(bib.getEntry("ris-2")).toBe(second);
+  });
+
+  it("formats, cites and badges entries", () => {
+    const bib = new Bibliography({ data: RIS });
+    const html = bib.formatHtml([bib.getEntry("doe-ris")!], { badges: BADGES });
+    expect(html).toContain('<a href="https://doi.org/10.1234/jws.2023.001">Widgets via RIS</a>');
+    expect(html).toContain('<a href="https://doi.org/10.1234/jws.2023.001">doi</a>');
+    expect(bib.cite("ris-2")).toBe("(<i>An Untitled Book</i>, 2020)");
+  });
+
+  it("can't be exported to BibTeX", () => {
+    const bib = new Bibliography({ data: RIS });
+    expect(() => bib.toBibtex()).toThrow('Cannot export entry "doe-ris" to BibTeX: it was parsed from ris.');
+    expect(() => bib.toBibtex()).toThrow(BibliographyError);
+  });
+});
+
+describe("format option", () => {
+  it("accepts a matching explicit format", () => {
+    expect(new Bibliography({ data: SAMPLE_BIB, format: "biblatex" }).entries).toHaveLength(5);
+    expect(new Bibliography({ data: RIS, format: "ris" }).entries).toHaveLength(2);
+  });
+
+  it("throws when the content doesn't match", () => {
+    expect(() => new Bibliography({ data: SAMPLE_BIB, format: "csl-json" })).toThrow(
+      "Expected CSL-JSON input, got BibTeX.",
+    );
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { mkdirSync, rmSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { Readable } from "node:stream";
+import Cite from "citation-js";
+import { Bibliography, BibliographyError, StyleError } from "../src/index.js";
+import type { FileLoader } from "../src/index.js";
+import { SAMPLE_BIB } from "./fixtures.js";
+
+const DIR = join(process.cwd(), "test", "tmp", "load");
+
+const ALPHA = "@Misc{alpha, title={Alpha}, year={2020}}";
+const BETA = "@Misc{beta, title={Beta}, year={2021}}";
+const CSL_JSON = JSON.stringify([{ id: "gamma", type: "book", title: "Gamma" }]);
+
+const vancouverXml = (): string => Cite.plugins.config.get("@csl").templates.data.vancouver;
+
+/** An in-memory loader that records the paths it is asked for. */
+function memoryLoader(files: Record<string, string>, withGlob = true) {
+  const requested: string[] = [];
+  const loader: FileLoader = {
+    async readFile(path) {
+      requested.push(path);
+      return path in files ? new TextEncoder().encode(files[path]) : null;
+    },
+  };
+  if (withGlob) {
+    loader.glob = async (pattern) => {
+      const prefix = pattern.slice(0, pattern.indexOf("*"));
+      return Object.keys(files).filter((path) => path.startsWith(prefix)).sort();
+    };
+  }
+  return { loader, requested };
+}
+
+beforeAll(() => {
+  mkdirSync(join(DIR, "refs"), { recursive: true });
+  writeFileSync(join(DIR, "refs", "a.bib"), ALPHA);
+  writeFileSync(join(DIR, "refs", "b.bib"), BETA);
+  writeFileSync(join(DIR, "style.csl"), vancouverXml());
+});
+
+afterAll(() => {
+  rmSync(DIR, { recursive: true, force: true });
+});
+
+describe("Bibliography.load", () => {
+  it("reads files, globs and CSL styles with node:fs/promises", async () => {
+    const bib = await Bibliography.load({
+      data: [join(DIR, "refs", "*.bib"), SAMPLE_BIB],
+      cslStyle: join(DIR, "style.csl"),
+    });
+    expect(bib.entries.slice(0, 2).map((e) => [e.key, e.source])).toEqual([
+      ["alpha", join(DIR, "refs", "a.bib")],
+      ["beta", join(DIR, "refs", "b.bib")],
+    ]);
+    expect(bib.entries[2].source).toBeNull();
+    expect(bib.templateName).toMatch(/^custom-/);
+    expect(bib.formatEntry(bib.entries[0])).toContain('class="csl-left-margin"');
+  });
+
+  it("matches the constructor", async () => {
+    const options = { data: SAMPLE_BIB, customFields: ["publication-status"] };
+    const loaded = await Bibliography.load(options);
+    expect(loaded.entries).toEqual(new Bibliography(options).entries);
+  });
+
+  it("decodes bytes and streams", async () => {
+    const encode = (text: string) => new TextEncoder().encode(text);
+    const bytes = encode(BETA);
+    const bib = await Bibliography.load({
+      data: [
+        Buffer.from(ALPHA),
+        Readable.from([bytes.subarray(0, 10), bytes.subarray(10)]),
+        new Blob([CSL_JSON]).stream(),
+      ],
+    });
+    expect(bib.entries.map((e) => [e.key, e.source])).toEqual([
+      ["alpha", null],
+      ["beta", null],
+      ["gamma", null],
+    ]);
+  });
+
+  it("reads files through a custom loader", async () => {
+    const { loader, requested } = memoryLoader({
+      "refs/a.bib": ALPHA,
+      "refs/b.json": CSL_JSON,
+      "style.csl": vancouverXml(),
+    });
+    const bib = await Bibliography.load({
+      data: ["refs/*", BETA],
+      cslStyle: "style.csl",
+      loader,
+    });
+    expect(bib.entries.map((e) => [e.key, e.source])).toEqual([
+      ["alpha", "refs/a.bib"],
+      ["gamma", "refs/b.json"],
+      ["beta", null],
+    ]);
+    expect(bib.templateName).toMatch(/^custom-/);
+    expect(requested).not.toContain(BETA);
+  });
+
+  it("leaves built-in and XML styles alone", async () => {
+    const { loader, requested } = memoryLoader({});
+    const named = await Bibliography.load({ data: ALPHA, cslStyle: "vancouver", loader });
+    expect(named.templateName).toBe("vancouver");
+    await Bibliography.load({ data: ALPHA, cslStyle: vancouverXml(), loader });
+    expect(requested).toEqual([]);
+  });
+
+  it("throws for missing styles and unexpandable globs", async () => {
+    const { loader } = memoryLoader({}, false);
+    await expect(Bibliography.load({ data: ALPHA, cslStyle: "missing.csl", loader })).rejects.toThrow(
+      StyleError,
+    );
+    await expect(Bibliography.load({ data: "refs/*.bib", loader })).rejects.toThrow(
+      new BibliographyError('Cannot expand "refs/*.bib": the loader has no glob().'),
+    );
+    await expect(Bibliography.load({ data: join(DIR, "*.ris") })).rejects.toThrow(/^No files match/);
+  });
+});
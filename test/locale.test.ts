@@ -0,0 +1,121 @@
+import { describe, it, expect, afterAll } from "vitest";
+import { mkdirSync, rmSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import Cite from "citation-js";
+import { Bibliography, LocaleError, createMemoryRenderCache } from "../src/index.js";
+
+const DIR = join(process.cwd(), "test", "tmp", "locale");
+
+const DATA = `
+@Book{roe:2020, editor={Roe, Rick}, title={Edited Volume}, edition={2}, year={2020}, publisher={Pub},
+  doi = {10.5678/ev.2020}}
+@Misc{doe:undated, author={Doe, Jane}, title={Undated Note}}
+`;
+
+const AT_LOCALE = `<?xml version="1.0" encoding="utf-8"?>
+<locale xmlns="http://purl.org/net/xbiblio/csl" version="1.0" xml:lang="de-AT">
+  <terms>
+    <term name="no date" form="short">ohne Jahr</term>
+  </terms>
+</locale>`;
+
+afterAll(() => {
+  rmSync(DIR, { recursive: true, force: true });
+});
+
+describe("locales", () => {
+  it("formats with the bibliography's locale", () => {
+    const en = new Bibliography({ data: DATA });
+    expect(en.locale).toBe("en-US");
+    expect(en.formatText(en.entries)).toMatch(/^2\. Roe, R\. \(Ed\.\)\. \(2020\)\. Edited Volume <.*> \(2nd ed\.\)/);
+
+    const de = new Bibliography({ data: DATA, locale: "de" });
+    expect(de.locale).toBe("de-DE");
+    const text = de.formatText(de.entries);
+    expect(text).toMatch(/^2\. Roe, R\. \(Hrsg\.\)\. \(2020\)\. Edited Volume <.*> \(2\. Aufl\.\)/);
+    expect(text).toContain("Doe, J. (o.\u00a0J.). Undated Note.");
+  });
+
+  it("accepts a locale per call", () => {
+    const bib = new Bibliography({ data: DATA, renderCache: createMemoryRenderCache() });
+    const [entry] = bib.entries;
+    expect(bib.formatEntry(entry, { locale: "fr-FR" })).toContain("(Éd.)");
+    expect(bib.formatEntry(entry)).toContain("(Ed.)");
+    expect(bib.createCitationContext({ locale: "de-DE" }).cite("doe:undated")).toBe("(Doe, o.\u00a0J.)");
+  });
+
+  it("registers locale XML and files under their xml:lang", () => {
+    const bib = new Bibliography({ data: DATA, locale: AT_LOCALE });
+    expect(bib.locale).toBe("de-AT");
+    // Terms missing from de-AT come from de-DE.
+    expect(bib.formatText(bib.entries)).toContain("(Hrsg.)");
+    expect(bib.formatText(bib.entries)).toContain("Doe, J. (ohne Jahr).");
+
+    mkdirSync(DIR, { recursive: true });
+    const file = join(DIR, "de-CH.xml");
+    writeFileSync(file, AT_LOCALE.replace("de-AT", "de-CH").replace("ohne Jahr", "o. D."));
+    expect(new Bibliography({ data: DATA, locale: file }).locale).toBe("de-CH");
+    expect(new Bibliography({ data: DATA, locale: "de-CH" }).formatText([])).toBe("");
+  });
+
+  it("reads locale files in Bibliography.load", async () => {
+    const files: Record<string, string> = {
+      "locales/de-LI.xml": AT_LOCALE.replace("de-AT", "de-LI"),
+    };
+    const bib = await Bibliography.load({
+      data: DATA,
+      locale: "locales/de-LI.xml",
+      loader: { readFile: async (path) => files[path] ?? null },
+    });
+    expect(bib.locale).toBe("de-LI");
+    expect(bib.formatText(bib.entries)).toContain("(ohne Jahr)");
+  });
+
+  it("renders locale XML registered after its code was used", () => {
+    const de = new Bibliography({ data: DATA, locale: "de-DE", renderCache: false });
+    expect(de.formatText(de.entries)).toContain("Doe, J. (o.\u00a0J.).");
+
+    const builtIn: string = Cite.plugins.config.get("@csl").locales.get("de-DE");
+    const custom = (term: string) => builtIn.replace('form="short">o.&#160;J.<', `form="short">${term}<`);
+    const first = new Bibliography({ data: DATA, locale: custom("k. J."), renderCache: false });
+    expect(first.locale).toMatch(/^de-DE-x-[0-9a-f]{1,8}$/);
+    expect(first.formatText(first.entries)).toContain("Doe, J. (k. J.).");
+    expect(first.formatText(first.entries)).toContain("(Hrsg.)");
+    expect(first.formatHtml(first.entries, { badges: [{ field: "doi", label: { de: "DOI-Link" }, url: "https://doi.org/$1" }] }))
+      .toContain(">DOI-Link</a>");
+
+    const second = new Bibliography({ data: DATA, locale: custom("n. J."), renderCache: false });
+    expect(second.formatText(second.entries)).toContain("Doe, J. (n. J.).");
+    expect(first.formatText(first.entries)).toContain("Doe, J. (k. J.).");
+    expect(de.formatText(de.entries)).toContain("Doe, J. (o.\u00a0J.).");
+    expect(new Bibliography({ data: DATA, locale: custom("k. J."), renderCache: false }).locale).toBe(first.locale);
+  });
+
+  it("throws a LocaleError for unknown locales", () => {
+    expect(() => new Bibliography({ data: DATA, locale: "xx-XX" })).toThrow(LocaleError);
+    expect(() => new Bibliography({ data: DATA, locale: "<locale/>" })).toThrow(/xml:lang/);
+    const bib = new Bibliography({ data: DATA });
+    expect(() => bib.formatEntry(bib.entries[0], { locale: "xx" })).toThrow(
+      expect.objectContaining({ name: "LocaleError", locale: "xx" }),
+    );
+  });
+
+  it("localizes generated group headings and badge labels", () => {
+    const bib = new Bibliography({ data: DATA, locale: "de-DE" });
+    const label = { en: "Publisher", de: "Verlag", "de-AT": "Verleger" };
+    const badges = [{ field: "doi", label, url: "https://doi.org/$1" }];
+
+    const html = bib.formatGroupedHtml(bib.entries, { by: "year", badges });
+    expect(html).toContain('<h2 class="bib-group-heading">Ohne Datum</h2>');
+    expect(html).toContain(">Verlag</a>");
+
+    const french = bib.formatGroupedHtml(bib.entries, { by: "publisher", badges, locale: "fr-FR" });
+    expect(french).toContain('<h2 class="bib-group-heading">Autres</h2>');
+    expect(french).toContain(">Publisher</a>");
+
+    expect(bib.group(bib.entries, { by: "year", locale: "en-US" }).map((g) => g.label)).toEqual([
+      "2020",
+      "Undated",
+    ]);
+  });
+});
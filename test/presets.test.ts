@@ -0,0 +1,120 @@
+import { describe, it, expect } from "vitest";
+import {
+  Bibliography,
+  BibliographyError,
+  badgePreset,
+  listBadgePresets,
+  registerBadgePreset,
+} from "../src/index.js";
+import { parseFormatOptions } from "../src/config.js";
+
+const IDENTIFIERS_BIB = `
+@Article{valid,
+  author   = {Doe, Jane},
+  title    = {Identifiers Everywhere},
+  journal  = {J. Ids},
+  year     = {2024},
+  doi      = {https://doi.org/10.1000/xyz123},
+  arxiv    = {arXiv:hep-th/9901001v2},
+  mrnumber = {2345678 (2010k:05123)},
+  zbl      = {Zbl 1234.56789},
+  pmid     = {PMID: 12345678},
+  pmcid    = {PMC1234567},
+  isbn     = {978-3-16-148410-0},
+  hal_id   = {hal-01234567v2},
+  openalex = {https://openalex.org/W2741809807},
+  semanticscholar = {0123456789abcdef0123456789abcdef01234567},
+  orcid    = {0000-0002-1825-0097},
+  swhid    = {swh:1:dir:d198bc9d7a6bcf6db04f476d29314f157507d505},
+  github   = {https://github.com/citation-js/citation-js.git},
+}
+
+@Article{invalid,
+  author   = {Doe, Jane},
+  title    = {Identifiers Nowhere},
+  journal  = {J. Ids},
+  year     = {2023},
+  doi      = {not-a-doi},
+  arxiv    = {2301.1},
+  zbl      = {12.345},
+  pmcid    = {1234567},
+  isbn     = {978-3-16-148},
+  hal_id   = {01234567},
+  orcid    = {0000-0002-1825},
+  swhid    = {swh:1:dir:xyz},
+  github   = {not a repository},
+}
+`;
+
+const bib = new Bibliography({ data: IDENTIFIERS_BIB });
+const presets = listBadgePresets().filter((preset) => preset.builtIn);
+
+describe("badge presets", () => {
+  it("link every built-in identifier", () => {
+    const [valid, invalid] = bib.formatStructured(bib.entries, {
+      badges: presets.map((preset) => badgePreset(preset.name)),
+    });
+    expect(valid.badges.map(({ label, url }) => [label, url])).toEqual([
+      ["DOI", "https://doi.org/10.1000/xyz123"],
+      ["arXiv", "https://arxiv.org/abs/hep-th/9901001"],
+      ["MR", "https://mathscinet.ams.org/mathscinet/article?mr=2345678"],
+      ["zbMATH", "https://zbmath.org/?q=an:1234.56789"],
+      ["PubMed", "https://pubmed.ncbi.nlm.nih.gov/12345678/"],
+      ["PMC", "https://pmc.ncbi.nlm.nih.gov/articles/PMC1234567/"],
+      ["ISBN", "https://en.wikipedia.org/wiki/Special:BookSources/978-3-16-148410-0"],
+      ["HAL", "https://hal.science/hal-01234567"],
+      ["OpenAlex", "https://openalex.org/W2741809807"],
+      ["Semantic Scholar", "https://www.semanticscholar.org/paper/0123456789abcdef0123456789abcdef01234567"],
+      ["ORCID", "https://orcid.org/0000-0002-1825-0097"],
+      ["Software Heritage", "https://archive.softwareheritage.org/swh:1:dir:d198bc9d7a6bcf6db04f476d29314f157507d505"],
+      ["GitHub", "https://github.com/citation-js/citation-js"],
+    ]);
+    expect(invalid.badges).toEqual([]);
+  });
+
+  it("can be overridden per use and extended", () => {
+    expect(badgePreset("arxiv", { label: "Preprint", className: "badge" })).toMatchObject({
+      field: "arxiv",
+      label: "Preprint",
+      url: "https://arxiv.org/abs/$1",
+      className: "badge",
+    });
+    expect(() => badgePreset("inspire")).toThrow(/^Unknown badge preset "inspire"\. Registered presets: doi, arxiv, /);
+    expect(() => registerBadgePreset("doi", badgePreset("doi"))).toThrow(BibliographyError);
+
+    registerBadgePreset("inspire", {
+      field: "inspire",
+      label: "INSPIRE",
+      url: "https://inspirehep.net/literature/$1",
+      match: /^(\d+)$/,
+    });
+    expect(listBadgePresets().at(-1)).toMatchObject({ name: "inspire", builtIn: false });
+    expect(badgePreset("inspire").label).toBe("INSPIRE");
+  });
+
+  it("drive the titleLink chain", () => {
+    const valid = bib.getEntry("valid")!;
+    const titleLink = (names: string[]) => bib.formatStructured([valid], { titleLink: names })[0].title?.url;
+    expect(titleLink(["pubmed", "doi"])).toBe("https://pubmed.ncbi.nlm.nih.gov/12345678/");
+    expect(titleLink(["zbl"])).toBe("https://zbmath.org/?q=an:1234.56789");
+    expect(titleLink(["openalex"])).toBe("https://openalex.org/W2741809807");
+    expect(titleLink(["url"])).toBeNull();
+
+    const invalid = bib.getEntry("invalid")!;
+    expect(bib.formatStructured([invalid], { titleLink: ["doi", "orcid", "isbn"] })[0].title?.url).toBeNull();
+  });
+
+  it("are available in config files", () => {
+    const options = parseFormatOptions({
+      titleLink: ["doi", "hal"],
+      badges: ["doi", { preset: "arxiv", label: { en: "arXiv", de: "arXiv-Preprint" } }],
+    });
+    expect(options.badges).toEqual([
+      badgePreset("doi"),
+      badgePreset("arxiv", { label: { en: "arXiv", de: "arXiv-Preprint" } }),
+    ]);
+    expect(() => parseFormatOptions({ badges: [{ preset: "arxvi" }] }, "bib.yaml")).toThrow(
+      'bib.yaml: badges[0].preset: Unknown badge preset "arxvi". Did you mean "arxiv"?',
+    );
+  });
+});
@@ -0,0 +1,158 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { mkdirSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import {
+  Bibliography,
+  ConfigError,
+  loadProjectConfig,
+  parseProjectConfig,
+  renderProject,
+} from "../src/index.js";
+import { SAMPLE_BIB } from "./fixtures.js";
+
+const DIR = join(process.cwd(), "test", "tmp", "project");
+
+beforeAll(() => {
+  mkdirSync(join(DIR, "refs"), { recursive: true });
+  writeFileSync(join(DIR, "refs", "sample.bib"), SAMPLE_BIB);
+});
+
+afterAll(() => {
+  rmSync(DIR, { recursive: true, force: true });
+});
+
+/** The ConfigError thrown for `config`. */
+function configError(config: unknown): ConfigError {
+  try {
+    parseProjectConfig(config, "bib.yaml");
+  } catch (error) {
+    expect(error).toBeInstanceOf(ConfigError);
+    return error as ConfigError;
+  }
+  throw new Error("Expected a ConfigError");
+}
+
+describe("renderProject", () => {
+  it("renders every view of a YAML config, relative to the file", async () => {
+    const file = join(DIR, "bibliography.yaml");
+    writeFileSync(
+      file,
+      [
+        "data: refs/*.bib",
+        "customFields: [publication-status, arxiv]",
+        "aliases: { status: publication-status }",
+        "defaults:",
+        "  titleLink: []",
+        "  badges:",
+        "    - field: arxiv",
+        "      label: arXiv",
+        "      url: https://arxiv.org/abs/$1",
+        "      match: '/^(.+?)(?:v\\d+)?$/i'",
+        "views:",
+        "  papers:",
+        "    filter: status:published",
+        "    group: { by: year, headingLevel: 3 }",
+        "    output: site/papers.html",
+        "  preprints:",
+        "    filter: { field: publication-status, in: [preprint] }",
+        "    target: markdown",
+        "    badges: []",
+        "  all:",
+        "    sort: year:asc",
+        "    target: json",
+      ].join("\n"),
+    );
+
+    const { bibliography, views } = await renderProject(file);
+    expect(bibliography.entries).toHaveLength(5);
+    expect(views.map(({ name, entries }) => [name, entries.map((entry) => entry.year)])).toEqual([
+      ["papers", [2024, 2023, 2021]],
+      ["preprints", [2025]],
+      ["all", [2021, 2022, 2023, 2024, 2025]],
+    ]);
+
+    const [papers, preprints, all] = views;
+    expect(papers.file).toBe(join(DIR, "site/papers.html"));
+    expect(readFileSync(papers.file!, "utf-8")).toBe(`${papers.output}\n`);
+    expect(papers.output).toContain('<h3 class="bib-group-heading">2023</h3>');
+    expect(papers.output).toContain('<a href="https://arxiv.org/abs/2301.00001">arXiv</a>');
+    expect(preprints.file).toBeNull();
+    expect(preprints.output).toMatch(/^1\. Doe, J\., & Jones, P\. \(2025\)\. \*A Preprint on Sprockets\*\. arXiv/);
+    expect(JSON.parse(all.output)[4].badges).toEqual([
+      expect.objectContaining({ field: "arxiv", label: "arXiv", url: "https://arxiv.org/abs/2501.99999" }),
+    ]);
+  });
+
+  it("loads .mjs configs and config objects", async () => {
+    const module = (target: string) => [
+      "export default {",
+      "  data: ['refs/sample.bib'],",
+      "  cslStyle: 'vancouver',",
+      `  views: { recent: { filter: 'year>=2024', target: '${target}', output: 'out/recent.txt',`,
+      "    group: { by: 'year', labels: (key) => `Year ${key}` } } },",
+      "};",
+    ].join("\n");
+    const invalid = join(DIR, "invalid.config.mjs");
+    writeFileSync(invalid, module("text"));
+    const error = await loadProjectConfig(invalid).catch((e) => e);
+    expect(error.message).toBe(
+      `${invalid}: views.recent.group: Grouping works with the "html" and "json" targets only, not "text".`,
+    );
+
+    const file = join(DIR, "bibliography.config.mjs");
+    writeFileSync(file, module("html"));
+    const config = await loadProjectConfig(file);
+    expect(config.data).toEqual([join(DIR, "refs/sample.bib")]);
+    const { views } = await renderProject(config, { write: false });
+    expect(views[0].output).toContain('<h2 class="bib-group-heading">Year 2025</h2>');
+    expect(views[0].file).toBe(join(DIR, "out/recent.txt"));
+    expect(() => readFileSync(views[0].file!)).toThrow();
+
+    const inline = await renderProject(
+      {
+        data: SAMPLE_BIB,
+        customFields: ["publication-status"],
+        views: { software: { filter: { "publication-status": "software" }, target: "text" } },
+      },
+    );
+    expect(inline.views[0].entries.map((entry) => entry.key)).toEqual(["doe:2022:software"]);
+  });
+
+  it("reports invalid values with their path", () => {
+    const views = { papers: {} };
+    expect(configError({ views }).message).toBe('bib.yaml: data: Expected a string, got nothing.');
+    expect(configError({ data: "a.bib", views: {} }).message).toBe("bib.yaml: views: Expected at least one view.");
+    expect(configError({ data: "a.bib", views: { papers: { filtr: "year>2020" } } })).toMatchObject({
+      file: "bib.yaml",
+      at: "views.papers.filtr",
+      reason: 'Unknown option. Did you mean "filter"?',
+    });
+    expect(configError({ data: "a.bib", views: { papers: { filter: "year>=" } } }).message).toMatch(
+      /^bib\.yaml: views\.papers\.filter: Invalid query at position 6: /,
+    );
+    expect(configError({ data: "a.bib", views: { papers: { filter: { or: [{ field: "year", gte: [] }] } } } }).message)
+      .toBe("bib.yaml: views.papers.filter.or[0].gte: Expected a string or number, got a list.");
+    expect(configError({ data: "a.bib", views: { papers: { sort: "year:down" } } }).message).toBe(
+      'bib.yaml: views.papers.sort: Invalid sort order "down" for "year": expected asc or desc.',
+    );
+    expect(configError({ data: "a.bib", views: { papers: { group: { by: "year", headingLevel: 7 } } } }).message)
+      .toBe("bib.yaml: views.papers.group.headingLevel: Expected a number from 1 to 6, got the number 7.");
+    expect(configError({
+      data: "a.bib",
+      defaults: { badges: [{ field: "doi", label: "doi", url: "https://doi.org/$1", match: "(" }] },
+      views,
+    }).message).toMatch(/^bib\.yaml: defaults\.badges\[0\]\.match: Invalid regular expression/);
+    expect(configError({ data: "a.bib", defaults: { badges: [{ preset: "doi", when: "year>=" }] }, views }).message)
+      .toMatch(/^bib\.yaml: defaults\.badges\[0\]\.when: Invalid query/);
+  });
+});
+
+describe("BadgeConfig.match", () => {
+  it("accepts a pattern string", () => {
+    const bib = new Bibliography({ data: SAMPLE_BIB, customFields: ["arxiv"] });
+    const html = bib.formatHtml([bib.getEntry("doe-jones:2025:preprint")!], {
+      badges: [{ field: "arxiv", label: "arXiv", url: "https://arxiv.org/abs/$1", match: "^(.+?)(?:v\\d+)?$" }],
+    });
+    expect(html).toContain('<a href="https://arxiv.org/abs/2501.99999">arXiv</a>');
+  });
+});
@@ -0,0 +1,136 @@
+import { describe, it, expect } from "vitest";
+import { BibliographyError, compileQuery, parseQuery } from "../src/index.js";
+import { makeBib } from "./fixtures.js";
+
+function keys(entries: { key: string }[]): string[] {
+  return entries.map((e) => e.key).sort();
+}
+
+// ---------------------------------------------------------------------------
+// Structured queries
+// ---------------------------------------------------------------------------
+
+describe("filter – structured queries", () => {
+  it("supports year ranges", () => {
+    const bib = makeBib();
+    const result = bib.filter({ field: "year", gte: 2022, lt: 2024 });
+    expect(keys(result)).toEqual(["doe-smith:2023:widgets", "doe:2022:software"]);
+  });
+
+  it("combines predicates with or/not", () => {
+    const bib = makeBib();
+    const result = bib.filter({
+      or: [
+        { field: "publication-status", equals: "preprint" },
+        { not: { field: "doi", exists: true } },
+      ],
+    });
+    expect(keys(result)).toEqual(["doe-jones:2025:preprint", "doe:2022:software"]);
+  });
+
+  it("matches author family names", () => {
+    const bib = makeBib();
+    expect(keys(bib.filter({ field: "author", equals: "Smith" }))).toEqual([
+      "doe-smith:2023:widgets",
+      "smith-doe:2021:conf",
+    ]);
+  });
+
+  it("supports regex and substring matches on csl fields", () => {
+    const bib = makeBib();
+    expect(keys(bib.filter({ field: "csl.container-title", matches: /^gadget/i }))).toEqual([
+      "doe:2024:gadgets",
+    ]);
+    expect(keys(bib.filter({ field: "title", contains: "WIDGET" }))).toEqual([
+      "doe-smith:2023:widgets",
+      "doe:2022:software",
+      "smith-doe:2021:conf",
+    ]);
+  });
+
+  it("reads raw fields explicitly", () => {
+    const bib = makeBib();
+    expect(keys(bib.filter({ field: "raw.howpublished", exists: true }))).toEqual([
+      "doe-jones:2025:preprint",
+    ]);
+  });
+
+  it("keeps record criteria as exact custom-field matching", () => {
+    const bib = makeBib();
+    expect(bib.filter({ "publication-status": "software" })).toHaveLength(1);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// String syntax
+// ---------------------------------------------------------------------------
+
+describe("parseQuery", () => {
+  it("parses combinators with precedence", () => {
+    expect(parseQuery("year>=2020 AND (type:article-journal OR status:preprint)")).toEqual({
+      and: [
+        { field: "year", gte: "2020" },
+        {
+          or: [
+            { field: "type", equals: "article-journal" },
+            { field: "status", equals: "preprint" },
+          ],
+        },
+      ],
+    });
+  });
+
+  it("treats adjacent terms as AND and binds NOT tightly", () => {
+    expect(parseQuery("NOT a:1 b:2 OR c:3")).toEqual({
+      or: [
+        { and: [{ not: { field: "a", equals: "1" } }, { field: "b", equals: "2" }] },
+        { field: "c", equals: "3" },
+      ],
+    });
+  });
+
+  it("parses ranges, presence, regex and quoted values", () => {
+    expect(parseQuery("year:2021..2023")).toEqual({ field: "year", gte: "2021", lte: "2023" });
+    expect(parseQuery("has:doi")).toEqual({ field: "doi", exists: true });
+    expect(parseQuery("zbl:*")).toEqual({ field: "zbl", exists: true });
+    expect(parseQuery("title:/^on the/i")).toEqual({ field: "title", matches: /^on the/i });
+    expect(parseQuery('title~"higher dimensions"')).toEqual({
+      field: "title",
+      contains: "higher dimensions",
+    });
+    expect(parseQuery("-status!=x")).toEqual({
+      not: { not: { field: "status", equals: "x" } },
+    });
+  });
+
+  it("reports syntax errors with a position", () => {
+    expect(() => parseQuery("year>=2020 AND")).toThrow(/position 14: unexpected end/);
+    expect(() => parseQuery("year>=2020 AND")).toThrow(BibliographyError);
+    expect(() => parseQuery("(year:2020")).toThrow(/expected "\)"/);
+    expect(() => parseQuery("title")).toThrow(/expected an operator after "title"/);
+    expect(() => parseQuery('title:"open')).toThrow(/unterminated string/);
+  });
+});
+
+describe("filter – query strings", () => {
+  it("filters with the example query and aliases", () => {
+    const bib = makeBib();
+    const result = bib.filter("year>=2022 AND (type:article-journal OR status:preprint)", {
+      aliases: { status: "publication-status" },
+    });
+    expect(keys(result)).toEqual([
+      "doe-jones:2025:preprint",
+      "doe-smith:2023:widgets",
+      "doe:2024:gadgets",
+    ]);
+  });
+
+  it("compiles to a reusable predicate", () => {
+    const bib = makeBib();
+    const predicate = compileQuery("author:Jones OR zbl:/^\\d{4}\\./");
+    expect(keys(bib.entries.filter(predicate))).toEqual([
+      "doe-jones:2025:preprint",
+      "smith-doe:2021:conf",
+    ]);
+  });
+});
@@ -0,0 +1,49 @@
+import { afterAll, bench, describe } from "vitest";
+import { rmSync } from "node:fs";
+import { join } from "node:path";
+import { Bibliography, createFileRenderCache, createMemoryRenderCache } from "../src/index.js";
+import type { RenderCache } from "../src/index.js";
+
+const DIR = join(process.cwd(), "test", "tmp", "bench");
+
+const BIB = Array.from({ length: 300 }, (_, i) => `
+@Article{entry:${i},
+  author  = {Author${i % 37}, Jane and Coauthor${i % 11}, Alex},
+  title   = {On the Structure of Widget Family ${i}},
+  journal = {Journal of Gadgets},
+  volume  = {${1 + (i % 20)}},
+  pages   = {${i}--${i + 12}},
+  year    = {${2000 + (i % 25)}},
+  doi     = {10.5678/jg.${i}},
+  project = {${["alpha", "beta", "gamma"][i % 3]}},
+}`).join("\n");
+
+const make = (renderCache: RenderCache | false) =>
+  new Bibliography({ data: BIB, customFields: ["project"], renderCache });
+
+/** A site build: one page per project and one with everything. */
+function build(bib: Bibliography) {
+  for (const project of ["alpha", "beta", "gamma"]) {
+    bib.formatHtml(bib.filter({ project }), { titleLink: ["doi"] });
+  }
+  bib.formatHtml(bib.entries, { titleLink: ["doi"] });
+}
+
+afterAll(() => {
+  rmSync(DIR, { recursive: true, force: true });
+});
+
+// Run with `pnpm bench`.
+describe("formatHtml, 300 entries on 4 pages", () => {
+  const options = { iterations: 3, time: 0 };
+  const uncached = make(false);
+  const memory = make(createMemoryRenderCache());
+  build(memory);
+  rmSync(DIR, { recursive: true, force: true });
+  build(make(createFileRenderCache(DIR)));
+
+  bench("no cache", () => build(uncached), options);
+  bench("memory cache, warm", () => build(memory), options);
+  // Includes parsing, as a fresh process would.
+  bench("file cache, next build", () => build(make(createFileRenderCache(DIR))), options);
+});
@@ -0,0 +1,122 @@
+import { describe, it, expect } from "vitest";
+import { Bibliography, parseSortKeys } from "../src/index.js";
+import { SAMPLE_BIB } from "./fixtures.js";
+
+const DATED_BIB = `
+@Article{b, author={Émile, Zoé}, title={The Beta Paper}, year={2024}, month={3}, status={accepted}}
+@Article{a, author={Adams, Ann}, title={An Alpha Paper}, year={2024}, month={11}, status={preprint}}
+@Article{c, author={Ebert, Carl}, title={Gamma}, year={2024}, month={3}, status={published}}
+@Article{d, author={Adams, Ann}, title={Delta}, status={submitted}}
+@Article{e, author={adams, Bob}, title={"Epsilon"}, year={2023}, status={retracted}}
+`;
+
+function makeBib() {
+  return new Bibliography({ data: DATED_BIB, customFields: ["status"] });
+}
+
+function sortedKeys(bib: Bibliography, options: Parameters<Bibliography["sort"]>[1]) {
+  return bib.sort(bib.entries, options).map((e) => e.key);
+}
+
+describe("sort – multiple keys", () => {
+  it("breaks ties with subsequent keys", () => {
+    const bib = makeBib();
+    expect(sortedKeys(bib, { by: ["year", "month", { by: "author", order: "asc" }] })).toEqual([
+      "a",
+      "c",
+      "b",
+      "e",
+      "d",
+    ]);
+  });
+
+  it("sorts by the full issued date", () => {
+    const bib = makeBib();
+    expect(sortedKeys(bib, { by: "issued", order: "asc" })).toEqual(["e", "b", "c", "a", "d"]);
+  });
+
+  it("collates author names locale-aware", () => {
+    const bib = makeBib();
+    // Case and accents do not dominate; given names break ties.
+    expect(sortedKeys(bib, { by: ["author", "key"], order: "asc" })).toEqual([
+      "a",
+      "d",
+      "e",
+      "c",
+      "b",
+    ]);
+  });
+
+  it("ignores leading articles and punctuation in titles", () => {
+    const bib = makeBib();
+    expect(sortedKeys(bib, { by: "title", order: "asc" })).toEqual(["a", "b", "d", "e", "c"]);
+  });
+});
+
+describe("parseSortKeys", () => {
+  it("parses comma-separated keys with optional directions", () => {
+    expect(parseSortKeys("year:desc, author:asc,publication-status")).toEqual([
+      { by: "year", order: "desc" },
+      { by: "author", order: "asc" },
+      { by: "publication-status" },
+    ]);
+    const bib = makeBib();
+    expect(sortedKeys(bib, { by: parseSortKeys("year,month:asc,author:asc") })).toEqual([
+      "c",
+      "b",
+      "a",
+      "e",
+      "d",
+    ]);
+  });
+
+  it("rejects unknown directions and empty keys", () => {
+    expect(() => parseSortKeys("year:down")).toThrow('Invalid sort order "down" for "year": expected asc or desc.');
+    expect(() => parseSortKeys("year,,author")).toThrow('Invalid sort key ""');
+  });
+});
+
+describe("sort – missing values", () => {
+  it("places undated entries last by default in both directions", () => {
+    const bib = makeBib();
+    expect(sortedKeys(bib, { order: "desc" }).at(-1)).toBe("d");
+    expect(sortedKeys(bib, { order: "asc" }).at(-1)).toBe("d");
+  });
+
+  it("can place missing values first", () => {
+    const bib = makeBib();
+    expect(sortedKeys(bib, { by: { by: "year", missing: "first" } })[0]).toBe("d");
+  });
+});
+
+describe("sort – enumerated orderings", () => {
+  it("orders custom field values by an explicit list", () => {
+    const bib = makeBib();
+    const order = sortedKeys(bib, {
+      by: {
+        by: "status",
+        order: "asc",
+        ordering: ["published", "accepted", "submitted", "preprint"],
+      },
+    });
+    expect(order).toEqual(["c", "b", "d", "a", "e"]);
+  });
+
+  it("reverses an ordering with desc", () => {
+    const bib = new Bibliography({ data: SAMPLE_BIB, customFields: ["publication-status"] });
+    const sorted = bib.sort(bib.entries, {
+      by: [
+        { by: "publication-status", ordering: ["published", "preprint", "software"] },
+        { by: "year", order: "asc" },
+      ],
+    });
+    expect(sorted.map((e) => e.custom["publication-status"])).toEqual([
+      "software",
+      "preprint",
+      "published",
+      "published",
+      "published",
+    ]);
+    expect(sorted.slice(2).map((e) => e.year)).toEqual([2021, 2023, 2024]);
+  });
+});
@@ -0,0 +1,137 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { mkdirSync, rmSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { Bibliography, DuplicateKeyError } from "../src/index.js";
+
+const DIR = join(process.cwd(), "test", "tmp", "sources");
+
+const SHARED = `
+@Article{shared:2020,
+  author = {Doe, Jane},
+  title  = {Shared Work},
+  year   = {2020},
+}
+
+@Article{doe:2024,
+  author = {Doe, Jane},
+  title  = {Gadgets},
+  year   = {2024},
+  doi    = {10.5678/gr.2024.003},
+}
+`;
+
+const DOE = `
+@Article{doe:2024,
+  author  = {Doe, Jane},
+  title   = {Gadgets, Revised},
+  journal = {Gadget Rev.},
+  year    = {2024},
+  publication-status = {published},
+}
+`;
+
+const SMITH = `
+@InProceedings{smith:2021,
+  author    = {Smith, Alex},
+  title     = {Widget Bounds},
+  booktitle = {Proc. IWC},
+  year      = {2021},
+}
+`;
+
+beforeAll(() => {
+  mkdirSync(join(DIR, "members"), { recursive: true });
+  writeFileSync(join(DIR, "shared.bib"), SHARED);
+  writeFileSync(join(DIR, "members", "doe.bib"), DOE);
+  writeFileSync(join(DIR, "members", "smith.bib"), SMITH);
+  writeFileSync(join(DIR, "members", "notes.txt"), "not a bib file");
+});
+
+afterAll(() => {
+  rmSync(DIR, { recursive: true, force: true });
+});
+
+describe("multiple sources", () => {
+  it("merges files and inline data in order, recording sources", () => {
+    const bib = new Bibliography({
+      data: [join(DIR, "members", "smith.bib"), "@Misc{inline, title={Inline}, year={2019}}"],
+    });
+    expect(bib.entries.map((e) => [e.key, e.source])).toEqual([
+      ["smith:2021", join(DIR, "members", "smith.bib")],
+      ["inline", null],
+    ]);
+  });
+
+  it("expands glob patterns in sorted order", () => {
+    const bib = new Bibliography({ data: join(DIR, "members", "*.bib") });
+    expect(bib.entries.map((e) => e.key)).toEqual(["doe:2024", "smith:2021"]);
+
+    const all = new Bibliography({ data: join(DIR, "**", "*.bib"), duplicateKeys: "first" });
+    expect(all.entries.map((e) => e.source)).toEqual([
+      join(DIR, "members", "doe.bib"),
+      join(DIR, "members", "smith.bib"),
+      join(DIR, "shared.bib"),
+    ]);
+  });
+
+  it("reads an empty CSL-JSON list as inline data, not as a glob", async () => {
+    expect(new Bibliography({ data: "[]" }).entries).toEqual([]);
+    expect((await Bibliography.load({ data: [" []"] })).entries).toEqual([]);
+  });
+
+  it("throws when a glob matches nothing", () => {
+    expect(() => new Bibliography({ data: join(DIR, "*.ris") })).toThrow(/^No files match ".*\*\.ris"\.$/);
+  });
+});
+
+describe("duplicate keys", () => {
+  const data = [join(DIR, "shared.bib"), join(DIR, "members", "doe.bib")];
+
+  it("throws by default, naming both sources", () => {
+    expect(() => new Bibliography({ data })).toThrow(DuplicateKeyError);
+    expect(() => new Bibliography({ data })).toThrow(
+      `${data[1]}:2: Duplicate citation key "doe:2024" (first defined in ${data[0]}:8).`,
+    );
+    expect(() => new Bibliography({ data: [DOE, DOE] })).toThrow(
+      'inline data #2:2: Duplicate citation key "doe:2024" (first defined in inline data #1:2).',
+    );
+  });
+
+  it("keeps repeated keys of a single source, like a plain parse", () => {
+    const bib = new Bibliography({ data: DOE + DOE.replace("Gadgets, Revised", "Gadgets, Again") });
+    expect(bib.entries.map((e) => e.csl.title)).toEqual(["Gadgets, Revised", "Gadgets, Again"]);
+    expect(bib.getEntry("doe:2024")!.csl.title).toBe("Gadgets, Revised");
+    expect(new Bibliography({ data, duplicateKeys: "keep" }).entries.map((e) => e.key)).toEqual([
+      "shared:2020",
+      "doe:2024",
+      "doe:2024",
+    ]);
+  });
+
+  it("keeps the first or last occurrence in place", () => {
+    const first = new Bibliography({ data, duplicateKeys: "first" });
+    expect(first.entries.map((e) => e.key)).toEqual(["shared:2020", "doe:2024"]);
+    expect(first.getEntry("doe:2024")!.csl.title).toBe("Gadgets");
+
+    const last = new Bibliography({ data, duplicateKeys: "last" });
+    expect(last.entries.map((e) => e.key)).toEqual(["shared:2020", "doe:2024"]);
+    expect(last.getEntry("doe:2024")).toMatchObject({ source: data[1], csl: { title: "Gadgets, Revised" } });
+  });
+
+  it("merges missing fields into the first occurrence", () => {
+    const bib = new Bibliography({
+      data,
+      duplicateKeys: "merge",
+      customFields: ["publication-status"],
+    });
+    const entry = bib.getEntry("doe:2024")!;
+    expect(entry.source).toBe(data[0]);
+    expect(entry.raw).toMatchObject({
+      title: "Gadgets",
+      doi: "10.5678/gr.2024.003",
+      journal: "Gadget Rev.",
+    });
+    expect(entry.custom).toEqual({ "publication-status": "published" });
+    expect(entry.csl["container-title"]).toBe("Gadget Rev.");
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it, expect } from "vitest";
+import { makeBib } from "./fixtures.js";
+
+const BADGES = [
+  { field: "doi", label: { en: "doi", de: "DOI" }, url: "https://doi.org/$1", className: "badge" },
+  { field: "arxiv", label: "arXiv", url: "https://arxiv.org/abs/$1", match: /^(.+?)(?:v\d+)?$/ },
+];
+
+describe("formatStructured", () => {
+  it("returns the citeproc output as nodes with the title marked", () => {
+    const bib = makeBib({ customFields: ["publication-status", "arxiv"] });
+    const [widgets] = bib.formatStructured([bib.getEntry("doe-smith:2023:widgets")!], {
+      badges: BADGES,
+    });
+
+    expect(widgets).toEqual({
+      key: "doe-smith:2023:widgets",
+      entryType: "article",
+      year: 2023,
+      custom: { "publication-status": "published", arxiv: "2301.00001" },
+      label: null,
+      content: [
+        "Doe, J., & Smith, A. (2023). ",
+        {
+          type: "title",
+          url: "https://example.com/widgets",
+          children: ["On the Enumeration of Widgets"],
+        },
+        ". ",
+        { type: "emph", children: ["J. Widget Sci."] },
+        ", ",
+        { type: "emph", children: ["42"] },
+        ", 1–15. ",
+        {
+          type: "link",
+          url: "https://doi.org/10.1234/jws.2023.001",
+          children: ["https://doi.org/10.1234/jws.2023.001"],
+        },
+      ],
+      title: { text: "On the Enumeration of Widgets", url: "https://example.com/widgets" },
+      badges: [
+        {
+          field: "doi",
+          label: "doi",
+          url: "https://doi.org/10.1234/jws.2023.001",
+          className: "badge",
+          icon: null,
+          title: null,
+          ariaLabel: null,
+          rel: null,
+          target: null,
+        },
+        {
+          field: "arxiv",
+          label: "arXiv",
+          url: "https://arxiv.org/abs/2301.00001",
+          className: null,
+          icon: null,
+          title: null,
+          ariaLabel: null,
+          rel: null,
+          target: null,
+        },
+      ],
+    });
+    expect(JSON.parse(JSON.stringify(widgets))).toEqual(widgets);
+  });
+
+  it("marks highlighted authors and numeric labels", () => {
+    const bib = makeBib({ cslStyle: "vancouver", locale: "de-DE" });
+    const entries = bib.formatStructured(bib.entries.slice(0, 2), {
+      badges: BADGES,
+      highlightAuthors: { family: "Doe", given: "Jane" },
+      titleLink: [],
+    });
+
+    expect(entries.map((entry) => entry.label)).toEqual(["1.", "2."]);
+    expect(entries[1].content[0]).toEqual({ type: "highlight", children: ["Doe J."] });
+    expect(entries[1].content[2]).toEqual({ type: "title", children: ["Gadgets and their Applications"] });
+    expect(entries[1].title).toEqual({ text: "Gadgets and their Applications", url: null });
+    expect(entries[1].badges.map((badge) => badge.label)).toEqual(["DOI"]);
+  });
+
+  it("keeps bare URLs as text with linkifyUrls: false", () => {
+    const bib = makeBib();
+    const [widgets] = bib.formatStructured([bib.getEntry("doe-smith:2023:widgets")!], {
+      linkifyUrls: false,
+    });
+    expect(widgets.content.at(-1)).toBe(", 1–15. https://doi.org/10.1234/jws.2023.001");
+  });
+});
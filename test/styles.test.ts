@@ -0,0 +1,132 @@
+import { describe, it, expect } from "vitest";
+import Cite from "citation-js";
+import {
+  Bibliography,
+  StyleError,
+  inspectStyle,
+  listStyles,
+  unregisterStyle,
+  validateStyle,
+} from "../src/index.js";
+import { SAMPLE_BIB } from "./fixtures.js";
+
+const MINIMAL_STYLE = `<?xml version="1.0" encoding="utf-8"?>
+<style xmlns="http://purl.org/net/xbiblio/csl" class="in-text" version="1.0" default-locale="en-GB">
+  <info>
+    <title>Minimal &amp; Plain</title>
+    <id>https://example.com/styles/minimal</id>
+    <category citation-format="numeric"/>
+    <updated>2024-01-01T00:00:00+00:00</updated>
+  </info>
+  <macro name="title"><text variable="title"/></macro>
+  <citation><layout><text variable="citation-number"/></layout></citation>
+  <bibliography><layout><text macro="title"/></layout></bibliography>
+</style>`;
+
+/** The problems listed in the message of the StyleError `fn` throws. */
+function problems(fn: () => unknown): string[] {
+  try {
+    fn();
+  } catch (error) {
+    expect(error).toBeInstanceOf(StyleError);
+    return (error as Error).message.split("\n").slice(1).map((line) => line.trim());
+  }
+  throw new Error("Expected a StyleError.");
+}
+
+describe("style registry", () => {
+  it("lists styles with their metadata", () => {
+    const apa = listStyles().find((style) => style.name === "apa");
+    expect(apa).toEqual({
+      name: "apa",
+      title: expect.stringContaining("American Psychological Association"),
+      id: "http://www.zotero.org/styles/apa",
+      class: "in-text",
+      citationFormat: "author-date",
+      defaultLocale: null,
+      builtIn: true,
+    });
+  });
+
+  it("inspects styles without registering them", () => {
+    const info = inspectStyle(MINIMAL_STYLE);
+    expect(info).toMatchObject({
+      name: expect.stringMatching(/^custom-[0-9a-f]{1,8}$/),
+      title: "Minimal & Plain",
+      citationFormat: "numeric",
+      defaultLocale: "en-GB",
+      builtIn: false,
+    });
+    expect(listStyles().map((style) => style.name)).not.toContain(info.name);
+
+    const bib = new Bibliography({ data: SAMPLE_BIB, cslStyle: MINIMAL_STYLE });
+    expect(bib.templateName).toBe(info.name);
+    expect(inspectStyle(info.name)).toEqual(info);
+    expect(() => inspectStyle("no-such-style")).toThrow(StyleError);
+  });
+
+  it("unregisters styles", () => {
+    const xml = MINIMAL_STYLE.replace("Minimal", "Disposable");
+    const bib = new Bibliography({ data: SAMPLE_BIB, cslStyle: xml });
+    const entry = bib.getEntry("doe:2024:gadgets")!;
+    expect(bib.formatEntry(entry)).toContain("Gadgets");
+    expect(bib.formatEntry(entry, { locale: "de-DE" })).toContain("Gadgets");
+    const { engine } = Cite.plugins.config.get("@csl");
+    const engines = ["en-US", "de-DE"].map((locale) => engine([], bib.templateName, locale, "html"));
+
+    expect(unregisterStyle(bib.templateName)).toBe(true);
+    expect(unregisterStyle(bib.templateName)).toBe(false);
+    expect(engines.map((released) => Object.keys(released).length)).toEqual([0, 0]);
+    expect(listStyles().map((style) => style.name)).not.toContain(bib.templateName);
+    expect(() => bib.formatEntry(entry)).toThrow(StyleError);
+    expect(() => bib.createCitationContext().cite(entry.key)).toThrow(StyleError);
+
+    const again = new Bibliography({ data: SAMPLE_BIB, cslStyle: xml, renderCache: false });
+    expect(again.templateName).toBe(bib.templateName);
+    expect(again.formatEntry(entry)).toContain("Gadgets");
+
+    expect(() => unregisterStyle("apa")).toThrow(/ships with citation-js/);
+  });
+
+  it("validates styles before registering them", () => {
+    expect(() => validateStyle(MINIMAL_STYLE)).not.toThrow();
+    for (const name of ["apa", "harvard1", "vancouver"]) {
+      expect(() => validateStyle(Cite.plugins.config.get("@csl").templates.get(name))).not.toThrow();
+    }
+
+    expect(problems(() => validateStyle(MINIMAL_STYLE.replace("</info>", "</inf>")))).toEqual([
+      "line 8: Expected </info> (opened on line 3), found </inf>.",
+    ]);
+    expect(problems(() => validateStyle(MINIMAL_STYLE.replace("&amp;", "&")))).toEqual([
+      "line 4: Unescaped `&` (write `&amp;`).",
+    ]);
+    expect(problems(() => validateStyle("<style"))).toEqual(["line 1: Malformed tag."]);
+
+    const broken = MINIMAL_STYLE
+      .replace(' version="1.0" default', " default")
+      .replace(/<id>.*<\/id>/, "")
+      .replace("<citation><layout>", "<citation><group>")
+      .replace("</layout></citation>", "</group></citation>")
+      .replace('macro="title"', 'macro="titel"');
+    expect(problems(() => new Bibliography({ data: SAMPLE_BIB, cslStyle: broken }))).toEqual([
+      'line 2: <style> needs a version, e.g. version="1.0".',
+      "line 3: <info> has no <id>.",
+      "line 10: <citation> needs a <layout>.",
+      'line 11: Unknown macro "titel".',
+    ]);
+  });
+
+  it("rejects dependent styles and other XML", () => {
+    const dependent = MINIMAL_STYLE.replace(
+      "<category",
+      '<link href="http://www.zotero.org/styles/apa" rel="independent-parent"/>\n    <category',
+    );
+    expect(problems(() => validateStyle(dependent))).toEqual([
+      "line 6: This is a dependent style. Register its parent, http://www.zotero.org/styles/apa, instead.",
+    ]);
+    expect(problems(() => validateStyle('<locale xml:lang="de-AT"/>'))).toEqual([
+      "line 1: The root element is <locale>, not <style>.",
+    ]);
+    expect(() => validateStyle("<style/>")).toThrow(/^Invalid CSL style XML:\n/);
+  });
+});
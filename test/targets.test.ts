@@ -0,0 +1,111 @@
+import { describe, it, expect } from "vitest";
+import { Bibliography } from "../src/index.js";
+import { convertHtml } from "../src/targets.js";
+import { makeBib } from "./fixtures.js";
+
+const BADGES = [
+  { field: "doi", label: "doi", url: "https://doi.org/$1" },
+  { field: "arxiv", label: "arXiv", url: "https://arxiv.org/abs/$1", match: /^(.+?)(?:v\d+)?$/ },
+];
+
+function entry(bib: Bibliography, part: string) {
+  return bib.entries.find((e) => e.key.includes(part))!;
+}
+
+describe("formatMarkdown", () => {
+  it("renders title links, emphasis and badges as Markdown", () => {
+    const bib = makeBib();
+    const md = bib.formatMarkdown([entry(bib, "widgets")], { badges: BADGES });
+    expect(md).toBe(
+      "1. Doe, J., & Smith, A. (2023). [On the Enumeration of Widgets](https://example.com/widgets). " +
+        "*J. Widget Sci.*, *42*, 1–15. <https://doi.org/10.1234/jws.2023.001> " +
+        "[doi](https://doi.org/10.1234/jws.2023.001) [arXiv](https://arxiv.org/abs/2301.00001)",
+    );
+  });
+
+  it("escapes Markdown syntax in entry text", () => {
+    const bib = makeBib();
+    const md = bib.formatMarkdown([entry(bib, "preprint")], { linkifyUrls: false });
+    expect(md).toContain("arXiv:2501.99999v2 \\[math.CO\\]");
+  });
+
+  it("numbers lists upwards, even when reversed, and supports bullets", () => {
+    const bib = makeBib();
+    const entries = bib.sort(bib.entries).slice(0, 3);
+    expect(bib.formatMarkdown(entries).split("\n").map((l) => l.slice(0, 3))).toEqual([
+      "1. ",
+      "2. ",
+      "3. ",
+    ]);
+    expect(bib.formatText(entries).split("\n").map((l) => l.slice(0, 3))).toEqual([
+      "3. ",
+      "2. ",
+      "1. ",
+    ]);
+    expect(bib.formatMarkdown(entries, { list: "ul" }).split("\n").every((l) => l.startsWith("- ")))
+      .toBe(true);
+  });
+});
+
+describe("formatLatex", () => {
+  it("renders \\href title links and escapes special characters", () => {
+    const bib = makeBib();
+    const tex = bib.formatLatex([entry(bib, "widgets")], { badges: BADGES, list: "div" });
+    expect(tex).toBe(
+      "Doe, J., \\& Smith, A. (2023). \\href{https://example.com/widgets}{On the Enumeration of Widgets}. " +
+        "\\emph{J. Widget Sci.}, \\emph{42}, 1–15. \\url{https://doi.org/10.1234/jws.2023.001} " +
+        "\\href{https://doi.org/10.1234/jws.2023.001}{doi} \\href{https://arxiv.org/abs/2301.00001}{arXiv}",
+    );
+  });
+
+  it("wraps lists in enumerate/itemize environments", () => {
+    const bib = makeBib();
+    const tex = bib.formatLatex(bib.entries.slice(0, 2), { list: "ul" });
+    expect(tex).toMatch(/^\\begin\{itemize\}\n {2}\\item /);
+    expect(tex).toMatch(/\n\\end\{itemize\}$/);
+    expect(tex.match(/\\item /g)).toHaveLength(2);
+  });
+
+  it("escapes LaTeX specials in text and URLs", () => {
+    const bib = new Bibliography({
+      data: "@Misc{x, author={A B}, title={50% of R&D_costs}, year={2024}, url={https://example.com/a%20b#frag}}",
+    });
+    const tex = bib.formatLatex(bib.entries, { list: "div" });
+    expect(tex).toContain("\\href{https://example.com/a\\%20b\\#frag}{50\\% of R\\&D\\_costs}");
+
+    expect(convertHtml('<a href="https://example.com/{a}\\b">x</a>', "latex")).toBe(
+      "\\href{https://example.com/\\%7Ba\\%7D\\%5Cb}{x}",
+    );
+  });
+});
+
+describe("formatText", () => {
+  it("renders plain text with URLs after linked titles", () => {
+    const bib = makeBib();
+    const text = bib.formatText([entry(bib, "gadgets")], { list: "div" });
+    expect(text).toBe(
+      "Doe, J. (2024). Gadgets and their Applications <https://doi.org/10.5678/gr.2024.003>. " +
+        "Gadget Rev., 7(3), 100–120. https://doi.org/10.5678/gr.2024.003",
+    );
+    expect(text).not.toMatch(/<\/?(?:a|i|div)\b/);
+  });
+
+  it("decodes HTML entities", () => {
+    const bib = makeBib();
+    const text = bib.formatText([entry(bib, "widgets")], { titleLink: [] });
+    expect(text).toContain("Doe, J., & Smith, A.");
+  });
+});
+
+describe("format", () => {
+  it("dispatches on target and defaults to HTML", () => {
+    const bib = makeBib();
+    expect(bib.format(bib.entries)).toBe(bib.formatHtml(bib.entries));
+    expect(bib.format(bib.entries, { target: "latex" })).toBe(bib.formatLatex(bib.entries));
+  });
+
+  it("returns empty string for empty input", () => {
+    const bib = makeBib();
+    expect(bib.format([], { target: "markdown" })).toBe("");
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, it, expect } from "vitest";
+import { Bibliography, defaultValidationRules } from "../src/index.js";
+import type { ValidationRule } from "../src/index.js";
+import { SAMPLE_BIB } from "./fixtures.js";
+
+const BROKEN_BIB = `
+@Article{broken,
+  author = {Doe, Jane},
+  title  = {Broken Data},
+  doi    = {doi:10.12/x},
+  arxiv  = {arXiv:250199999},
+  url    = {javascript:alert(1)},
+  publication-status = {pubished},
+}
+
+@Misc{fine,
+  author = {Doe, Jane},
+  title  = {Fine Data},
+  year   = {2024},
+  doi    = {https://doi.org/10.5678/gr.2024.003},
+  eprint = {math.CO/0601001v2},
+  archiveprefix = {arXiv},
+  publication-status = {published},
+}
+`;
+
+const BADGES = [
+  { field: "arxiv", label: "arXiv", url: "https://arxiv.org/abs/$1", match: /^(\d{4}\.\d{4,5})/ },
+  { field: "publication-status", label: "status", url: "javascript:$1" },
+];
+
+describe("validate", () => {
+  it("reports malformed identifiers, missing years and unsafe URLs", () => {
+    const bib = new Bibliography({ data: BROKEN_BIB });
+    expect(bib.validate()).toEqual([
+      { key: "broken", rule: "doi", field: "doi", severity: "error", message: 'Malformed DOI "doi:10.12/x".' },
+      {
+        key: "broken",
+        rule: "arxiv",
+        field: "arxiv",
+        severity: "error",
+        message: 'Malformed arXiv id "arXiv:250199999".',
+      },
+      {
+        key: "broken",
+        rule: "year",
+        field: "year",
+        severity: "warning",
+        message: 'Missing year; the entry sorts as a missing value and groups as "Undated".',
+      },
+      {
+        key: "broken",
+        rule: "url",
+        field: "url",
+        severity: "error",
+        message: 'URL "javascript:alert(1)" is not http(s) or mailto and will not be linked.',
+      },
+    ]);
+  });
+
+  it("reports badges that never render", () => {
+    const bib = new Bibliography({ data: BROKEN_BIB });
+    const badges = bib.validate(bib.entries, { badges: BADGES }).filter((d) => d.rule === "badges");
+    expect(badges.map((d) => [d.key, d.field, d.message])).toEqual([
+      ["broken", "arxiv", 'Badge "arXiv" is skipped: "arXiv:250199999" doesn\'t match /^(\\d{4}\\.\\d{4,5})/.'],
+      ["broken", "publication-status", 'Badge "status" is skipped: "javascript:pubished" is not http(s) or mailto.'],
+      ["fine", "publication-status", 'Badge "status" is skipped: "javascript:published" is not http(s) or mailto.'],
+    ]);
+  });
+
+  it("applies per-field rules to custom fields", () => {
+    const bib = new Bibliography({ data: BROKEN_BIB, customFields: ["publication-status"] });
+    const diagnostics = bib.validate(bib.entries, {
+      rules: defaultValidationRules.filter((rule) => rule.name === "fields"),
+      fields: {
+        "publication-status": { allowed: ["published", "preprint"] },
+        project: { required: true, severity: "info" },
+        year: { pattern: /^20\d\d$/ },
+      },
+    });
+    expect(diagnostics).toEqual([
+      {
+        key: "broken",
+        rule: "fields",
+        field: "publication-status",
+        severity: "error",
+        message: 'Invalid value "pubished" for "publication-status"; expected one of "published", "preprint".',
+      },
+      {
+        key: "broken",
+        rule: "fields",
+        field: "project",
+        severity: "info",
+        message: 'Missing required field "project".',
+      },
+      {
+        key: "fine",
+        rule: "fields",
+        field: "project",
+        severity: "info",
+        message: 'Missing required field "project".',
+      },
+    ]);
+  });
+
+  it("runs custom rules", () => {
+    const bib = new Bibliography({ data: SAMPLE_BIB });
+    const shortTitle: ValidationRule = {
+      name: "short-title",
+      check: (entry) =>
+        String(entry.csl.title).length < 35
+          ? [{ field: "title", severity: "info", message: "Short title." }]
+          : [],
+    };
+    const diagnostics = bib.validate(bib.entries, { rules: [...defaultValidationRules, shortTitle] });
+    expect(diagnostics.map((d) => [d.key, d.rule])).toEqual([
+      ["doe-smith:2023:widgets", "short-title"],
+      ["doe:2024:gadgets", "short-title"],
+      ["doe-jones:2025:preprint", "short-title"],
+      ["smith-doe:2021:conf", "short-title"],
+    ]);
+  });
+});
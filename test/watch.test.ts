@@ -0,0 +1,148 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import fs, { mkdirSync, rmSync, writeFileSync } from "node:fs";
+import { syncBuiltinESMExports } from "node:module";
+import { join } from "node:path";
+import Cite from "citation-js";
+import { Bibliography, ParseError } from "../src/index.js";
+import type { BibliographyChange, BibliographyWatcher } from "../src/index.js";
+
+const DIR = join(process.cwd(), "test", "tmp", "watch");
+const REFS = join(DIR, "refs.bib");
+
+const entry = (key: string, title: string, year = 2020) =>
+  `@Article{${key},\n  title   = {${title}},\n  journal = rev,\n  year    = {${year}},\n}\n`;
+
+const STRINGS = '@string{rev = "Gadget Rev."}\n\n';
+
+let watcher: BibliographyWatcher | undefined;
+
+beforeEach(() => {
+  mkdirSync(join(DIR, "more"), { recursive: true });
+  writeFileSync(REFS, STRINGS + [entry("a", "Alpha"), entry("b", "Beta"), entry("c", "Gamma")].join("\n"));
+});
+
+afterEach(() => {
+  watcher?.close();
+  watcher = undefined;
+  vi.restoreAllMocks();
+  syncBuiltinESMExports();
+  rmSync(DIR, { recursive: true, force: true });
+});
+
+describe("Bibliography.watch", () => {
+  it("re-parses only the entries that changed", async () => {
+    watcher = await Bibliography.watch({ data: REFS });
+    const chainLink = vi.spyOn(Cite.plugins.input, "chainLink");
+
+    writeFileSync(
+      REFS,
+      STRINGS + [entry("a", "Alpha"), entry("b", "Beta, Revised"), entry("d", "Delta"), entry("c", "Gamma")].join("\n"),
+    );
+    const change = await watcher.refresh();
+
+    const parsed = chainLink.mock.calls.map(([text]) => /@Article\{(\w+)/.exec(text)![1]);
+    expect(parsed.sort()).toEqual(["b", "d"]);
+    expect(change).toMatchObject({ added: ["d"], removed: [], modified: ["b"], styleChanged: false });
+    expect(change!.bibliography).toBe(watcher.bibliography);
+
+    const bib = watcher.bibliography;
+    expect(bib.entries.map((e) => [e.key, e.line])).toEqual([["a", 3], ["b", 9], ["d", 15], ["c", 21]]);
+    expect(bib.getEntry("d")!.csl["container-title"]).toBe("Gadget Rev.");
+  });
+
+  it("re-parses every entry when @string definitions change", async () => {
+    watcher = await Bibliography.watch({ data: REFS });
+    writeFileSync(REFS, '@string{rev = "Widget Rev."}\n\n' + entry("a", "Alpha"));
+
+    const change = await watcher.refresh();
+    expect(change).toMatchObject({ added: [], removed: ["b", "c"], modified: ["a"] });
+    expect(watcher.bibliography.getEntry("a")!.csl["container-title"]).toBe("Widget Rev.");
+  });
+
+  it("reports nothing when only lines move", async () => {
+    watcher = await Bibliography.watch({ data: REFS });
+    writeFileSync(REFS, `% comment\n${STRINGS}${entry("a", "Alpha")}\n${entry("b", "Beta")}\n${entry("c", "Gamma")}`);
+
+    expect(await watcher.refresh()).toBeNull();
+    expect(watcher.bibliography.getEntry("a")!.line).toBe(4);
+  });
+
+  it("keeps the last good bibliography on errors", async () => {
+    watcher = await Bibliography.watch({ data: REFS });
+    const before = watcher.bibliography;
+    writeFileSync(REFS, STRINGS + entry("a", "Alpha") + "\n@Article{b, title = {Unclosed,\n");
+
+    await expect(watcher.refresh()).rejects.toThrow(ParseError);
+    expect(watcher.bibliography).toBe(before);
+  });
+
+  it("emits changes for file system events", async () => {
+    writeFileSync(join(DIR, "more", "d.bib"), entry("d", "Delta"));
+    watcher = await Bibliography.watch({ data: [REFS, join(DIR, "more", "*.bib")], debounce: 20 });
+    const changes: BibliographyChange[] = [];
+    const errors: Error[] = [];
+    watcher.on("change", (change) => changes.push(change));
+    watcher.on("error", (error) => errors.push(error));
+
+    writeFileSync(join(DIR, "more", "e.bib"), entry("e", "Epsilon"));
+    await vi.waitFor(() => expect(changes).toHaveLength(1), { timeout: 2000 });
+    expect(changes[0]).toMatchObject({ added: ["e"], removed: [], modified: [] });
+
+    writeFileSync(REFS, STRINGS + entry("a", "Alpha") + "\n@Article{b, title = {Unclosed,\n");
+    await vi.waitFor(() => expect(errors).toHaveLength(1), { timeout: 2000 });
+    expect(errors[0]).toBeInstanceOf(ParseError);
+  });
+
+  it("watches directory by directory where recursive watching is unavailable", async () => {
+    const watch = fs.watch;
+    vi.spyOn(fs, "watch").mockImplementation(((dir: string, options: { recursive?: boolean }, listener: () => void) => {
+      if (options.recursive) {
+        throw Object.assign(new TypeError("recursive watching is not available"), {
+          code: "ERR_FEATURE_UNAVAILABLE_ON_PLATFORM",
+        });
+      }
+      return watch(dir, options, listener);
+    }) as typeof fs.watch);
+    syncBuiltinESMExports();
+
+    watcher = await Bibliography.watch({ data: join(DIR, "**", "*.bib"), debounce: 20 });
+    const changes: BibliographyChange[] = [];
+    watcher.on("change", (change) => changes.push(change));
+
+    writeFileSync(join(DIR, "more", "d.bib"), entry("d", "Delta"));
+    await vi.waitFor(() => expect(changes).toHaveLength(1), { timeout: 2000 });
+    expect(changes[0]).toMatchObject({ added: ["d"] });
+    expect(vi.mocked(fs.watch).mock.calls.map(([dir, options]) => [dir, options])).toEqual([
+      [DIR, { recursive: true }],
+      [DIR, { recursive: false }],
+      [join(DIR, "more"), { recursive: false }],
+    ]);
+
+    mkdirSync(join(DIR, "new"));
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    writeFileSync(join(DIR, "new", "e.bib"), entry("e", "Epsilon"));
+    await vi.waitFor(() => expect(changes.at(-1)!.added).toEqual(["e"]), { timeout: 2000 });
+  });
+
+  it("reloads the CSL style", async () => {
+    const style = join(DIR, "style.csl");
+    const templates = Cite.plugins.config.get("@csl").templates;
+    writeFileSync(style, templates.data.apa);
+    watcher = await Bibliography.watch({ data: REFS, cslStyle: style });
+
+    const apa = watcher.bibliography.templateName;
+    writeFileSync(style, templates.data.vancouver);
+    const change = await watcher.refresh();
+    expect(templates.has(apa)).toBe(false);
+    expect(change).toMatchObject({ added: [], removed: [], modified: [], styleChanged: true });
+    const html = watcher.bibliography.formatEntry(watcher.bibliography.entries[0]);
+    expect(html).toContain('class="csl-left-margin"');
+  });
+
+  it("doesn't watch inline style XML", async () => {
+    const xml = Cite.plugins.config.get("@csl").templates.data.vancouver.replace(/\s*\n\s*/g, " ");
+    expect(xml).not.toContain("\n");
+    watcher = await Bibliography.watch({ data: REFS, cslStyle: xml });
+    expect(watcher.bibliography.templateName).toMatch(/^custom-/);
+  });
+});